@@ -0,0 +1,441 @@
+#!/usr/bin/env node
+/**
+ * Latency and accuracy benchmark over recorded reference audio.
+ *
+ * Usage: node scripts/benchmark.js --dir <reference dir> [options]
+ *
+ * Each audio file in the directory (wav, mp3, m4a, webm, ogg, flac) needs a
+ * sidecar `<name>.txt` with the expected transcript and may have
+ * `<name>.<target>.txt` with a reference translation. Every file is decoded
+ * with ffmpeg to the 16 kHz PCM the browser client sends and replayed through
+ * a running server's streaming API in 250 ms frames, so chunking, voice
+ * activity detection and merging behave exactly as they do live.
+ *
+ * Options:
+ *   --server       base URL of a running server (default http://localhost:3000)
+ *   --providers    comma-separated transcription providers (default openai)
+ *   --translators  comma-separated translators (default google)
+ *   --source, --target  language pair (default en → es)
+ *   --format       text | verbose_json (default text)
+ *   --speed        replay speed, 1 = real time (default 1)
+ *   --out          where to write the JSON report (default data/benchmarks/benchmark-<time>.json)
+ *
+ * Signs in with BENCHMARK_USERNAME / BENCHMARK_PASSWORD (create the user with
+ * scripts/create_user.js). Usage counts towards that user's daily quota.
+ */
+
+const { spawn } = require('child_process');
+const { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } = require('fs');
+const { basename, dirname, extname, join } = require('path');
+const { parseArgs } = require('util');
+
+const SAMPLE_RATE = 16000; // must match STREAM_SAMPLE_RATE in src/lib/audio/pcm.ts
+const FRAME_MS = 250; // must match FRAME_INTERVAL_MS in src/lib/streaming/client.ts
+const ROOM_TONE_MS = 1000; // lead-in for the server's noise floor calibration
+const AUDIO_EXTENSIONS = ['.wav', '.mp3', '.m4a', '.webm', '.ogg', '.flac'];
+const CLOSE_TIMEOUT_MS = 60000;
+
+// --- scoring -------------------------------------------------------------
+
+function normalizeWords(text) {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s']/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+// Word-level Levenshtein distance
+function editDistance(reference, hypothesis) {
+  let previous = Array.from({ length: hypothesis.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= reference.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= hypothesis.length; j++) {
+      const substitution = previous[j - 1] + (reference[i - 1] === hypothesis[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[hypothesis.length];
+}
+
+function wordErrors(referenceText, hypothesisText) {
+  const reference = normalizeWords(referenceText);
+  return { edits: editDistance(reference, normalizeWords(hypothesisText)), words: reference.length };
+}
+
+function charNgrams(text, n) {
+  const chars = text.toLowerCase().replace(/\s+/g, ' ').trim();
+  const counts = new Map();
+  for (let i = 0; i + n <= chars.length; i++) {
+    const gram = chars.substring(i, i + n);
+    counts.set(gram, (counts.get(gram) || 0) + 1);
+  }
+  return counts;
+}
+
+// chrF (character n-gram F-score, n = 1..6, recall weighted β = 2), 0-100
+function chrF(reference, hypothesis, maxN = 6, beta = 2) {
+  let precisionSum = 0;
+  let recallSum = 0;
+  let orders = 0;
+  for (let n = 1; n <= maxN; n++) {
+    const ref = charNgrams(reference, n);
+    const hyp = charNgrams(hypothesis, n);
+    const refTotal = Array.from(ref.values()).reduce((a, b) => a + b, 0);
+    const hypTotal = Array.from(hyp.values()).reduce((a, b) => a + b, 0);
+    if (refTotal === 0 || hypTotal === 0) {
+      continue;
+    }
+    let matches = 0;
+    hyp.forEach((count, gram) => {
+      matches += Math.min(count, ref.get(gram) || 0);
+    });
+    precisionSum += matches / hypTotal;
+    recallSum += matches / refTotal;
+    orders++;
+  }
+  if (orders === 0) {
+    return 0;
+  }
+  const precision = precisionSum / orders;
+  const recall = recallSum / orders;
+  if (precision + recall === 0) {
+    return 0;
+  }
+  return (100 * (1 + beta * beta) * precision * recall) / (beta * beta * precision + recall);
+}
+
+function percentile(values, p) {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+// --- audio ----------------------------------------------------------------
+
+function decodeToPCM(path) {
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn('ffmpeg', ['-v', 'error', '-i', path, '-f', 's16le', '-ac', '1', '-ar', String(SAMPLE_RATE), '-']);
+    const chunks = [];
+    let stderr = '';
+    ffmpeg.stdout.on('data', (data) => chunks.push(data));
+    ffmpeg.stderr.on('data', (data) => { stderr += data; });
+    ffmpeg.on('error', (error) => reject(new Error(`Could not run ffmpeg (is it installed?): ${error.message}`)));
+    ffmpeg.on('close', (code) => {
+      if (code !== 0) {
+        reject(new Error(`ffmpeg failed on ${path}: ${stderr.trim()}`));
+      } else {
+        resolve(Buffer.concat(chunks));
+      }
+    });
+  });
+}
+
+// Faint noise rather than digital silence, which the server's VAD ignores when calibrating
+function roomTone(ms) {
+  const samples = (ms / 1000) * SAMPLE_RATE;
+  const buffer = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    buffer.writeInt16LE(Math.round((Math.random() * 2 - 1) * 8), i * 2);
+  }
+  return buffer;
+}
+
+function loadClips(dir, target) {
+  return readdirSync(dir)
+    .filter((file) => AUDIO_EXTENSIONS.includes(extname(file).toLowerCase()))
+    .sort()
+    .map((file) => {
+      const base = join(dir, basename(file, extname(file)));
+      const transcriptPath = `${base}.txt`;
+      const translationPath = `${base}.${target}.txt`;
+      if (!existsSync(transcriptPath)) {
+        console.warn(`⚠️ Skipping ${file}: no ${basename(transcriptPath)}`);
+        return null;
+      }
+      return {
+        file,
+        path: join(dir, file),
+        transcript: readFileSync(transcriptPath, 'utf8').trim(),
+        translation: existsSync(translationPath) ? readFileSync(translationPath, 'utf8').trim() : null
+      };
+    })
+    .filter(Boolean);
+}
+
+// --- server ---------------------------------------------------------------
+
+function cookiesFrom(response) {
+  const raw = typeof response.headers.getSetCookie === 'function'
+    ? response.headers.getSetCookie()
+    : [response.headers.get('set-cookie')].filter(Boolean);
+  return raw.map((cookie) => cookie.split(';')[0]);
+}
+
+async function signIn(server, username, password) {
+  const csrfResponse = await fetch(`${server}/api/auth/csrf`);
+  const { csrfToken } = await csrfResponse.json();
+  const csrfCookies = cookiesFrom(csrfResponse);
+
+  const response = await fetch(`${server}/api/auth/callback/credentials`, {
+    method: 'POST',
+    redirect: 'manual',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Cookie: csrfCookies.join('; ') },
+    body: new URLSearchParams({ csrfToken, username, password, json: 'true' })
+  });
+  const session = cookiesFrom(response).find((cookie) => cookie.includes('session-token='));
+  if (!session) {
+    throw new Error(`Sign-in failed for "${username}" (HTTP ${response.status})`);
+  }
+  return session;
+}
+
+// Minimal text/event-stream reader; resolves once the server sends `closed`
+function listen(server, cookie, streamId, onEvent) {
+  const controller = new AbortController();
+  const done = (async () => {
+    const response = await fetch(`${server}/api/stream/${streamId}/events`, {
+      headers: { Cookie: cookie },
+      signal: controller.signal
+    });
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for await (const chunk of response.body) {
+      buffer += decoder.decode(chunk, { stream: true });
+      let boundary;
+      while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+        const message = buffer.substring(0, boundary);
+        buffer = buffer.substring(boundary + 2);
+        const data = message.split('\n').filter((line) => line.startsWith('data:')).map((line) => line.substring(5).trim()).join('\n');
+        if (!data) {
+          continue;
+        }
+        const event = JSON.parse(data);
+        onEvent(event);
+        if (event.type === 'closed') {
+          controller.abort();
+          return;
+        }
+      }
+    }
+  })().catch((error) => {
+    if (error.name !== 'AbortError') {
+      throw error;
+    }
+  });
+  return { done, abort: () => controller.abort() };
+}
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function runClip(options, cookie, clip, pcm, provider, translator) {
+  const { server } = options;
+  const response = await fetch(`${server}/api/stream`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Cookie: cookie },
+    body: JSON.stringify({
+      provider,
+      translator,
+      source: options.source,
+      target: options.target,
+      format: options.format,
+      language: options.source,
+      temperature: 0,
+      optimize: true
+    })
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(`Could not open stream: ${body.error || response.status}`);
+  }
+  const { id } = await response.json();
+
+  const finals = [];
+  const latencies = { total: [], whisper: [], translation: [] };
+  const errors = [];
+  const events = listen(server, cookie, id, (event) => {
+    if (event.type === 'partial' && event.utterance.serverLatency) {
+      const { total, whisper, translation } = event.utterance.serverLatency;
+      latencies.total.push(total);
+      latencies.whisper.push(whisper);
+      latencies.translation.push(translation);
+    } else if (event.type === 'final') {
+      finals.push(event.utterance);
+    } else if (event.type === 'error') {
+      errors.push(event.message);
+    }
+  });
+
+  const audio = Buffer.concat([roomTone(ROOM_TONE_MS), pcm]);
+  const frameBytes = (FRAME_MS / 1000) * SAMPLE_RATE * 2;
+  const startedAt = Date.now();
+  let audioEndedAt;
+  try {
+    for (let seq = 0; seq * frameBytes < audio.length; seq++) {
+      const frame = audio.subarray(seq * frameBytes, (seq + 1) * frameBytes);
+      const upload = await fetch(`${server}/api/stream/${id}/audio?seq=${seq}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/octet-stream', Cookie: cookie },
+        body: frame
+      });
+      if (!upload.ok) {
+        throw new Error(`Audio upload failed: ${upload.status} ${upload.statusText}`);
+      }
+      // Pace frames like a live microphone (scaled by --speed)
+      const due = startedAt + ((seq + 1) * FRAME_MS) / options.speed;
+      await sleep(Math.max(0, due - Date.now()));
+    }
+    audioEndedAt = Date.now();
+  } finally {
+    // Close the stream even when an upload failed, so neither side keeps it open
+    await fetch(`${server}/api/stream/${id}`, { method: 'DELETE', headers: { Cookie: cookie } }).catch(() => {});
+    if (audioEndedAt !== undefined) {
+      await Promise.race([events.done, sleep(CLOSE_TIMEOUT_MS)]);
+    }
+    events.abort();
+  }
+
+  const hypothesis = finals.map((u) => u.text).join(' ');
+  const translation = finals.map((u) => u.translatedText || '').join(' ').trim();
+  const words = wordErrors(clip.transcript, hypothesis);
+  return {
+    file: clip.file,
+    audioSeconds: pcm.length / 2 / SAMPLE_RATE,
+    wer: words.words > 0 ? words.edits / words.words : null,
+    edits: words.edits,
+    referenceWords: words.words,
+    chrF: clip.translation ? chrF(clip.translation, translation) : null,
+    finalLagMs: Date.now() - audioEndedAt, // last frame sent → stream closed
+    latencies,
+    hypothesis,
+    translation,
+    errors
+  };
+}
+
+// --- report ---------------------------------------------------------------
+
+function summarize(clips) {
+  const all = (key) => clips.flatMap((clip) => clip.latencies[key]);
+  const edits = clips.reduce((sum, clip) => sum + clip.edits, 0);
+  const words = clips.reduce((sum, clip) => sum + clip.referenceWords, 0);
+  const scored = clips.filter((clip) => clip.chrF !== null);
+  return {
+    clips: clips.length,
+    wer: words > 0 ? edits / words : null, // corpus-level: total edits / total reference words
+    chrF: scored.length > 0 ? scored.reduce((sum, clip) => sum + clip.chrF, 0) / scored.length : null,
+    latencyMs: {
+      total: { p50: percentile(all('total'), 50), p95: percentile(all('total'), 95) },
+      whisper: { p50: percentile(all('whisper'), 50), p95: percentile(all('whisper'), 95) },
+      translation: { p50: percentile(all('translation'), 50), p95: percentile(all('translation'), 95) }
+    },
+    finalLagMs: { p50: percentile(clips.map((c) => c.finalLagMs), 50), p95: percentile(clips.map((c) => c.finalLagMs), 95) },
+    errors: clips.reduce((sum, clip) => sum + clip.errors.length, 0)
+  };
+}
+
+function printTable(results) {
+  const fmt = (value, digits = 0) => (value === null || value === undefined ? '-' : value.toFixed(digits));
+  const rows = results.map(({ provider, translator, summary }) => ({
+    provider,
+    translator,
+    clips: String(summary.clips),
+    'WER %': fmt(summary.wer === null ? null : summary.wer * 100, 1),
+    chrF: fmt(summary.chrF, 1),
+    'total p50/p95 ms': `${fmt(summary.latencyMs.total.p50)}/${fmt(summary.latencyMs.total.p95)}`,
+    'whisper p50/p95': `${fmt(summary.latencyMs.whisper.p50)}/${fmt(summary.latencyMs.whisper.p95)}`,
+    'translate p50/p95': `${fmt(summary.latencyMs.translation.p50)}/${fmt(summary.latencyMs.translation.p95)}`,
+    'final lag p50': fmt(summary.finalLagMs.p50),
+    errors: String(summary.errors)
+  }));
+  const columns = Object.keys(rows[0]);
+  const widths = columns.map((column) => Math.max(column.length, ...rows.map((row) => row[column].length)));
+  const line = (cells) => cells.map((cell, i) => cell.padEnd(widths[i])).join('  ');
+  console.log(line(columns));
+  console.log(line(widths.map((width) => '-'.repeat(width))));
+  rows.forEach((row) => console.log(line(columns.map((column) => row[column]))));
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      dir: { type: 'string' },
+      server: { type: 'string', default: 'http://localhost:3000' },
+      providers: { type: 'string', default: 'openai' },
+      translators: { type: 'string', default: 'google' },
+      source: { type: 'string', default: 'en' },
+      target: { type: 'string', default: 'es' },
+      format: { type: 'string', default: 'text' },
+      speed: { type: 'string', default: '1' },
+      out: { type: 'string' }
+    }
+  });
+  const username = process.env.BENCHMARK_USERNAME;
+  const password = process.env.BENCHMARK_PASSWORD;
+  if (!values.dir || !username || !password) {
+    console.error('Usage: BENCHMARK_USERNAME=... BENCHMARK_PASSWORD=... node scripts/benchmark.js --dir <reference dir> [--providers openai,local] [--translators google,gpt4]');
+    process.exit(1);
+  }
+
+  const startedAt = new Date();
+  const options = { ...values, server: values.server.replace(/\/$/, ''), speed: Math.max(0.1, parseFloat(values.speed) || 1) };
+  const clips = loadClips(values.dir, options.target);
+  if (clips.length === 0) {
+    console.error(`No audio files with transcripts found in ${values.dir}`);
+    process.exit(1);
+  }
+
+  console.log(`🎧 Decoding ${clips.length} clips...`);
+  const audio = new Map();
+  for (const clip of clips) {
+    audio.set(clip.file, await decodeToPCM(clip.path));
+  }
+
+  const cookie = await signIn(options.server, username, password);
+  const providers = options.providers.split(',').map((p) => p.trim()).filter(Boolean);
+  const translators = options.translators.split(',').map((t) => t.trim()).filter(Boolean);
+
+  const results = [];
+  for (const provider of providers) {
+    for (const translator of translators) {
+      const clipResults = [];
+      for (const clip of clips) {
+        console.log(`▶️  ${provider} + ${translator}: ${clip.file}`);
+        try {
+          clipResults.push(await runClip(options, cookie, clip, audio.get(clip.file), provider, translator));
+        } catch (error) {
+          console.error(`❌ ${clip.file}: ${error.message}`);
+        }
+      }
+      if (clipResults.length > 0) {
+        results.push({ provider, translator, summary: summarize(clipResults), clips: clipResults });
+      }
+    }
+  }
+
+  if (results.length === 0) {
+    console.error('No clip completed');
+    process.exit(1);
+  }
+
+  console.log('');
+  printTable(results);
+
+  const outPath = options.out || join('data', 'benchmarks', `benchmark-${startedAt.toISOString().replace(/[:.]/g, '-')}.json`);
+  mkdirSync(dirname(outPath), { recursive: true });
+  writeFileSync(outPath, JSON.stringify({
+    startedAt: startedAt.toISOString(),
+    server: options.server,
+    settings: { source: options.source, target: options.target, format: options.format, speed: options.speed },
+    results
+  }, null, 2));
+  console.log(`\n📄 Full report written to ${outPath}`);
+}
+
+main().catch((error) => {
+  console.error('❌', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,73 @@
+#!/usr/bin/env node
+/**
+ * Create or update a sign-in user in the server-side users file.
+ *
+ * Usage: node scripts/create_user.js [--admin] <username> [display name]
+ * The password is read from the PASSWORD environment variable or prompted for.
+ * Writes to AUTH_USERS_FILE (default: data/users.json).
+ */
+
+const { scryptSync, randomBytes, randomUUID } = require('crypto');
+const { readFileSync, writeFileSync, mkdirSync } = require('fs');
+const { dirname, join } = require('path');
+const readline = require('readline');
+
+const KEY_LENGTH = 64; // must match src/lib/users.ts
+
+function hashPassword(password) {
+  const salt = randomBytes(16);
+  const key = scryptSync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${key.toString('hex')}`;
+}
+
+function promptPassword() {
+  return new Promise((resolve) => {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    rl.question('Password: ', (answer) => {
+      rl.close();
+      resolve(answer);
+    });
+  });
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const admin = args.includes('--admin');
+  const [username, name] = args.filter((arg) => arg !== '--admin');
+  if (!username) {
+    console.error('Usage: node scripts/create_user.js [--admin] <username> [display name]');
+    process.exit(1);
+  }
+
+  const password = process.env.PASSWORD || (await promptPassword());
+  if (!password) {
+    console.error('Password must not be empty');
+    process.exit(1);
+  }
+
+  const usersFile = process.env.AUTH_USERS_FILE || join(process.cwd(), 'data', 'users.json');
+  let users = [];
+  try {
+    users = JSON.parse(readFileSync(usersFile, 'utf8'));
+  } catch (error) {
+    if (error.code !== 'ENOENT') throw error;
+  }
+
+  const existing = users.find((u) => u.username === username);
+  if (existing) {
+    existing.passwordHash = hashPassword(password);
+    if (name) existing.name = name;
+    if (admin) existing.role = 'admin';
+  } else {
+    users.push({ id: randomUUID(), username, name: name || username, role: admin ? 'admin' : 'user', passwordHash: hashPassword(password) });
+  }
+
+  mkdirSync(dirname(usersFile), { recursive: true });
+  writeFileSync(usersFile, JSON.stringify(users, null, 2) + '\n', { mode: 0o600 });
+  console.log(`${existing ? 'Updated' : 'Created'} user "${username}" in ${usersFile}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,71 @@
+#!/usr/bin/env python3
+"""
+Offline translation with Argos Translate
+
+Last resort in the translation fallback chain: no network, no API key, only
+the language packages installed locally (argospm install translate-en_es ...).
+Pairs without a direct package are translated through English when both
+halves are installed.
+
+Usage:
+  python offline_translate.py --languages       prints the installed language codes as JSON
+  python offline_translate.py <from> <to>       translates stdin, prints {"translation": "..."}
+
+Errors go to stderr as {"error": ..., "details": ...} with exit code 1.
+"""
+
+import sys
+import json
+
+
+def installed_languages():
+    from argostranslate import translate
+    return sorted({language.code for language in translate.get_installed_languages()})
+
+
+def translate_text(text, source, target):
+    from argostranslate import translate
+    languages = {language.code: language for language in translate.get_installed_languages()}
+    if source not in languages or target not in languages:
+        raise ValueError(f"No installed package for {source} -> {target}")
+
+    translation = languages[source].get_translation(languages[target])
+    if translation is None and "en" in languages:
+        # Pivot through English
+        first = languages[source].get_translation(languages["en"])
+        second = languages["en"].get_translation(languages[target])
+        if first is None or second is None:
+            raise ValueError(f"No installed package for {source} -> {target}")
+        return second.translate(first.translate(text))
+    if translation is None:
+        raise ValueError(f"No installed package for {source} -> {target}")
+    return translation.translate(text)
+
+
+def main():
+    try:
+        if len(sys.argv) == 2 and sys.argv[1] == "--languages":
+            print(json.dumps(installed_languages()))
+            return
+        if len(sys.argv) != 3:
+            print(json.dumps({"error": "Usage: python offline_translate.py --languages | <from> <to>"}), file=sys.stderr)
+            sys.exit(1)
+
+        text = sys.stdin.read()
+        print(json.dumps({"translation": translate_text(text, sys.argv[1], sys.argv[2])}))
+
+    except ImportError as e:
+        print(json.dumps({
+            "error": "argostranslate not installed",
+            "details": str(e),
+            "install_command": "pip install argostranslate"
+        }), file=sys.stderr)
+        sys.exit(1)
+
+    except Exception as e:
+        print(json.dumps({"error": "Translation failed", "details": str(e)}), file=sys.stderr)
+        sys.exit(1)
+
+
+if __name__ == "__main__":
+    main()
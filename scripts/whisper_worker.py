@@ -0,0 +1,124 @@
+#!/usr/bin/env python3
+"""
+Long-lived Faster-Whisper worker
+
+Speaks line-delimited JSON on stdin/stdout so the Next.js server can keep
+models loaded between requests instead of spawning local_transcribe.py per
+chunk. One request is handled at a time; run several workers for concurrency.
+
+Requests (one JSON object per line):
+  {"id": "...", "type": "transcribe", "audio_path": "...", "model_size": "small", "language": "en", "word_timestamps": false}
+    (omit "language" to let Whisper detect it; add "languages": ["en", "es"] to
+    detect among those only)
+  {"id": "...", "type": "ping"}
+  {"type": "shutdown"}
+
+Responses:
+  {"type": "ready", "pid": 123, "device": "cuda"}
+  {"id": "...", "ok": true, "result": {...}}
+  {"id": "...", "ok": false, "error": "...", "details": "..."}
+"""
+
+import sys
+import json
+import time
+import os
+
+from local_transcribe import detect_device, load_model, transcribe_file
+
+# Keep a private handle on the real stdout for protocol messages and send
+# anything else that gets printed (library warnings, debug output) to stderr
+protocol_out = sys.stdout
+sys.stdout = sys.stderr
+
+models = {}
+
+
+def send(message):
+    protocol_out.write(json.dumps(message) + "\n")
+    protocol_out.flush()
+
+
+def get_model(model_size, device, compute_type):
+    """Return a cached model, loading it on first use. Second value is load time in ms."""
+    if model_size in models:
+        return models[model_size], 0
+
+    start_time = time.time()
+    print(f"[worker] Loading model {model_size} on {device} ({compute_type})", file=sys.stderr)
+    models[model_size] = load_model(model_size, device, compute_type)
+    return models[model_size], int((time.time() - start_time) * 1000)
+
+
+def handle(request, device_info):
+    request_type = request.get("type", "transcribe")
+    request_id = request.get("id")
+
+    if request_type == "ping":
+        send({"id": request_id, "ok": True, "result": {"pong": True, "models": sorted(models.keys())}})
+        return
+
+    if request_type != "transcribe":
+        send({"id": request_id, "ok": False, "error": f"Unknown request type: {request_type}"})
+        return
+
+    cuda_available, device, compute_type = device_info
+    model_size = request.get("model_size") or "small"
+    language = request.get("language") or None  # None = auto-detect
+    candidate_languages = request.get("languages") or None
+    word_timestamps = bool(request.get("word_timestamps"))
+
+    try:
+        model, model_load_ms = get_model(model_size, device, compute_type)
+        result = transcribe_file(
+            model, request["audio_path"], model_size, language,
+            cuda_available, device, compute_type, model_load_ms, word_timestamps,
+            candidate_languages
+        )
+        send({"id": request_id, "ok": True, "result": result})
+    except Exception as e:
+        send({
+            "id": request_id,
+            "ok": False,
+            "error": "Transcription failed",
+            "details": str(e),
+            "audio_file": request.get("audio_path")
+        })
+
+
+def main():
+    try:
+        device_info = detect_device()
+        # Warm up models named in WHISPER_PRELOAD_MODELS (comma separated)
+        for model_size in filter(None, os.environ.get("WHISPER_PRELOAD_MODELS", "").split(",")):
+            get_model(model_size.strip(), device_info[1], device_info[2])
+    except ImportError as e:
+        send({
+            "type": "fatal",
+            "error": "faster-whisper not installed",
+            "details": str(e),
+            "install_command": "pip install faster-whisper"
+        })
+        sys.exit(1)
+
+    send({"type": "ready", "pid": os.getpid(), "device": device_info[1], "models": sorted(models.keys())})
+
+    for line in sys.stdin:
+        line = line.strip()
+        if not line:
+            continue
+        try:
+            request = json.loads(line)
+        except json.JSONDecodeError as e:
+            send({"id": None, "ok": False, "error": "Invalid JSON request", "details": str(e)})
+            continue
+
+        if request.get("type") == "shutdown":
+            break
+        handle(request, device_info)
+
+    print("[worker] Shutting down", file=sys.stderr)
+
+
+if __name__ == "__main__":
+    main()
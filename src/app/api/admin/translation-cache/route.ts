@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/auth';
+import { CacheFilter, getTranslationCache } from '@/lib/translation/cache';
+import { logger, requestIdFor } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+function readFilter(url: URL): CacheFilter {
+  return {
+    translator: url.searchParams.get('translator') || undefined,
+    source: url.searchParams.get('source') || undefined,
+    target: url.searchParams.get('target') || undefined,
+    text: url.searchParams.get('text') || undefined
+  };
+}
+
+// GET /api/admin/translation-cache?translator=&source=&target=&text=&limit=
+// Hit/miss counters plus the matching entries, most recently used first
+export async function GET(request: NextRequest) {
+  if (!(await isAdminRequest(request))) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+  }
+
+  const url = new URL(request.url);
+  const limit = Math.min(parseInt(url.searchParams.get('limit') || '100', 10) || 100, 1000);
+  const cache = getTranslationCache();
+
+  return NextResponse.json({
+    stats: await cache.stats(),
+    entries: await cache.list(readFilter(url), limit)
+  });
+}
+
+// DELETE /api/admin/translation-cache with the same filters; no filter purges everything
+export async function DELETE(request: NextRequest) {
+  if (!(await isAdminRequest(request))) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+  }
+
+  const filter = readFilter(new URL(request.url));
+  const removed = await getTranslationCache().purge(filter);
+  logger.info('Translation cache purged', { requestId: requestIdFor(request), filter, removed });
+  return NextResponse.json({ removed });
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUserId } from '@/lib/auth';
+import {
+  deleteGlossaryEntry,
+  GlossaryEntryNotFoundError,
+  InvalidGlossaryEntryError,
+  updateGlossaryEntry
+} from '@/lib/glossary/store';
+
+type Context = { params: { id: string } };
+
+async function withGlossary(request: NextRequest, handler: (userId: string) => Promise<Response>) {
+  const userId = await getRequestUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  try {
+    return await handler(userId);
+  } catch (error) {
+    if (error instanceof GlossaryEntryNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof InvalidGlossaryEntryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: Context) {
+  return withGlossary(request, async (userId) => {
+    const body = await request.json().catch(() => ({}));
+    return NextResponse.json({ entry: await updateGlossaryEntry(userId, params.id, body) });
+  });
+}
+
+export async function DELETE(request: NextRequest, { params }: Context) {
+  return withGlossary(request, async (userId) => {
+    await deleteGlossaryEntry(userId, params.id);
+    return new NextResponse(null, { status: 204 });
+  });
+}
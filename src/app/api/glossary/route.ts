@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUserId } from '@/lib/auth';
+import { addGlossaryEntry, InvalidGlossaryEntryError, listGlossary } from '@/lib/glossary/store';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/glossary?source=en&target=es - the caller's glossary, optionally for one language pair
+export async function GET(request: NextRequest) {
+  const userId = await getRequestUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const url = new URL(request.url);
+  const source = url.searchParams.get('source');
+  const target = url.searchParams.get('target');
+  const entries = await listGlossary(userId, source && target ? { source, target } : undefined);
+  return NextResponse.json({ entries });
+}
+
+// POST /api/glossary { source, target, term, translation?, doNotTranslate? }
+export async function POST(request: NextRequest) {
+  const userId = await getRequestUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  try {
+    const entry = await addGlossaryEntry(userId, body);
+    return NextResponse.json({ entry }, { status: 201 });
+  } catch (error) {
+    if (error instanceof InvalidGlossaryEntryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
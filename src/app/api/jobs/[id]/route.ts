@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUserId } from '@/lib/auth';
+import { deleteJob, getJob, JobNotFoundError } from '@/lib/jobs/store';
+import { getJobRunner } from '@/lib/jobs/runner';
+
+type Context = { params: { id: string } };
+
+async function withJob(request: NextRequest, handler: (userId: string) => Promise<Response>) {
+  const userId = await getRequestUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  try {
+    return await handler(userId);
+  } catch (error) {
+    if (error instanceof JobNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    throw error;
+  }
+}
+
+// Status and progress; the transcript so far is in the job's session
+export async function GET(request: NextRequest, { params }: Context) {
+  return withJob(request, async (userId) => {
+    getJobRunner(); // resumes unfinished jobs if nothing has started the runner since a restart
+    const job = await getJob(userId, params.id);
+    const progress = job.status === 'completed' ? 1 : (job.totalPieces ? job.completedPieces / job.totalPieces : 0);
+    return NextResponse.json({ job, progress });
+  });
+}
+
+// Cancels a queued or running job; its transcript so far is kept
+export async function DELETE(request: NextRequest, { params }: Context) {
+  return withJob(request, async (userId) => {
+    await deleteJob(userId, params.id);
+    return new NextResponse(null, { status: 204 });
+  });
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUserId } from '@/lib/auth';
+import { assertAudioSize, AudioTooLargeError, sniffAudioContainer, UnsupportedAudioError } from '@/lib/audio/ingest';
+import { createJob, listJobs } from '@/lib/jobs/store';
+import { getJobRunner, jobAudioLimits } from '@/lib/jobs/runner';
+import { getTranscriptionProvider, UnknownProviderError } from '@/lib/transcription/registry';
+import { getTranslator, supportsPair, UnknownTranslatorError, UnsupportedLanguagePairError } from '@/lib/translation/registry';
+import { enforceUsageLimits, usageLimitResponse } from '@/lib/usage/limits';
+import { logger, requestIdFor } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const userId = await getRequestUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  getJobRunner(); // after a restart, the first look at the uploads page resumes unfinished jobs
+  return NextResponse.json({ jobs: await listJobs(userId) });
+}
+
+// Upload a long recording. Multipart fields: `audio` (the file), plus optional
+// `provider`, `translator`, `source`, `target` and `language`. The job runs in
+// the background; poll /api/jobs/:id for progress.
+export async function POST(request: NextRequest) {
+  const requestId = requestIdFor(request);
+  const userId = await getRequestUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: 'Authentication required', requestId }, { status: 401 });
+  }
+
+  try {
+    await enforceUsageLimits(request, userId);
+
+    const formData = await request.formData();
+    const field = (name: string) => {
+      const value = formData.get(name);
+      return typeof value === 'string' && value ? value : undefined;
+    };
+    const provider = getTranscriptionProvider(field('provider') || 'openai');
+    const translator = getTranslator(field('translator') || 'google');
+    const sourceLanguage = field('source') || 'en';
+    const targetLanguage = field('target') || 'es';
+    if (!(await supportsPair(translator, sourceLanguage, targetLanguage))) {
+      throw new UnsupportedLanguagePairError(translator.name, sourceLanguage, targetLanguage);
+    }
+
+    const audioFile = formData.get('audio');
+    if (!(audioFile instanceof Blob) || audioFile.size === 0) {
+      return NextResponse.json({ error: 'No audio file provided', requestId }, { status: 400 });
+    }
+    assertAudioSize(audioFile.size, jobAudioLimits());
+    const audio = Buffer.from(await audioFile.arrayBuffer());
+    // Decoding waits for the job, but obviously wrong files are turned away now
+    if (!sniffAudioContainer(audio)) {
+      throw new UnsupportedAudioError('Unrecognized audio format. Upload WAV, MP3, OGG, FLAC, WebM or MP4/M4A audio');
+    }
+
+    const fileName = ((audioFile as File).name || 'Recording').substring(0, 120);
+    const job = await createJob(userId, {
+      fileName,
+      options: {
+        provider: provider.name,
+        translator: translator.name,
+        sourceLanguage,
+        targetLanguage,
+        languageHint: field('language')
+      },
+      audio
+    });
+    getJobRunner().enqueue(job);
+    logger.info('Job queued', { requestId, jobId: job.id, fileName, bytes: audio.length });
+
+    return NextResponse.json({ job }, { status: 202 });
+  } catch (error) {
+    const limited = usageLimitResponse(error, requestId);
+    if (limited) {
+      return limited;
+    }
+    if (
+      error instanceof UnknownProviderError ||
+      error instanceof UnknownTranslatorError ||
+      error instanceof UnsupportedLanguagePairError
+    ) {
+      return NextResponse.json({ error: error.message, requestId }, { status: 400 });
+    }
+    if (error instanceof AudioTooLargeError) {
+      return NextResponse.json({ error: error.message, requestId }, { status: 413 });
+    }
+    if (error instanceof UnsupportedAudioError) {
+      return NextResponse.json({ error: error.message, requestId }, { status: 415 });
+    }
+    throw error;
+  }
+}
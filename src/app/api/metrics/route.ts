@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { isAdminRequest } from '@/lib/auth';
+import { getMetricsRegistry } from '@/lib/metrics';
+
+export const dynamic = 'force-dynamic';
+
+// Prometheus scrapers can't sign in, so with METRICS_TOKEN set they send
+// `Authorization: Bearer <token>`; otherwise an admin session is required
+async function canReadMetrics(request: NextRequest): Promise<boolean> {
+  const token = process.env.METRICS_TOKEN;
+  const header = request.headers.get('authorization') || '';
+  if (token && header.startsWith('Bearer ')) {
+    const given = Buffer.from(header.substring('Bearer '.length));
+    const expected = Buffer.from(token);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+  return isAdminRequest(request);
+}
+
+// GET /api/metrics - latency histograms and counters in the Prometheus text format
+export async function GET(request: NextRequest) {
+  if (!(await canReadMetrics(request))) {
+    return NextResponse.json({ error: 'Admin access or metrics token required' }, { status: 403 });
+  }
+  return new NextResponse(getMetricsRegistry().render(), {
+    headers: {
+      'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+      'Cache-Control': 'no-store'
+    }
+  });
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUserId } from '@/lib/auth';
+import { EXPORT_FORMATS, exportTranscript, ExportFormat, SUBTITLE_MODES, SubtitleMode } from '@/lib/export';
+import { getSession, SessionNotFoundError } from '@/lib/sessions/store';
+
+// GET /api/sessions/:id/export?format=srt|vtt|json|md|txt&mode=dual|original|translation
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const userId = await getRequestUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const url = new URL(request.url);
+  const format = (url.searchParams.get('format') || 'srt') as ExportFormat;
+  const mode = (url.searchParams.get('mode') || 'dual') as SubtitleMode;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return NextResponse.json({ error: `format must be one of ${EXPORT_FORMATS.join(', ')}` }, { status: 400 });
+  }
+  if (!SUBTITLE_MODES.includes(mode)) {
+    return NextResponse.json({ error: `mode must be one of ${SUBTITLE_MODES.join(', ')}` }, { status: 400 });
+  }
+
+  try {
+    const session = await getSession(userId, params.id);
+    const file = exportTranscript(session.entries, { format, mode, title: session.title });
+
+    return new NextResponse(file.content, {
+      headers: {
+        'Content-Type': file.mimeType,
+        'Content-Disposition': `attachment; filename="${file.fileName}"`
+      }
+    });
+  } catch (error) {
+    if (error instanceof SessionNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    throw error;
+  }
+}
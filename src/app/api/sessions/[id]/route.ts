@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUserId } from '@/lib/auth';
+import { deleteSession, getSession, renameSession, SessionNotFoundError } from '@/lib/sessions/store';
+
+type Context = { params: { id: string } };
+
+async function withSession(request: NextRequest, handler: (userId: string) => Promise<Response>) {
+  const userId = await getRequestUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  try {
+    return await handler(userId);
+  } catch (error) {
+    if (error instanceof SessionNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    throw error;
+  }
+}
+
+export async function GET(request: NextRequest, { params }: Context) {
+  return withSession(request, async (userId) => {
+    return NextResponse.json({ session: await getSession(userId, params.id) });
+  });
+}
+
+export async function PATCH(request: NextRequest, { params }: Context) {
+  return withSession(request, async (userId) => {
+    const body = await request.json().catch(() => ({}));
+    if (typeof body.title !== 'string' || !body.title.trim()) {
+      return NextResponse.json({ error: 'title is required' }, { status: 400 });
+    }
+    return NextResponse.json({ session: await renameSession(userId, params.id, body.title) });
+  });
+}
+
+export async function DELETE(request: NextRequest, { params }: Context) {
+  return withSession(request, async (userId) => {
+    await deleteSession(userId, params.id);
+    return new NextResponse(null, { status: 204 });
+  });
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUserId } from '@/lib/auth';
+import { createSession, listSessions } from '@/lib/sessions/store';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const userId = await getRequestUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  return NextResponse.json({ sessions: await listSessions(userId) });
+}
+
+export async function POST(request: NextRequest) {
+  const userId = await getRequestUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const session = await createSession(userId, {
+    title: typeof body.title === 'string' ? body.title : undefined,
+    sourceLanguage: body.source,
+    targetLanguage: body.target
+  });
+
+  return NextResponse.json({ session }, { status: 201 });
+}
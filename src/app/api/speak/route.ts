@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUserId } from '@/lib/auth';
+import {
+  getDefaultSpeechProviderName,
+  getSpeechProvider,
+  listSpeechProviders,
+  SpeechProviderUnavailableError,
+  UnknownSpeechProviderError
+} from '@/lib/speech/registry';
+import { UnknownVoiceError } from '@/lib/speech/types';
+import { enforceUsageLimits, usageLimitResponse } from '@/lib/usage/limits';
+import { logger, redactText, requestIdFor } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_TEXT_LENGTH = 1000;
+
+// GET /api/speak?language=es - speech providers, whether each works here, and its voices
+export async function GET(request: NextRequest) {
+  const language = new URL(request.url).searchParams.get('language') || 'en';
+
+  const providers = await Promise.all(
+    listSpeechProviders().map(async (provider) => {
+      const available = await provider.isAvailable();
+      return {
+        name: provider.name,
+        label: provider.label,
+        available,
+        voices: available ? await provider.voices(language) : []
+      };
+    })
+  );
+
+  return NextResponse.json({ defaultProvider: getDefaultSpeechProviderName(), providers });
+}
+
+// POST /api/speak { text, language, provider?, voice? } - returns the spoken audio
+export async function POST(request: NextRequest) {
+  const requestId = requestIdFor(request);
+  const userId = await getRequestUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: 'Authentication required', requestId }, { status: 401 });
+  }
+  const body = await request.json().catch(() => ({}));
+
+  const text = typeof body.text === 'string' ? body.text.trim() : '';
+  if (!text) {
+    return NextResponse.json({ error: 'text is required' }, { status: 400 });
+  }
+  if (text.length > MAX_TEXT_LENGTH) {
+    return NextResponse.json({ error: `text must be at most ${MAX_TEXT_LENGTH} characters` }, { status: 400 });
+  }
+  if (typeof body.language !== 'string' || !body.language) {
+    return NextResponse.json({ error: 'language is required' }, { status: 400 });
+  }
+
+  try {
+    // Cloud voices cost money and local ones CPU, so speech counts against the same limits
+    await enforceUsageLimits(request, userId);
+
+    const provider = getSpeechProvider(body.provider || getDefaultSpeechProviderName());
+    if (!(await provider.isAvailable())) {
+      throw new SpeechProviderUnavailableError(provider.name);
+    }
+
+    const startTime = Date.now();
+    const speech = await provider.synthesize({ text, language: body.language, voice: body.voice || undefined, requestId });
+    logger.info('Speech synthesized', { requestId, provider: provider.name, bytes: speech.audio.length, latency: Date.now() - startTime });
+
+    return new NextResponse(new Uint8Array(speech.audio), {
+      headers: {
+        'Content-Type': speech.mimeType,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    const limited = usageLimitResponse(error, requestId);
+    if (limited) {
+      return limited;
+    }
+    if (error instanceof UnknownSpeechProviderError || error instanceof UnknownVoiceError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof SpeechProviderUnavailableError) {
+      // The client falls back to the browser's own speechSynthesis
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
+    logger.error('Speech synthesis failed', { requestId, error });
+    return NextResponse.json(
+      { error: 'Speech synthesis failed', details: error instanceof Error ? redactText(error.message) : 'Unknown error', requestId },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUserId } from '@/lib/auth';
+import { getStream } from '@/lib/streaming/registry';
+import { assertWithinQuota } from '@/lib/usage/quota';
+import { usageLimitResponse } from '@/lib/usage/limits';
+
+// Body: raw 16 kHz mono signed 16-bit little-endian PCM. `?seq=` orders frames.
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const userId = await getRequestUserId(request);
+  const session = userId ? getStream(params.id, userId) : undefined;
+  if (!session || session.closed) {
+    return NextResponse.json({ error: 'Stream not found' }, { status: 404 });
+  }
+
+  // Frames are too frequent to rate limit, but a stream stops taking audio once the day's quota is gone
+  try {
+    await assertWithinQuota(session.userId);
+  } catch (error) {
+    const limited = usageLimitResponse(error);
+    if (limited) {
+      return limited;
+    }
+    throw error;
+  }
+
+  const seq = parseInt(new URL(request.url).searchParams.get('seq') || '', 10);
+  if (Number.isNaN(seq) || seq < 0) {
+    return NextResponse.json({ error: 'Missing or invalid seq parameter' }, { status: 400 });
+  }
+
+  const body = Buffer.from(await request.arrayBuffer());
+  if (body.length % 2 !== 0) {
+    return NextResponse.json({ error: 'PCM frame must contain whole 16-bit samples' }, { status: 400 });
+  }
+
+  // Copy into an aligned buffer - the request body may start at an odd offset
+  const samples = new Int16Array(body.length / 2);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = body.readInt16LE(i * 2);
+  }
+
+  session.appendAudio(seq, samples);
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUserId } from '@/lib/auth';
+import { getStream } from '@/lib/streaming/registry';
+import { StreamEvent } from '@/lib/streaming/types';
+
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_MS = 15000; // Keeps proxies from closing an idle connection
+
+// Server-sent events: partial and final transcripts (with translations) as they happen
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const userId = await getRequestUserId(request);
+  const session = userId ? getStream(params.id, userId) : undefined;
+  if (!session) {
+    return NextResponse.json({ error: 'Stream not found' }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const body = new ReadableStream({
+    start(controller) {
+      let done = false;
+      let heartbeat: NodeJS.Timeout | undefined;
+      let unsubscribe = () => {};
+
+      cleanup = () => {
+        if (done) return;
+        done = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+
+      const send = (event: StreamEvent) => {
+        if (done) return;
+        controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+        if (event.type === 'closed') {
+          cleanup();
+          controller.close();
+        }
+      };
+
+      heartbeat = setInterval(() => {
+        controller.enqueue(encoder.encode(': heartbeat\n\n'));
+      }, HEARTBEAT_MS);
+
+      unsubscribe = session.subscribe(send);
+      if (done) {
+        unsubscribe();
+      }
+
+      request.signal.addEventListener('abort', () => cleanup());
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  });
+}
@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUserId } from '@/lib/auth';
+import { closeStream, getStream } from '@/lib/streaming/registry';
+
+// Stop a stream: buffered audio is flushed and the last utterance finalized
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  const userId = await getRequestUserId(request);
+  const session = userId ? getStream(params.id, userId) : undefined;
+  if (!session) {
+    return NextResponse.json({ error: 'Stream not found' }, { status: 404 });
+  }
+
+  await closeStream(session);
+  return new NextResponse(null, { status: 204 });
+}
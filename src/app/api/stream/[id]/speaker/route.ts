@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUserId } from '@/lib/auth';
+import { getStream } from '@/lib/streaming/registry';
+
+// Tap-to-switch in conversation mode: body { speaker: 'a' | 'b' }
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const userId = await getRequestUserId(request);
+  const session = userId ? getStream(params.id, userId) : undefined;
+  if (!session || session.closed) {
+    return NextResponse.json({ error: 'Stream not found' }, { status: 404 });
+  }
+  if (!session.options.conversation) {
+    return NextResponse.json({ error: 'Stream is not in conversation mode' }, { status: 400 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  if (body.speaker !== 'a' && body.speaker !== 'b') {
+    return NextResponse.json({ error: "speaker must be 'a' or 'b'" }, { status: 400 });
+  }
+
+  session.setActiveSpeaker(body.speaker);
+  return new NextResponse(null, { status: 204 });
+}
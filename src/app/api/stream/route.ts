@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUserId } from '@/lib/auth';
+import { createStream } from '@/lib/streaming/registry';
+import { getSession, SessionNotFoundError } from '@/lib/sessions/store';
+import { getTranscriptionProvider, UnknownProviderError } from '@/lib/transcription/registry';
+import { getTranslator, supportsPair, UnknownTranslatorError, UnsupportedLanguagePairError } from '@/lib/translation/registry';
+import { parseContextSettings } from '@/lib/translation/context';
+import { enforceUsageLimits, usageLimitResponse } from '@/lib/usage/limits';
+import { ConversationConfig } from '@/types/conversation';
+
+// Participant A speaks the source language and B the target language, so the
+// pair check below covers conversation mode too.
+function parseConversation(raw: unknown, sourceLanguage: string, targetLanguage: string): ConversationConfig | undefined {
+  if (!raw || typeof raw !== 'object') {
+    return undefined;
+  }
+  const { participants, speakerMode, activeSpeaker } = raw as { participants?: unknown; speakerMode?: unknown; activeSpeaker?: unknown };
+  const names = Array.isArray(participants)
+    ? participants.map((p: unknown) => (p && typeof p === 'object' ? (p as { name?: unknown }).name : undefined))
+    : [];
+  return {
+    participants: [
+      { id: 'a', name: String(names[0] || 'Speaker A').substring(0, 40), language: sourceLanguage },
+      { id: 'b', name: String(names[1] || 'Speaker B').substring(0, 40), language: targetLanguage }
+    ],
+    speakerMode: speakerMode === 'manual' ? 'manual' : 'detect',
+    activeSpeaker: activeSpeaker === 'b' ? 'b' : 'a'
+  };
+}
+
+// Open a streaming transcription session. The client then POSTs PCM frames to
+// /api/stream/:id/audio and listens on /api/stream/:id/events.
+export async function POST(request: NextRequest) {
+  const userId = await getRequestUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+
+  try {
+    await enforceUsageLimits(request, userId);
+
+    const provider = getTranscriptionProvider(body.provider || 'openai');
+    const translator = getTranslator(body.translator || 'google');
+    const sourceLanguage = body.source || 'en';
+    const targetLanguage = body.target || 'es';
+    if (!(await supportsPair(translator, sourceLanguage, targetLanguage))) {
+      throw new UnsupportedLanguagePairError(translator.name, sourceLanguage, targetLanguage);
+    }
+
+    if (body.sessionId) {
+      await getSession(userId, body.sessionId); // must exist and belong to this user
+    }
+
+    const session = createStream(userId, {
+      provider: provider.name,
+      translator: translator.name,
+      sourceLanguage,
+      targetLanguage,
+      model: body.model,
+      languageHint: body.autoDirection ? undefined : body.language,
+      autoDirection: Boolean(body.autoDirection),
+      responseFormat: body.format === 'verbose_json' ? 'verbose_json' : 'text',
+      temperature: body.temperature !== undefined ? Number(body.temperature) : undefined,
+      optimize: body.optimize !== false,
+      sessionId: body.sessionId,
+      conversation: parseConversation(body.conversation, sourceLanguage, targetLanguage),
+      contextSettings: parseContextSettings(body.contextTurns, body.contextTokens),
+      overlapMs: body.overlapMs !== undefined ? Math.min(Math.max(Number(body.overlapMs) || 0, 0), 1000) : undefined
+    });
+
+    return NextResponse.json({ id: session.id }, { status: 201 });
+  } catch (error) {
+    const limited = usageLimitResponse(error);
+    if (limited) {
+      return limited;
+    }
+    if (error instanceof SessionNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (
+      error instanceof UnknownProviderError ||
+      error instanceof UnknownTranslatorError ||
+      error instanceof UnsupportedLanguagePairError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
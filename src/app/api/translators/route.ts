@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { getLanguageName } from '@/lib/languages';
+import { listTranslators } from '@/lib/translation/registry';
+
+export const dynamic = 'force-dynamic';
+
+// Lists every translator with the languages it can translate between
+export async function GET() {
+  const translators = await Promise.all(
+    listTranslators().map(async (translator) => {
+      const codes = await translator.supportedLanguages();
+      return {
+        name: translator.name,
+        label: translator.label,
+        languages: codes
+          .map(code => ({ code, name: getLanguageName(code) }))
+          .sort((a, b) => a.name.localeCompare(b.name))
+      };
+    })
+  );
+
+  return NextResponse.json({ translators });
+}
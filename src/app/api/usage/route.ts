@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUserId } from '@/lib/auth';
+import { getQuotaStatus } from '@/lib/usage/quota';
+
+export const dynamic = 'force-dynamic';
+
+// Today's usage and what is left of the caller's daily quotas
+export async function GET(request: NextRequest) {
+  const userId = await getRequestUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  return NextResponse.json(await getQuotaStatus(userId));
+}
@@ -0,0 +1,269 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import { TranscriptionJob } from '@/types/job';
+
+interface LanguageOption {
+  code: string;
+  name: string;
+}
+
+const POLL_INTERVAL_MS = 2000;
+
+const STATUS_COLORS: Record<TranscriptionJob['status'], string> = {
+  queued: '#9ca3af',
+  running: '#2563eb',
+  completed: '#16a34a',
+  failed: '#ff6b6b'
+};
+
+function formatDuration(seconds?: number): string {
+  if (seconds === undefined) {
+    return '';
+  }
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(Math.round(seconds % 60)).padStart(2, '0')}`;
+}
+
+// Upload long recordings and follow their background transcription
+export default function JobsPage() {
+  useSession({
+    required: true,
+    onUnauthenticated() {
+      window.location.href = '/';
+    }
+  });
+
+  const [jobs, setJobs] = useState<TranscriptionJob[]>([]);
+  const [file, setFile] = useState<File | null>(null);
+  const [provider, setProvider] = useState<'openai' | 'local'>('openai');
+  const [translator, setTranslator] = useState<'google' | 'gpt4'>('google');
+  const [sourceLanguage, setSourceLanguage] = useState('en');
+  const [targetLanguage, setTargetLanguage] = useState('es');
+  const [translatorLanguages, setTranslatorLanguages] = useState<Record<string, LanguageOption[]>>({});
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadJobs = async () => {
+    try {
+      const response = await fetch('/api/jobs');
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const data = await response.json();
+      setJobs(data.jobs);
+    } catch (err) {
+      console.error('Could not load jobs:', err);
+      setError('Could not load uploads');
+    }
+  };
+
+  useEffect(() => {
+    loadJobs();
+    fetch('/api/translators')
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`HTTP ${response.status}`)))
+      .then((data: { translators: { name: string; languages: LanguageOption[] }[] }) => {
+        const languagesByTranslator: Record<string, LanguageOption[]> = {};
+        data.translators.forEach(t => {
+          languagesByTranslator[t.name] = t.languages;
+        });
+        setTranslatorLanguages(languagesByTranslator);
+      })
+      .catch(err => console.warn('Could not load translator languages:', err));
+  }, []);
+
+  // Poll while anything is still being worked on
+  const hasActiveJobs = jobs.some(job => job.status === 'queued' || job.status === 'running');
+  useEffect(() => {
+    if (!hasActiveJobs) {
+      return;
+    }
+    const interval = setInterval(loadJobs, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasActiveJobs]);
+
+  const upload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) {
+      return;
+    }
+    setIsUploading(true);
+    setError('');
+
+    const formData = new FormData();
+    formData.append('audio', file, file.name);
+    formData.append('provider', provider);
+    formData.append('translator', translator);
+    formData.append('source', sourceLanguage);
+    formData.append('target', targetLanguage);
+
+    try {
+      const response = await fetch('/api/jobs', { method: 'POST', body: formData });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+      setFile(null);
+      await loadJobs();
+    } catch (err) {
+      setError(`Upload failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const remove = async (job: TranscriptionJob) => {
+    const running = job.status === 'queued' || job.status === 'running';
+    if (!window.confirm(running ? `Stop transcribing "${job.fileName}"?` : `Remove "${job.fileName}" from this list? The transcript is kept.`)) {
+      return;
+    }
+    const response = await fetch(`/api/jobs/${job.id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      setError('Could not remove upload');
+    }
+    loadJobs();
+  };
+
+  const languages = translatorLanguages[translator] || [];
+
+  return (
+    <div style={{
+      backgroundColor: 'black',
+      minHeight: '100vh',
+      padding: '1rem',
+      fontFamily: 'monospace',
+      color: 'white'
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
+        <h1 style={{ fontSize: '1.5rem', margin: 0 }}>Uploads</h1>
+        <a href="/transcribe" style={{ color: '#9ca3af', fontSize: '0.9rem' }}>← Live transcription</a>
+      </div>
+
+      <form
+        onSubmit={upload}
+        style={{
+          display: 'flex',
+          flexWrap: 'wrap',
+          alignItems: 'center',
+          gap: '0.75rem',
+          padding: '1rem',
+          marginBottom: '1rem',
+          backgroundColor: '#1f2937',
+          borderRadius: '8px',
+          fontSize: '0.9rem'
+        }}
+      >
+        <input
+          type="file"
+          accept="audio/*,.m4a,.flac,.opus"
+          onChange={(e) => setFile(e.target.files?.[0] || null)}
+          disabled={isUploading}
+        />
+        <select value={provider} onChange={(e) => setProvider(e.target.value as 'openai' | 'local')} style={selectStyle}>
+          <option value="openai">OpenAI Whisper</option>
+          <option value="local">Local Faster-Whisper</option>
+        </select>
+        <select value={translator} onChange={(e) => setTranslator(e.target.value as 'google' | 'gpt4')} style={selectStyle}>
+          <option value="google">Google</option>
+          <option value="gpt4">GPT-4</option>
+        </select>
+        <span>
+          <select value={sourceLanguage} onChange={(e) => setSourceLanguage(e.target.value)} style={selectStyle}>
+            {languages.length === 0 && <option value={sourceLanguage}>{sourceLanguage}</option>}
+            {languages.map(l => <option key={l.code} value={l.code} disabled={l.code === targetLanguage}>{l.name}</option>)}
+          </select>
+          {' ⇄ '}
+          <select value={targetLanguage} onChange={(e) => setTargetLanguage(e.target.value)} style={selectStyle}>
+            {languages.length === 0 && <option value={targetLanguage}>{targetLanguage}</option>}
+            {languages.map(l => <option key={l.code} value={l.code} disabled={l.code === sourceLanguage}>{l.name}</option>)}
+          </select>
+        </span>
+        <button
+          type="submit"
+          disabled={!file || isUploading}
+          style={{
+            padding: '0.5rem 1rem',
+            backgroundColor: !file || isUploading ? '#374151' : '#2563eb',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: !file || isUploading ? 'not-allowed' : 'pointer'
+          }}
+        >
+          {isUploading ? 'Uploading...' : '⬆ Upload'}
+        </button>
+      </form>
+
+      {error && <div style={{ color: '#ff6b6b', marginBottom: '1rem' }}>{error}</div>}
+
+      {jobs.length === 0 && !error && (
+        <div style={{ color: '#9ca3af', fontStyle: 'italic' }}>
+          No uploads yet. Recordings are split on pauses and transcribed in the background.
+        </div>
+      )}
+
+      {jobs.map(job => {
+        const progress = job.status === 'completed' ? 1 : (job.totalPieces ? job.completedPieces / job.totalPieces : 0);
+        return (
+          <div
+            key={job.id}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '1rem',
+              padding: '0.75rem',
+              borderBottom: '1px solid #374151',
+              fontSize: '0.9rem'
+            }}
+          >
+            <div style={{ flex: 1, overflow: 'hidden' }}>
+              <div style={{ whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>{job.fileName}</div>
+              <div style={{ color: '#9ca3af', fontSize: '0.75rem' }}>
+                {new Date(job.createdAt).toLocaleString()} · {job.options.sourceLanguage} ⇄ {job.options.targetLanguage}
+                {job.duration !== undefined && ` · ${formatDuration(job.duration)}`}
+              </div>
+              {job.error && <div style={{ color: '#ff6b6b', fontSize: '0.75rem' }}>{job.error}</div>}
+            </div>
+
+            <div style={{ width: '200px' }}>
+              <div style={{ color: STATUS_COLORS[job.status], fontSize: '0.75rem', marginBottom: '0.25rem' }}>
+                {job.status}
+                {job.totalPieces !== undefined && job.status !== 'completed' && ` · ${job.completedPieces}/${job.totalPieces} pieces`}
+              </div>
+              <div style={{ height: '6px', backgroundColor: '#374151', borderRadius: '3px', overflow: 'hidden' }}>
+                <div style={{ width: `${Math.round(progress * 100)}%`, height: '100%', backgroundColor: STATUS_COLORS[job.status] }} />
+              </div>
+            </div>
+
+            <a
+              href={`/transcribe?session=${job.sessionId}`}
+              style={{ color: job.completedPieces > 0 ? '#60a5fa' : '#4b5563', pointerEvents: job.completedPieces > 0 ? 'auto' : 'none' }}
+            >
+              Open transcript
+            </a>
+            <button onClick={() => remove(job)} title={job.status === 'queued' || job.status === 'running' ? 'Stop' : 'Remove'} style={iconButtonStyle}>
+              {job.status === 'queued' || job.status === 'running' ? '⏹' : '🗑'}
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+const selectStyle: React.CSSProperties = {
+  padding: '0.25rem',
+  backgroundColor: '#374151',
+  color: 'white',
+  border: 'none',
+  borderRadius: '4px',
+  fontSize: '0.8rem'
+};
+
+const iconButtonStyle: React.CSSProperties = {
+  padding: '0.25rem',
+  backgroundColor: 'transparent',
+  border: 'none',
+  cursor: 'pointer'
+};
@@ -1,24 +1,52 @@
 'use client';
 
 import { useState } from 'react';
+import { signIn, signOut, useSession } from 'next-auth/react';
 
 export default function Home() {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const { data: session, status } = useSession();
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const handleLogin = (e: React.FormEvent) => {
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (username === 'ben' && password === 'gordon') {
-      setIsAuthenticated(true);
-      setError('');
-    } else {
+    setIsSubmitting(true);
+    setError('');
+
+    // Credentials are checked on the server; we only learn whether it worked
+    const result = await signIn('credentials', {
+      username,
+      password,
+      redirect: false
+    });
+
+    setIsSubmitting(false);
+    if (!result || result.error) {
       setError('Invalid credentials');
+    } else {
+      setPassword('');
     }
   };
 
-  if (!isAuthenticated) {
+  if (status === 'loading') {
+    return (
+      <div style={{ 
+        display: 'flex', 
+        height: '100vh', 
+        alignItems: 'center', 
+        justifyContent: 'center', 
+        backgroundColor: 'white',
+        fontFamily: 'Arial, sans-serif',
+        color: '#666'
+      }}>
+        Loading...
+      </div>
+    );
+  }
+
+  if (!session) {
     return (
       <div style={{ 
         display: 'flex', 
@@ -80,6 +108,7 @@ export default function Home() {
             )}
             <button
               type="submit"
+              disabled={isSubmitting}
               style={{ 
                 width: '100%', 
                 padding: '0.75rem', 
@@ -87,10 +116,11 @@ export default function Home() {
                 color: 'white',
                 border: 'none',
                 borderRadius: '4px',
-                cursor: 'pointer'
+                cursor: isSubmitting ? 'not-allowed' : 'pointer',
+                opacity: isSubmitting ? 0.7 : 1
               }}
             >
-              Login
+              {isSubmitting ? 'Signing in...' : 'Login'}
             </button>
           </form>
         </div>
@@ -125,6 +155,26 @@ export default function Home() {
       >
         Start Transcription
       </button>
+      <a href="/jobs" style={{ color: '#007bff', fontSize: '0.95rem', fontFamily: 'Arial, sans-serif' }}>
+        or upload a recording
+      </a>
+      <div style={{ color: '#666', fontSize: '0.9rem', fontFamily: 'Arial, sans-serif' }}>
+        Signed in as {session.user.name}
+        <button
+          onClick={() => signOut({ callbackUrl: '/' })}
+          style={{
+            marginLeft: '0.5rem',
+            padding: '0.25rem 0.5rem',
+            backgroundColor: 'transparent',
+            color: '#007bff',
+            border: '1px solid #007bff',
+            borderRadius: '4px',
+            cursor: 'pointer'
+          }}
+        >
+          Sign out
+        </button>
+      </div>
     </div>
   );
 }
@@ -1,51 +1,116 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-
-interface TranscriptionResult {
-  text: string;
-  translatedText?: string;
-  language: string;
-  timestamp: number;
-  translationService?: string;
-  isTranslating?: boolean; // Progressive display: show when translation is in progress
-  serverLatency?: {
-    total: number;
-    whisper: number;
-    translation: number;
-  };
-  testMetrics?: {
-    chunkSize: number;
-    latency: number;
-    apiLatency: number;
-    chunkIndex: number;
-  };
+import { useSession } from 'next-auth/react';
+import { TranscriptionResult } from '@/types/transcript';
+import { StreamingClient, StreamRequestError } from '@/lib/streaming/client';
+import { StreamEvent } from '@/lib/streaming/types';
+import { VadStatus } from '@/lib/audio/vad';
+import { SessionPicker } from '@/components/SessionPicker';
+import { ExportMenu } from '@/components/ExportMenu';
+import { ConversationView } from '@/components/ConversationView';
+import { DirectionLabel } from '@/components/DirectionLabel';
+import { SpeechControls } from '@/components/SpeechControls';
+import { GlossaryPanel } from '@/components/GlossaryPanel';
+import { UsageMeter } from '@/components/UsageMeter';
+import { SpeechPlayback } from '@/lib/speech/playback';
+import { Participant, SpeakerId, SpeakerMode, SPEAKER_COLORS } from '@/types/conversation';
+
+interface LanguageOption {
+  code: string;
+  name: string;
 }
 
 export default function TranscribePage() {
+  // Middleware already blocks unauthenticated page loads; this catches sessions expiring mid-use
+  useSession({
+    required: true,
+    onUnauthenticated() {
+      window.location.href = '/';
+    }
+  });
+
   const [isListening, setIsListening] = useState(false);
   const [transcriptions, setTranscriptions] = useState<TranscriptionResult[]>([]);
   const [currentTranscript, setCurrentTranscript] = useState<TranscriptionResult | null>(null);
   const [error, setError] = useState<string>('');
+  const [errorRequestId, setErrorRequestId] = useState<string | undefined>(undefined);
   const [isLoading, setIsLoading] = useState(false);
-  const [audioAnalysisStatus, setAudioAnalysisStatus] = useState<string>('');
+  const [vadStatus, setVadStatus] = useState<VadStatus | null>(null);
   const [isTesting, setIsTesting] = useState(false);
   const [testResults, setTestResults] = useState<any[]>([]);
   const [translationService, setTranslationService] = useState<'gpt4' | 'google'>('google');
   const [transcriptionService, setTranscriptionService] = useState<'openai' | 'local'>('openai');
   const [performanceMode, setPerformanceMode] = useState<'optimized' | 'standard'>('optimized');
+  const [sourceLanguage, setSourceLanguage] = useState('en');
+  const [targetLanguage, setTargetLanguage] = useState('es');
+  const [autoDirection, setAutoDirection] = useState(false);
+  const [translatorLanguages, setTranslatorLanguages] = useState<Record<string, LanguageOption[]>>({});
   const [scrollPosition, setScrollPosition] = useState(0);
+  const [activeSession, setActiveSession] = useState<{ id: string; title: string } | null>(null);
+  const [viewMode, setViewMode] = useState<'standard' | 'conversation'>('standard');
+  const [participantNames, setParticipantNames] = useState<Record<SpeakerId, string>>({ a: 'Speaker A', b: 'Speaker B' });
+  const [speakerMode, setSpeakerMode] = useState<SpeakerMode>('detect');
+  const [activeSpeaker, setActiveSpeaker] = useState<SpeakerId>('a');
+  const [speechEnabled, setSpeechEnabled] = useState(false);
+  const [speechProvider, setSpeechProvider] = useState('');
+  const [speechVoices, setSpeechVoices] = useState<Record<string, string>>({});
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [contextTurns, setContextTurns] = useState(4);
 
   
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const audioChunksRef = useRef<Blob[]>([]);
-  const streamRef = useRef<MediaStream | null>(null);
+  const streamingClientRef = useRef<StreamingClient | null>(null);
+  const speechPlaybackRef = useRef<SpeechPlayback | null>(null);
   const leftPaneRef = useRef<HTMLDivElement>(null);
   const rightPaneRef = useRef<HTMLDivElement>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
   const scrollIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
+  // Load the language list each translator supports
+  useEffect(() => {
+    fetch('/api/translators')
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`HTTP ${response.status}`)))
+      .then((data: { translators: { name: string; languages: LanguageOption[] }[] }) => {
+        const languagesByTranslator: Record<string, LanguageOption[]> = {};
+        data.translators.forEach(translator => {
+          languagesByTranslator[translator.name] = translator.languages;
+        });
+        setTranslatorLanguages(languagesByTranslator);
+      })
+      .catch(err => console.warn('Could not load translator languages:', err));
+  }, []);
+
+  const availableLanguages = translatorLanguages[translationService] || [];
+
+  // Participant A speaks the source language, B the target language
+  const participants: [Participant, Participant] = [
+    { id: 'a', name: participantNames.a, language: sourceLanguage },
+    { id: 'b', name: participantNames.b, language: targetLanguage }
+  ];
+
+  // Spoken translations; the mic is muted while they play so they aren't transcribed again
+  useEffect(() => {
+    if (!speechEnabled) {
+      speechPlaybackRef.current?.clear();
+      speechPlaybackRef.current = null;
+      setIsSpeaking(false);
+      streamingClientRef.current?.setMuted(false);
+      return;
+    }
+    const options = {
+      provider: speechProvider,
+      voices: speechVoices,
+      onPlaybackChange: (playing: boolean) => {
+        setIsSpeaking(playing);
+        streamingClientRef.current?.setMuted(playing);
+      }
+    };
+    if (speechPlaybackRef.current) {
+      speechPlaybackRef.current.configure(options);
+    } else {
+      speechPlaybackRef.current = new SpeechPlayback(options);
+    }
+  }, [speechEnabled, speechProvider, speechVoices]);
+
   // Teleprompter scrolling effect
   useEffect(() => {
     if (isListening) {
@@ -78,241 +143,156 @@ export default function TranscribePage() {
     }
   }, [scrollPosition]);
 
-  // Calculate RMS (Root Mean Square) energy of audio data
-  const calculateAudioRMS = async (audioBlob: Blob): Promise<number> => {
+  // The request ID lets a failure be matched to the server's logs
+  const showError = (message: string, requestId?: string) => {
+    setError(message);
+    setErrorRequestId(requestId);
+  };
+
+  const handleStreamEvent = (event: StreamEvent) => {
+    switch (event.type) {
+      case 'partial':
+        console.log('📝 Partial transcript:', event.utterance);
+        setCurrentTranscript(event.utterance);
+        break;
+      case 'final':
+        console.log('⏰ Finalizing transcript:', event.utterance);
+        setTranscriptions(prev => [...prev, event.utterance]);
+        setCurrentTranscript(current => (current?.id === event.utterance.id ? null : current));
+        if (event.utterance.translatedText && event.utterance.targetLanguage) {
+          speechPlaybackRef.current?.enqueue(event.utterance.translatedText, event.utterance.targetLanguage);
+        }
+        break;
+      case 'vad':
+        setVadStatus(event.vad);
+        break;
+      case 'error':
+        console.error('❌ Stream error:', event.message);
+        showError(`Transcription failed: ${event.message}`, event.requestId);
+        break;
+      case 'closed':
+        console.log('🛑 Stream closed');
+        break;
+    }
+  };
+
+  // Every stream is attached to a stored conversation so nothing is lost on refresh
+  const ensureSession = async (): Promise<string> => {
+    if (activeSession) {
+      return activeSession.id;
+    }
+    const response = await fetch('/api/sessions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ source: sourceLanguage, target: targetLanguage })
+    });
+    if (!response.ok) {
+      throw new Error(`Could not create conversation: ${response.status} ${response.statusText}`);
+    }
+    const { session } = await response.json();
+    setActiveSession({ id: session.id, title: session.title });
+    return session.id;
+  };
+
+  const openSession = async (id: string) => {
     try {
-      const arrayBuffer = await audioBlob.arrayBuffer();
-      
-      if (!audioContextRef.current) {
-        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+      const response = await fetch(`/api/sessions/${id}`);
+      if (!response.ok) {
+        throw new Error(`${response.status} ${response.statusText}`);
       }
-      
-      const audioBuffer = await audioContextRef.current.decodeAudioData(arrayBuffer);
-      const channelData = audioBuffer.getChannelData(0);
-      
-      let sum = 0;
-      for (let i = 0; i < channelData.length; i++) {
-        sum += channelData[i] * channelData[i];
+      const { session } = await response.json();
+      setActiveSession({ id: session.id, title: session.title });
+      setTranscriptions(session.entries);
+      setCurrentTranscript(null);
+      if (session.sourceLanguage && session.targetLanguage) {
+        setSourceLanguage(session.sourceLanguage);
+        setTargetLanguage(session.targetLanguage);
       }
-      
-      const rms = Math.sqrt(sum / channelData.length);
-      const decibels = 20 * Math.log10(rms);
-      
-      return decibels;
-    } catch (error) {
-      console.warn('Could not calculate audio RMS:', error);
-      return -30; // Default to a reasonable threshold if calculation fails
+      setScrollPosition(0);
+      setError('');
+    } catch (err) {
+      console.error('❌ Error opening conversation:', err);
+      showError(`Could not open conversation: ${err instanceof Error ? err.message : 'Unknown error'}`);
     }
   };
 
+  // /transcribe?session=<id> opens a stored conversation, e.g. a finished upload
+  useEffect(() => {
+    const sessionId = new URLSearchParams(window.location.search).get('session');
+    if (sessionId) {
+      openSession(sessionId);
+    }
+  }, []);
+
   const startListening = async () => {
     try {
       setIsLoading(true);
       setError('');
-      
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          sampleRate: 16000
-        }
-      });
-      
-      streamRef.current = stream;
-      
-      const mediaRecorder = new MediaRecorder(stream, {
-        mimeType: 'audio/webm; codecs=opus'
-      });
-      
-      mediaRecorderRef.current = mediaRecorder;
-      audioChunksRef.current = [];
-
-      mediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          audioChunksRef.current.push(event.data);
-        }
-      };
 
-      mediaRecorder.onstop = async () => {
-        if (audioChunksRef.current.length > 0) {
-          const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
-          await sendAudioForTranscription(audioBlob);
-          audioChunksRef.current = [];
-        }
-      };
+      const sessionId = await ensureSession();
+      const client = new StreamingClient({
+        config: {
+          provider: transcriptionService,
+          translator: translationService,
+          source: sourceLanguage,
+          target: targetLanguage,
+          ...(performanceMode === 'optimized'
+            ? { format: 'text', language: sourceLanguage, temperature: 0, optimize: true }
+            : { optimize: false }),
+          // Each segment's language is detected instead of assumed to be the source
+          ...(viewMode === 'standard' && autoDirection && { autoDirection: true }),
+          sessionId,
+          contextTurns,
+          ...(viewMode === 'conversation' && {
+            conversation: {
+              participants: participants.map(p => ({ name: p.name })),
+              speakerMode,
+              activeSpeaker
+            }
+          })
+        },
+        onEvent: handleStreamEvent,
+        onError: showError
+      });
+      streamingClientRef.current = client;
+      client.setMuted(isSpeaking);
 
-      // Record in 1.5-second chunks for maximum speed
-      mediaRecorder.start();
+      await client.start();
       setIsListening(true);
       setIsLoading(false);
 
-      // Set up interval to process audio chunks - optimized for maximum speed
-      const interval = setInterval(() => {
-        if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
-          mediaRecorderRef.current.stop();
-          mediaRecorderRef.current.start();
-        }
-      }, 1500); // 1.5 seconds - maximum speed while maintaining quality
-
-      // Store interval for cleanup
-      (mediaRecorderRef.current as any).intervalId = interval;
-
     } catch (err) {
-      console.error('Error starting audio recording:', err);
-      setError('Failed to access microphone. Please ensure microphone permissions are granted.');
+      console.error('Error starting audio streaming:', err);
+      await streamingClientRef.current?.stop();
+      streamingClientRef.current = null;
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      showError(err instanceof DOMException
+        ? 'Failed to access microphone. Please ensure microphone permissions are granted.'
+        : `Failed to start streaming: ${message}`, err instanceof StreamRequestError ? err.requestId : undefined);
       setIsLoading(false);
     }
   };
 
-  const stopListening = () => {
-    if (mediaRecorderRef.current) {
-      const intervalId = (mediaRecorderRef.current as any).intervalId;
-      if (intervalId) {
-        clearInterval(intervalId);
-      }
-      
-      mediaRecorderRef.current.stop();
-      mediaRecorderRef.current = null;
-    }
-    
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
-    }
-    
+  const stopListening = async () => {
+    const client = streamingClientRef.current;
+    streamingClientRef.current = null;
     setIsListening(false);
-    
-    // Finalize current transcript when stopping
-    if (currentTranscript) {
-      setTranscriptions(prev => [...prev, currentTranscript]);
-      setCurrentTranscript(null);
-    }
-  };
-
-  const sendAudioForTranscription = async (audioBlob: Blob) => {
-    try {
-      console.log('📤 Analyzing audio chunk...', {
-        size: audioBlob.size,
-        type: audioBlob.type
-      });
-
-      // Calculate audio RMS to determine if chunk contains meaningful audio
-      const audioDecibels = await calculateAudioRMS(audioBlob);
-      const RMS_THRESHOLD = -45; // Minimum decibel level to process (adjust as needed)
-      
-      if (audioDecibels < RMS_THRESHOLD) {
-        console.log('🔇 Audio too quiet, skipping transcription:', {
-          decibels: audioDecibels.toFixed(2) + ' dB',
-          threshold: RMS_THRESHOLD + ' dB'
-        });
-        setAudioAnalysisStatus(`🔇 Audio too quiet (${audioDecibels.toFixed(1)} dB)`);
-        setTimeout(() => setAudioAnalysisStatus(''), 2000); // Clear after 2 seconds
-        return; // Skip this chunk - too quiet
-      }
-
-      console.log('✅ Audio above threshold, sending for transcription:', {
-        decibels: audioDecibels.toFixed(2) + ' dB',
-        threshold: RMS_THRESHOLD + ' dB'
-      });
-      setAudioAnalysisStatus(`🔊 Processing audio (${audioDecibels.toFixed(1)} dB)`);
-
-      const formData = new FormData();
-      formData.append('audio', audioBlob, 'audio.webm');
-
-      // Choose API endpoint based on transcription service
-      let apiUrl: string;
-      if (transcriptionService === 'local') {
-        apiUrl = '/api/transcribe-local';
-      } else {
-        // Build optimized API URL based on performance mode
-        apiUrl = `/api/transcribe?translator=${translationService}`;
-        if (performanceMode === 'optimized') {
-          apiUrl += '&format=text&language=en&temperature=0&optimize=true';
-        }
-      }
-      
-      const response = await fetch(apiUrl, {
-        method: 'POST',
-        body: formData,
-      });
-
-      console.log('📥 Transcription API response:', {
-        status: response.status,
-        statusText: response.statusText,
-        ok: response.ok
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('❌ API Error Response:', errorText);
-        throw new Error(`Transcription API error: ${response.status} ${response.statusText}`);
-      }
-
-      const result = await response.json();
-      console.log('📝 Transcription result:', result);
+    setVadStatus(null);
 
-      if (result.text && result.text.trim().length > 0) {
-        const trimmedText = result.text.trim();
-        const MIN_TEXT_LENGTH = 3; // Minimum characters to consider valid transcription
-        
-        if (trimmedText.length < MIN_TEXT_LENGTH) {
-          console.log('⏭️ Skipping short transcription:', {
-            text: trimmedText,
-            length: trimmedText.length,
-            minRequired: MIN_TEXT_LENGTH
-          });
-          return; // Skip short transcriptions (likely noise)
-        }
+    // The server finalizes the last utterance and sends it as a `final` event
+    await client?.stop();
+  };
 
-        const newTranscription: TranscriptionResult = {
-          text: trimmedText,
-          translatedText: result.translatedText || '',
-          language: result.language || 'unknown',
-          timestamp: Date.now(),
-          translationService: result.translationService || 'unknown',
-          serverLatency: result.serverLatency
-        };
-        
-        console.log('📝 Processing transcription chunk:', newTranscription);
-        
-        // Simple merging logic: if we have a current transcript less than 8 seconds old, merge it
-        const now = Date.now();
-        const MERGE_WINDOW_MS = 8000; // 8 seconds to merge chunks - longer for smoother flow
-        
-        if (currentTranscript && (now - currentTranscript.timestamp) < MERGE_WINDOW_MS) {
-          // Merge with current transcript
-          console.log('🔄 Merging with current transcript');
-          const mergedText = currentTranscript.text + ' ' + newTranscription.text;
-          const mergedTranslation = (currentTranscript.translatedText || '') + ' ' + (newTranscription.translatedText || '');
-          
-          setCurrentTranscript({
-            ...newTranscription,
-            text: mergedText,
-            translatedText: mergedTranslation,
-            timestamp: now
-          });
-        } else {
-          // Finalize current transcript and start new one
-          if (currentTranscript) {
-            console.log('⏰ Finalizing current transcript and starting new');
-            setTranscriptions(prev => [...prev, currentTranscript]);
-          }
-          console.log('🆕 Starting new transcript');
-          setCurrentTranscript(newTranscription);
-        }
-        
-        setAudioAnalysisStatus(''); // Clear status after successful transcription
-      } else {
-        console.log('⚠️ No text returned from transcription');
-      }
-    } catch (err) {
-      console.error('❌ Error transcribing audio:', err);
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-      setError(`Transcription failed: ${errorMessage}`);
-    }
+  // Tap-to-switch: tell the server who is talking now
+  const switchSpeaker = async (speaker: SpeakerId) => {
+    setActiveSpeaker(speaker);
+    await streamingClientRef.current?.setSpeaker(speaker);
   };
 
+  // Clears the screen and starts a new conversation; the old one stays saved
   const clearTranscriptions = () => {
+    speechPlaybackRef.current?.clear();
+    setActiveSession(null);
     setTranscriptions([]);
     setCurrentTranscript(null);
     setTestResults([]);
@@ -329,13 +309,6 @@ export default function TranscribePage() {
     return spacing;
   };
 
-  // Simple authentication check - redirect if not coming from main page
-  useEffect(() => {
-    if (!document.referrer.includes(window.location.origin)) {
-      window.location.href = '/';
-    }
-  }, []);
-
   return (
     <div style={{ 
       backgroundColor: 'black', 
@@ -361,7 +334,7 @@ export default function TranscribePage() {
         </h1>
         
         {/* Performance Mode Toggle */}
-        <div style={{ display: 'flex', alignItems: 'center', gap: '1rem' }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '1rem', flexWrap: 'wrap', justifyContent: 'flex-end' }}>
           <div style={{ color: 'white', fontSize: '0.9rem' }}>
             Speed: 
             <button
@@ -396,6 +369,43 @@ export default function TranscribePage() {
             </button>
           </div>
           
+          {/* View Mode Toggle */}
+          <div style={{ color: 'white', fontSize: '0.9rem' }}>
+            Mode: 
+            <button
+              onClick={() => setViewMode('standard')}
+              disabled={isListening}
+              style={{
+                marginLeft: '0.5rem',
+                padding: '0.25rem 0.5rem',
+                backgroundColor: viewMode === 'standard' ? '#2563eb' : '#374151',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: isListening ? 'not-allowed' : 'pointer',
+                fontSize: '0.8rem'
+              }}
+            >
+              Standard
+            </button>
+            <button
+              onClick={() => setViewMode('conversation')}
+              disabled={isListening}
+              style={{
+                marginLeft: '0.25rem',
+                padding: '0.25rem 0.5rem',
+                backgroundColor: viewMode === 'conversation' ? '#db2777' : '#374151',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: isListening ? 'not-allowed' : 'pointer',
+                fontSize: '0.8rem'
+              }}
+            >
+              Conversation 💬
+            </button>
+          </div>
+
           {/* Transcription Service Toggle */}
           <div style={{ color: 'white', fontSize: '0.9rem' }}>
             Transcription: 
@@ -464,8 +474,142 @@ export default function TranscribePage() {
             >
               Google 🚀
             </button>
+            {translationService === 'gpt4' && (
+              <select
+                value={contextTurns}
+                onChange={(e) => setContextTurns(Number(e.target.value))}
+                disabled={isListening}
+                title="Earlier lines GPT-4 sees when translating"
+                style={{ marginLeft: '0.5rem', ...languageSelectStyle }}
+              >
+                {[0, 2, 4, 8].map(turns => (
+                  <option key={turns} value={turns}>{turns === 0 ? 'No context' : `Context: ${turns} lines`}</option>
+                ))}
+              </select>
+            )}
           </div>
 
+          {/* Language Pair */}
+          <div style={{ color: 'white', fontSize: '0.9rem' }}>
+            Languages: 
+            <select
+              value={sourceLanguage}
+              onChange={(e) => setSourceLanguage(e.target.value)}
+              disabled={isListening}
+              style={{ marginLeft: '0.5rem', ...languageSelectStyle }}
+            >
+              {availableLanguages.length === 0 && <option value={sourceLanguage}>{sourceLanguage}</option>}
+              {availableLanguages.map(language => (
+                <option key={language.code} value={language.code} disabled={language.code === targetLanguage}>
+                  {language.name}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => {
+                setSourceLanguage(targetLanguage);
+                setTargetLanguage(sourceLanguage);
+              }}
+              disabled={isListening}
+              title="Swap languages"
+              style={{
+                margin: '0 0.25rem',
+                padding: '0.25rem 0.5rem',
+                backgroundColor: '#374151',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: isListening ? 'not-allowed' : 'pointer',
+                fontSize: '0.8rem'
+              }}
+            >
+              ⇄
+            </button>
+            <select
+              value={targetLanguage}
+              onChange={(e) => setTargetLanguage(e.target.value)}
+              disabled={isListening}
+              style={languageSelectStyle}
+            >
+              {availableLanguages.length === 0 && <option value={targetLanguage}>{targetLanguage}</option>}
+              {availableLanguages.map(language => (
+                <option key={language.code} value={language.code} disabled={language.code === sourceLanguage}>
+                  {language.name}
+                </option>
+              ))}
+            </select>
+            {viewMode === 'standard' && (
+              <button
+                onClick={() => setAutoDirection(!autoDirection)}
+                disabled={isListening}
+                title="Detect which language each line is in and translate it the other way"
+                style={{
+                  marginLeft: '0.25rem',
+                  padding: '0.25rem 0.5rem',
+                  backgroundColor: autoDirection ? '#2563eb' : '#374151',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '4px',
+                  cursor: isListening ? 'not-allowed' : 'pointer',
+                  fontSize: '0.8rem'
+                }}
+              >
+                Auto ⇄
+              </button>
+            )}
+          </div>
+
+          <SpeechControls
+            enabled={speechEnabled}
+            provider={speechProvider}
+            languages={viewMode === 'conversation' || autoDirection ? [targetLanguage, sourceLanguage] : [targetLanguage]}
+            voices={speechVoices}
+            onEnabledChange={setSpeechEnabled}
+            onProviderChange={setSpeechProvider}
+            onVoiceChange={(language, voice) => setSpeechVoices(prev => ({ ...prev, [language]: voice }))}
+          />
+
+          <GlossaryPanel source={sourceLanguage} target={targetLanguage} />
+
+          <UsageMeter refreshKey={transcriptions.length} />
+
+          <ExportMenu
+            entries={currentTranscript ? [...transcriptions, currentTranscript] : transcriptions}
+            title={activeSession?.title}
+          />
+
+          <SessionPicker
+            activeSessionId={activeSession?.id ?? null}
+            activeTitle={activeSession?.title}
+            disabled={isListening}
+            onOpen={openSession}
+            onNew={clearTranscriptions}
+            onDeleted={(id) => {
+              if (id === activeSession?.id) {
+                clearTranscriptions();
+              }
+            }}
+            onRenamed={(id, title) => {
+              if (id === activeSession?.id) {
+                setActiveSession({ id, title });
+              }
+            }}
+          />
+
+          <a
+            href="/jobs"
+            style={{
+              padding: '0.25rem 0.5rem',
+              backgroundColor: '#374151',
+              color: 'white',
+              borderRadius: '4px',
+              fontSize: '0.8rem',
+              textDecoration: 'none'
+            }}
+          >
+            📁 Uploads
+          </a>
+
           <button
             onClick={clearTranscriptions}
             style={{
@@ -482,6 +626,68 @@ export default function TranscribePage() {
         </div>
       </div>
 
+      {/* Conversation Participants */}
+      {viewMode === 'conversation' && (
+        <div style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '1rem',
+          flexWrap: 'wrap',
+          marginBottom: '1rem',
+          color: 'white',
+          fontSize: '0.9rem'
+        }}>
+          {participants.map(participant => (
+            <label key={participant.id} style={{ color: SPEAKER_COLORS[participant.id] }}>
+              {availableLanguages.find(l => l.code === participant.language)?.name || participant.language}:
+              <input
+                value={participant.name}
+                onChange={(e) => setParticipantNames(prev => ({ ...prev, [participant.id]: e.target.value }))}
+                disabled={isListening}
+                maxLength={40}
+                style={{ marginLeft: '0.5rem', ...languageSelectStyle, border: `1px solid ${SPEAKER_COLORS[participant.id]}` }}
+              />
+            </label>
+          ))}
+
+          <div>
+            Who is speaking: 
+            <button
+              onClick={() => setSpeakerMode('detect')}
+              disabled={isListening}
+              style={{
+                marginLeft: '0.5rem',
+                padding: '0.25rem 0.5rem',
+                backgroundColor: speakerMode === 'detect' ? '#2563eb' : '#374151',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: isListening ? 'not-allowed' : 'pointer',
+                fontSize: '0.8rem'
+              }}
+            >
+              Detect by language
+            </button>
+            <button
+              onClick={() => setSpeakerMode('manual')}
+              disabled={isListening}
+              style={{
+                marginLeft: '0.25rem',
+                padding: '0.25rem 0.5rem',
+                backgroundColor: speakerMode === 'manual' ? '#2563eb' : '#374151',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: isListening ? 'not-allowed' : 'pointer',
+                fontSize: '0.8rem'
+              }}
+            >
+              Tap to switch
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Error Display */}
       {error && (
         <div style={{ 
@@ -493,10 +699,30 @@ export default function TranscribePage() {
           border: '1px solid #ff6b6b'
         }}>
           {error}
+          {errorRequestId && (
+            <div style={{ color: '#9ca3af', fontSize: '0.75rem', marginTop: '0.25rem' }}>
+              Request ID: <code>{errorRequestId}</code>
+            </div>
+          )}
         </div>
       )}
 
-      {/* Teleprompter Display - Dual Pane Layout */}
+      {/* Teleprompter Display - Chat Layout in conversation mode, Dual Pane otherwise */}
+      {viewMode === 'conversation' ? (
+        <div style={{
+          flex: 1,
+          display: 'flex',
+          marginBottom: '1rem',
+          borderRadius: '8px',
+          overflow: 'hidden'
+        }}>
+          <ConversationView
+            entries={transcriptions}
+            current={currentTranscript}
+            participants={participants}
+          />
+        </div>
+      ) : (
       <div style={{ 
         flex: 1,
         display: 'flex',
@@ -655,6 +881,7 @@ export default function TranscribePage() {
                     }}>
                       {transcription.translatedText || 'Translating...'}
                     </div>
+                    <DirectionLabel entry={transcription} />
                   </div>
                 );
               })}
@@ -690,12 +917,14 @@ export default function TranscribePage() {
                   }}>
                     {currentTranscript.translatedText || 'Translating...'}
                   </div>
+                  <DirectionLabel entry={currentTranscript} />
                 </div>
               )}
             </>
           )}
         </div>
       </div>
+      )}
 
       {/* Controls */}
       <div style={{ 
@@ -721,6 +950,26 @@ export default function TranscribePage() {
         >
           {isLoading ? 'Starting...' : isListening ? 'Stop Listening' : 'Start Listening'}
         </button>
+
+        {/* Tap-to-switch speaker buttons */}
+        {viewMode === 'conversation' && speakerMode === 'manual' && participants.map(participant => (
+          <button
+            key={participant.id}
+            onClick={() => switchSpeaker(participant.id)}
+            style={{
+              padding: '1rem 2rem',
+              fontSize: '1.1rem',
+              backgroundColor: activeSpeaker === participant.id ? SPEAKER_COLORS[participant.id] : '#374151',
+              color: 'white',
+              border: `2px solid ${SPEAKER_COLORS[participant.id]}`,
+              borderRadius: '8px',
+              cursor: 'pointer',
+              minWidth: '160px'
+            }}
+          >
+            🎙 {participant.name}
+          </button>
+        ))}
       </div>
 
       {/* Status */}
@@ -735,16 +984,32 @@ export default function TranscribePage() {
             🎤 Teleprompter Active - Scrolling at 10px/sec ({transcriptionService === 'local' ? 'Local Faster-Whisper' : 'OpenAI Whisper'})
           </div>
         )}
-        {audioAnalysisStatus && (
-          <div style={{ 
-            color: audioAnalysisStatus.includes('too quiet') ? '#fbbf24' : '#3b82f6',
+        {isSpeaking && (
+          <div style={{ color: '#a78bfa', marginTop: '0.5rem', fontSize: '0.8rem' }}>
+            🔊 Speaking translation - microphone paused
+          </div>
+        )}
+        {isListening && vadStatus && (
+          <div style={{
+            color: vadStatus.state === 'speech' ? '#4ade80' : vadStatus.state === 'calibrating' ? '#fbbf24' : '#3b82f6',
             marginTop: '0.5rem',
             fontSize: '0.8rem'
           }}>
-            {audioAnalysisStatus}
+            {vadStatus.state === 'calibrating'
+              ? '🎚️ Measuring background noise - stay quiet for a moment...'
+              : `${vadStatus.state === 'speech' ? '🗣️ Speech' : '🔇 Silence'} · level ${vadStatus.levelDb} dB · noise floor ${vadStatus.noiseFloorDb} dB · threshold ${vadStatus.thresholdDb} dB`}
           </div>
         )}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+const languageSelectStyle: React.CSSProperties = {
+  padding: '0.25rem',
+  backgroundColor: '#374151',
+  color: 'white',
+  border: 'none',
+  borderRadius: '4px',
+  fontSize: '0.8rem'
+};
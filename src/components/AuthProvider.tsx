@@ -1,11 +1,12 @@
 'use client';
 
 import { ReactNode } from 'react';
+import { SessionProvider } from 'next-auth/react';
 
 interface AuthProviderProps {
   children: ReactNode;
 }
 
 export function AuthProvider({ children }: AuthProviderProps) {
-  return <>{children}</>;
+  return <SessionProvider>{children}</SessionProvider>;
 }
@@ -0,0 +1,79 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { TranscriptionResult } from '@/types/transcript';
+import { Participant, SPEAKER_COLORS } from '@/types/conversation';
+import { DirectionLabel } from './DirectionLabel';
+
+interface ConversationViewProps {
+  entries: TranscriptionResult[];
+  current: TranscriptionResult | null;
+  participants: [Participant, Participant];
+}
+
+// Chat-style teleprompter for conversation mode: participant A on the left,
+// B on the right, each bubble showing what was said and its translation.
+export function ConversationView({ entries, current, participants }: ConversationViewProps) {
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [entries.length, current?.text, current?.translatedText]);
+
+  const renderBubble = (entry: TranscriptionResult, key: string, isLive: boolean) => {
+    const speaker = entry.speaker || 'a';
+    const color = SPEAKER_COLORS[speaker];
+    const isLeft = speaker === 'a';
+    const name = entry.speakerName || participants.find(p => p.id === speaker)?.name;
+
+    return (
+      <div key={key} style={{
+        display: 'flex',
+        justifyContent: isLeft ? 'flex-start' : 'flex-end',
+        marginBottom: '1rem'
+      }}>
+        <div style={{
+          maxWidth: '70%',
+          padding: '0.75rem 1rem',
+          borderRadius: isLeft ? '4px 16px 16px 16px' : '16px 4px 16px 16px',
+          backgroundColor: `${color}33`,
+          border: `1px solid ${isLive ? '#4ade80' : color}`
+        }}>
+          <div style={{ color, fontSize: '0.75rem', fontWeight: 'bold', marginBottom: '0.25rem' }}>
+            {name}{isLive && ' · LIVE'} <DirectionLabel entry={entry} />
+          </div>
+          <div style={{ color: 'white' }}>{entry.text}</div>
+          <div style={{ color: '#9ca3af', fontStyle: 'italic', marginTop: '0.25rem' }}>
+            {entry.translatedText || 'Translating...'}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div style={{
+      flex: 1,
+      backgroundColor: '#111',
+      padding: '2rem 1rem',
+      overflowY: 'auto',
+      fontSize: '1.2rem',
+      lineHeight: '1.6',
+      fontFamily: 'monospace'
+    }}>
+      {entries.length === 0 && !current ? (
+        <div style={{ color: '#666', fontStyle: 'italic', textAlign: 'center', marginTop: '20%' }}>
+          {participants[0].name} ↔ {participants[1].name}
+          <br />
+          <small style={{ fontSize: '0.8rem' }}>Press "Start Listening" to begin...</small>
+        </div>
+      ) : (
+        <>
+          {entries.map((entry, index) => renderBubble(entry, `entry-${entry.id || index}`, false))}
+          {current && renderBubble(current, 'current', true)}
+        </>
+      )}
+      <div ref={bottomRef} />
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+'use client';
+
+import { TranscriptionResult } from '@/types/transcript';
+
+interface DirectionLabelProps {
+  entry: TranscriptionResult;
+}
+
+// Which way a line was translated, e.g. "ES → EN"
+export function DirectionLabel({ entry }: DirectionLabelProps) {
+  if (!entry.language || entry.language === 'unknown') {
+    return null;
+  }
+  return (
+    <span style={{ color: '#6b7280', fontSize: '0.7rem', fontStyle: 'normal', fontWeight: 'normal' }}>
+      {entry.language.toUpperCase()}
+      {entry.targetLanguage && ` → ${entry.targetLanguage.toUpperCase()}`}
+    </span>
+  );
+}
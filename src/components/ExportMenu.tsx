@@ -0,0 +1,79 @@
+'use client';
+
+import { useState } from 'react';
+import { EXPORT_FORMATS, exportTranscript, ExportFormat, SubtitleMode } from '@/lib/export';
+import { TranscriptionResult } from '@/types/transcript';
+
+interface ExportMenuProps {
+  entries: TranscriptionResult[];
+  title?: string;
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  srt: 'SRT subtitles',
+  vtt: 'WebVTT subtitles',
+  json: 'JSON (with latency)',
+  md: 'Markdown',
+  txt: 'Plain text'
+};
+
+const MODE_LABELS: Record<SubtitleMode, string> = {
+  dual: 'Both lines',
+  original: 'Original only',
+  translation: 'Translation only'
+};
+
+// Builds the export in the browser and downloads it
+export function ExportMenu({ entries, title }: ExportMenuProps) {
+  const [format, setFormat] = useState<ExportFormat>('srt');
+  const [mode, setMode] = useState<SubtitleMode>('dual');
+  const isSubtitle = format === 'srt' || format === 'vtt';
+
+  const download = () => {
+    const file = exportTranscript(entries, { format, mode, title });
+    const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div style={{ color: 'white', fontSize: '0.9rem', display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+      Export: 
+      <select value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)} style={selectStyle}>
+        {EXPORT_FORMATS.map(f => <option key={f} value={f}>{FORMAT_LABELS[f]}</option>)}
+      </select>
+      {isSubtitle && (
+        <select value={mode} onChange={(e) => setMode(e.target.value as SubtitleMode)} style={selectStyle}>
+          {(Object.keys(MODE_LABELS) as SubtitleMode[]).map(m => <option key={m} value={m}>{MODE_LABELS[m]}</option>)}
+        </select>
+      )}
+      <button
+        onClick={download}
+        disabled={entries.length === 0}
+        style={{
+          padding: '0.25rem 0.5rem',
+          backgroundColor: entries.length === 0 ? '#374151' : '#2563eb',
+          color: 'white',
+          border: 'none',
+          borderRadius: '4px',
+          cursor: entries.length === 0 ? 'not-allowed' : 'pointer',
+          fontSize: '0.8rem'
+        }}
+      >
+        ⬇ Download
+      </button>
+    </div>
+  );
+}
+
+const selectStyle: React.CSSProperties = {
+  padding: '0.25rem',
+  backgroundColor: '#374151',
+  color: 'white',
+  border: 'none',
+  borderRadius: '4px',
+  fontSize: '0.8rem'
+};
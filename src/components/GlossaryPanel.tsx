@@ -0,0 +1,178 @@
+'use client';
+
+import { useState } from 'react';
+import { GlossaryEntry } from '@/types/glossary';
+
+interface GlossaryPanelProps {
+  source: string;
+  target: string;
+}
+
+// Dropdown for managing glossary terms of the current language pair
+export function GlossaryPanel({ source, target }: GlossaryPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [entries, setEntries] = useState<GlossaryEntry[]>([]);
+  const [term, setTerm] = useState('');
+  const [translation, setTranslation] = useState('');
+  const [doNotTranslate, setDoNotTranslate] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadEntries = async () => {
+    try {
+      const response = await fetch(`/api/glossary?source=${source}&target=${target}`);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const data = await response.json();
+      setEntries(data.entries);
+      setError('');
+    } catch (err) {
+      console.error('Could not load glossary:', err);
+      setError('Could not load glossary');
+    }
+  };
+
+  const toggle = () => {
+    if (!isOpen) {
+      loadEntries();
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const save = async (url: string, method: 'POST' | 'PATCH', body: object) => {
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      setError(data.error || `Could not save term (${response.status})`);
+      return false;
+    }
+    await loadEntries();
+    return true;
+  };
+
+  const add = async () => {
+    if (await save('/api/glossary', 'POST', { source, target, term, translation, doNotTranslate })) {
+      setTerm('');
+      setTranslation('');
+      setDoNotTranslate(false);
+    }
+  };
+
+  const editTranslation = async (entry: GlossaryEntry) => {
+    const value = window.prompt(`Always translate "${entry.term}" as`, entry.translation || entry.term);
+    if (value && value !== entry.translation) {
+      await save(`/api/glossary/${entry.id}`, 'PATCH', { translation: value, doNotTranslate: false });
+    }
+  };
+
+  const remove = async (entry: GlossaryEntry) => {
+    const response = await fetch(`/api/glossary/${entry.id}`, { method: 'DELETE' });
+    if (response.ok) {
+      loadEntries();
+    } else {
+      setError('Could not delete term');
+    }
+  };
+
+  return (
+    <div style={{ position: 'relative', color: 'white', fontSize: '0.9rem' }}>
+      <button
+        onClick={toggle}
+        style={{
+          padding: '0.25rem 0.5rem',
+          backgroundColor: '#374151',
+          color: 'white',
+          border: 'none',
+          borderRadius: '4px',
+          cursor: 'pointer',
+          fontSize: '0.8rem'
+        }}
+      >
+        📖 Glossary ▾
+      </button>
+
+      {isOpen && (
+        <div style={{
+          position: 'absolute',
+          right: 0,
+          top: '2rem',
+          width: '360px',
+          maxHeight: '420px',
+          overflowY: 'auto',
+          backgroundColor: '#1f2937',
+          border: '1px solid #374151',
+          borderRadius: '8px',
+          padding: '0.5rem',
+          zIndex: 10
+        }}>
+          <div style={{ color: '#9ca3af', fontSize: '0.75rem', marginBottom: '0.5rem' }}>
+            Terms spoken in {source}, translated to {target}
+          </div>
+
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem', marginBottom: '0.5rem' }}>
+            <input placeholder="Term (e.g. Mama Rosa's)" value={term} onChange={(e) => setTerm(e.target.value)} style={inputStyle} />
+            <input
+              placeholder="Always translate as"
+              value={doNotTranslate ? term : translation}
+              onChange={(e) => setTranslation(e.target.value)}
+              disabled={doNotTranslate}
+              style={inputStyle}
+            />
+            <label style={{ fontSize: '0.8rem' }}>
+              <input type="checkbox" checked={doNotTranslate} onChange={(e) => setDoNotTranslate(e.target.checked)} /> Do not translate
+            </label>
+            <button
+              onClick={add}
+              disabled={!term.trim()}
+              style={{
+                padding: '0.5rem',
+                backgroundColor: term.trim() ? '#16a34a' : '#374151',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: term.trim() ? 'pointer' : 'not-allowed'
+              }}
+            >
+              + Add term
+            </button>
+          </div>
+
+          {error && <div style={{ color: '#ff6b6b', padding: '0.25rem' }}>{error}</div>}
+          {entries.length === 0 && !error && (
+            <div style={{ color: '#9ca3af', padding: '0.25rem', fontStyle: 'italic' }}>No terms for this language pair yet</div>
+          )}
+
+          {entries.map(entry => (
+            <div key={entry.id} style={{ display: 'flex', alignItems: 'center', gap: '0.25rem', padding: '0.25rem 0.5rem' }}>
+              <div style={{ flex: 1, overflow: 'hidden', whiteSpace: 'nowrap', textOverflow: 'ellipsis' }}>
+                {entry.term} → {entry.doNotTranslate ? <em style={{ color: '#9ca3af' }}>keep as is</em> : entry.translation}
+              </div>
+              <button onClick={() => editTranslation(entry)} title="Edit translation" style={iconButtonStyle}>✏️</button>
+              <button onClick={() => remove(entry)} title="Delete" style={iconButtonStyle}>🗑</button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '0.25rem',
+  backgroundColor: '#374151',
+  color: 'white',
+  border: 'none',
+  borderRadius: '4px',
+  fontSize: '0.8rem'
+};
+
+const iconButtonStyle: React.CSSProperties = {
+  padding: '0.25rem',
+  backgroundColor: 'transparent',
+  border: 'none',
+  cursor: 'pointer'
+};
@@ -0,0 +1,174 @@
+'use client';
+
+import { useState } from 'react';
+import { SessionSummary } from '@/types/session';
+
+interface SessionPickerProps {
+  activeSessionId: string | null;
+  activeTitle?: string;
+  disabled?: boolean;
+  onOpen: (id: string) => void;
+  onNew: () => void;
+  onDeleted: (id: string) => void;
+  onRenamed: (id: string, title: string) => void;
+}
+
+// Dropdown listing the signed-in user's stored conversations
+export function SessionPicker({ activeSessionId, activeTitle, disabled, onOpen, onNew, onDeleted, onRenamed }: SessionPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [error, setError] = useState('');
+
+  const loadSessions = async () => {
+    try {
+      const response = await fetch('/api/sessions');
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const data = await response.json();
+      setSessions(data.sessions);
+      setError('');
+    } catch (err) {
+      console.error('Could not load sessions:', err);
+      setError('Could not load conversations');
+    }
+  };
+
+  const toggle = () => {
+    if (!isOpen) {
+      loadSessions();
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const rename = async (session: SessionSummary) => {
+    const title = window.prompt('Rename conversation', session.title);
+    if (!title || title === session.title) {
+      return;
+    }
+    const response = await fetch(`/api/sessions/${session.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title })
+    });
+    if (response.ok) {
+      onRenamed(session.id, title);
+      loadSessions();
+    } else {
+      setError('Could not rename conversation');
+    }
+  };
+
+  const remove = async (session: SessionSummary) => {
+    if (!window.confirm(`Delete "${session.title}"? This cannot be undone.`)) {
+      return;
+    }
+    const response = await fetch(`/api/sessions/${session.id}`, { method: 'DELETE' });
+    if (response.ok) {
+      onDeleted(session.id);
+      loadSessions();
+    } else {
+      setError('Could not delete conversation');
+    }
+  };
+
+  return (
+    <div style={{ position: 'relative', color: 'white', fontSize: '0.9rem' }}>
+      <button
+        onClick={toggle}
+        disabled={disabled}
+        style={{
+          padding: '0.25rem 0.5rem',
+          backgroundColor: '#374151',
+          color: 'white',
+          border: 'none',
+          borderRadius: '4px',
+          cursor: disabled ? 'not-allowed' : 'pointer',
+          fontSize: '0.8rem',
+          maxWidth: '220px',
+          overflow: 'hidden',
+          textOverflow: 'ellipsis',
+          whiteSpace: 'nowrap'
+        }}
+      >
+        🗂 {activeTitle || 'New conversation'} ▾
+      </button>
+
+      {isOpen && !disabled && (
+        <div style={{
+          position: 'absolute',
+          right: 0,
+          top: '2rem',
+          width: '320px',
+          maxHeight: '400px',
+          overflowY: 'auto',
+          backgroundColor: '#1f2937',
+          border: '1px solid #374151',
+          borderRadius: '8px',
+          padding: '0.5rem',
+          zIndex: 10
+        }}>
+          <button
+            onClick={() => {
+              onNew();
+              setIsOpen(false);
+            }}
+            style={{
+              width: '100%',
+              padding: '0.5rem',
+              marginBottom: '0.5rem',
+              backgroundColor: '#16a34a',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer'
+            }}
+          >
+            + New conversation
+          </button>
+
+          {error && <div style={{ color: '#ff6b6b', padding: '0.25rem' }}>{error}</div>}
+          {sessions.length === 0 && !error && (
+            <div style={{ color: '#9ca3af', padding: '0.25rem', fontStyle: 'italic' }}>No saved conversations yet</div>
+          )}
+
+          {sessions.map(session => (
+            <div
+              key={session.id}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '0.25rem',
+                padding: '0.5rem',
+                borderRadius: '4px',
+                backgroundColor: session.id === activeSessionId ? '#374151' : 'transparent'
+              }}
+            >
+              <div
+                onClick={() => {
+                  onOpen(session.id);
+                  setIsOpen(false);
+                }}
+                style={{ flex: 1, cursor: 'pointer', overflow: 'hidden' }}
+              >
+                <div style={{ whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>{session.title}</div>
+                <div style={{ color: '#9ca3af', fontSize: '0.7rem' }}>
+                  {new Date(session.updatedAt).toLocaleString()} · {session.entryCount} lines
+                </div>
+              </div>
+              <button onClick={() => rename(session)} title="Rename" style={iconButtonStyle}>✏️</button>
+              <button onClick={() => remove(session)} title="Delete" style={iconButtonStyle}>🗑</button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const iconButtonStyle: React.CSSProperties = {
+  padding: '0.25rem',
+  backgroundColor: 'transparent',
+  border: 'none',
+  cursor: 'pointer'
+};
@@ -0,0 +1,114 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { BROWSER_PROVIDER, listBrowserVoices } from '@/lib/speech/playback';
+
+interface ProviderInfo {
+  name: string;
+  label: string;
+  available: boolean;
+  voices: { id: string; name: string }[];
+}
+
+interface SpeechControlsProps {
+  enabled: boolean;
+  provider: string;
+  languages: string[]; // languages translations are spoken in
+  voices: Record<string, string>;
+  onEnabledChange: (enabled: boolean) => void;
+  onProviderChange: (provider: string) => void;
+  onVoiceChange: (language: string, voice: string) => void;
+}
+
+// Speak toggle, engine picker and one voice picker per spoken language
+export function SpeechControls({ enabled, provider, languages, voices, onEnabledChange, onProviderChange, onVoiceChange }: SpeechControlsProps) {
+  const [providersByLanguage, setProvidersByLanguage] = useState<Record<string, ProviderInfo[]>>({});
+  const [, setBrowserVoicesLoaded] = useState(0);
+  const languageKey = languages.join(',');
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    languageKey.split(',').forEach(language => {
+      fetch(`/api/speak?language=${language}`)
+        .then(response => response.ok ? response.json() : Promise.reject(new Error(`HTTP ${response.status}`)))
+        .then((data: { defaultProvider: string; providers: ProviderInfo[] }) => {
+          setProvidersByLanguage(prev => ({ ...prev, [language]: data.providers }));
+          if (!provider) {
+            const fallback = data.providers.find(p => p.name === data.defaultProvider && p.available);
+            onProviderChange(fallback ? fallback.name : BROWSER_PROVIDER);
+          }
+        })
+        .catch(err => console.warn('Could not load speech voices:', err));
+    });
+  }, [enabled, languageKey]);
+
+  // Browsers load their voice list asynchronously
+  useEffect(() => {
+    if (typeof window === 'undefined' || !window.speechSynthesis) {
+      return;
+    }
+    const update = () => setBrowserVoicesLoaded(count => count + 1);
+    window.speechSynthesis.addEventListener('voiceschanged', update);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', update);
+  }, []);
+
+  const serverProviders = (providersByLanguage[languages[0]] || []).filter(p => p.available);
+
+  const voiceOptions = (language: string): { id: string; name: string }[] => {
+    if (provider === BROWSER_PROVIDER) {
+      return listBrowserVoices(language).map(voice => ({ id: voice.voiceURI, name: `${voice.name} (${voice.lang})` }));
+    }
+    return providersByLanguage[language]?.find(p => p.name === provider)?.voices || [];
+  };
+
+  return (
+    <div style={{ color: 'white', fontSize: '0.9rem', display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+      Speak: 
+      <button
+        onClick={() => onEnabledChange(!enabled)}
+        style={{
+          padding: '0.25rem 0.5rem',
+          backgroundColor: enabled ? '#16a34a' : '#374151',
+          color: 'white',
+          border: 'none',
+          borderRadius: '4px',
+          cursor: 'pointer',
+          fontSize: '0.8rem'
+        }}
+      >
+        {enabled ? 'On 🔊' : 'Off 🔇'}
+      </button>
+      {enabled && (
+        <>
+          <select value={provider} onChange={(e) => onProviderChange(e.target.value)} style={selectStyle}>
+            {serverProviders.map(p => <option key={p.name} value={p.name}>{p.label}</option>)}
+            <option value={BROWSER_PROVIDER}>Browser voice</option>
+          </select>
+          {languages.map(language => (
+            <select
+              key={language}
+              value={voices[language] || ''}
+              onChange={(e) => onVoiceChange(language, e.target.value)}
+              title={`Voice for ${language}`}
+              style={selectStyle}
+            >
+              <option value="">{language}: default voice</option>
+              {voiceOptions(language).map(voice => <option key={voice.id} value={voice.id}>{language}: {voice.name}</option>)}
+            </select>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
+
+const selectStyle: React.CSSProperties = {
+  padding: '0.25rem',
+  backgroundColor: '#374151',
+  color: 'white',
+  border: 'none',
+  borderRadius: '4px',
+  fontSize: '0.8rem'
+};
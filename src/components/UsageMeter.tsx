@@ -0,0 +1,43 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { QuotaLimit, QuotaStatus } from '@/types/usage';
+
+interface UsageMeterProps {
+  refreshKey: number; // bump to reload, e.g. after each finished utterance
+}
+
+const WARN_FRACTION = 0.1; // highlight once less than 10% is left
+
+function format(limit: QuotaLimit, unit: (value: number) => string): string {
+  return limit.limit === null ? `${unit(limit.used)} used` : `${unit(limit.remaining!)} left`;
+}
+
+// Remaining daily quota, shown in the header
+export function UsageMeter({ refreshKey }: UsageMeterProps) {
+  const [status, setStatus] = useState<QuotaStatus | null>(null);
+
+  useEffect(() => {
+    fetch('/api/usage')
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => data && setStatus(data))
+      .catch(err => console.error('Could not load usage:', err));
+  }, [refreshKey]);
+
+  if (!status) {
+    return null;
+  }
+
+  const low = [status.audioSeconds, status.translatedChars].some(
+    limit => limit.limit !== null && limit.remaining! <= limit.limit * WARN_FRACTION
+  );
+
+  return (
+    <span
+      title={`Daily quota, resets ${new Date(status.resetsAt).toLocaleString()}`}
+      style={{ color: low ? '#fbbf24' : '#9ca3af', fontSize: '0.8rem' }}
+    >
+      🎫 {format(status.audioSeconds, value => `${(value / 60).toFixed(1)} min`)} · {format(status.translatedChars, value => `${Math.round(value).toLocaleString()} chars`)}
+    </span>
+  );
+}
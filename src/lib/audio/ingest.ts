@@ -0,0 +1,236 @@
+import { writeFile, unlink } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { runProcess } from '@/lib/speech/process';
+import { logger } from '@/lib/logger';
+import { STREAM_SAMPLE_RATE } from './pcm';
+
+// Every uploaded recording goes through here before a provider sees it: the
+// container is identified from its magic bytes (the client's MIME type is
+// ignored), size and duration are capped, and anything that is not already
+// 16 kHz mono WAV is transcoded with a local ffmpeg.
+
+export type AudioContainer = 'wav' | 'mp3' | 'ogg' | 'flac' | 'webm' | 'mp4';
+
+const MIME_TYPES: Record<AudioContainer, string> = {
+  wav: 'audio/wav',
+  mp3: 'audio/mpeg',
+  ogg: 'audio/ogg',
+  flac: 'audio/flac',
+  webm: 'audio/webm',
+  mp4: 'audio/mp4'
+};
+
+const DEFAULT_MAX_BYTES = 25 * 1024 * 1024; // OpenAI's upload limit
+const DEFAULT_MAX_SECONDS = 600;
+// ffmpeg gets a minute plus time in proportion to the upload, so the hour-long
+// recordings background jobs accept aren't cut off mid-decode
+const TRANSCODE_TIMEOUT_MS = 60000;
+const TRANSCODE_MS_PER_MB = 2000;
+
+export class AudioTooLargeError extends Error {
+  constructor(public readonly limit: string) {
+    super(`Audio exceeds the ${limit} limit`);
+    this.name = 'AudioTooLargeError';
+  }
+}
+
+export class UnsupportedAudioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedAudioError';
+  }
+}
+
+export interface PreparedAudio {
+  audio: Buffer;
+  mimeType: string;
+  container: AudioContainer; // what was uploaded
+  duration?: number; // seconds; unknown only when ffmpeg is missing
+  transcoded: boolean;
+}
+
+export interface AudioLimits {
+  maxBytes: number | null;
+  maxSeconds: number | null;
+}
+
+function readLimit(name: string, fallback: number): number | null {
+  const value = parseFloat(process.env[name] || '');
+  const limit = Number.isNaN(value) ? fallback : value;
+  return limit > 0 ? limit : null;
+}
+
+// MAX_AUDIO_UPLOAD_BYTES and MAX_AUDIO_SECONDS; 0 disables a limit
+export function audioLimits(): AudioLimits {
+  return {
+    maxBytes: readLimit('MAX_AUDIO_UPLOAD_BYTES', DEFAULT_MAX_BYTES),
+    maxSeconds: readLimit('MAX_AUDIO_SECONDS', DEFAULT_MAX_SECONDS)
+  };
+}
+
+// Checked against the multipart part size before the upload is read into memory
+export function assertAudioSize(bytes: number, { maxBytes }: AudioLimits = audioLimits()) {
+  if (maxBytes !== null && bytes > maxBytes) {
+    const megabytes = maxBytes / 1024 / 1024;
+    throw new AudioTooLargeError(megabytes >= 1 ? `${Math.round(megabytes * 10) / 10} MB` : `${Math.round(maxBytes / 1024)} KB`);
+  }
+}
+
+function assertAudioDuration(seconds: number, { maxSeconds }: AudioLimits) {
+  if (maxSeconds !== null && seconds > maxSeconds) {
+    throw new AudioTooLargeError(`${maxSeconds} second`);
+  }
+}
+
+// Identify the container from its first bytes, or null if it is not audio we know
+export function sniffAudioContainer(audio: Buffer): AudioContainer | null {
+  const ascii = (start: number, end: number) => audio.toString('latin1', start, end);
+
+  if (audio.length >= 12 && ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WAVE') {
+    return 'wav';
+  }
+  if (ascii(0, 4) === 'OggS') {
+    return 'ogg';
+  }
+  if (ascii(0, 4) === 'fLaC') {
+    return 'flac';
+  }
+  if (audio.length >= 4 && audio.readUInt32BE(0) === 0x1a45dfa3) {
+    return 'webm'; // EBML header: WebM and Matroska
+  }
+  if (audio.length >= 12 && ascii(4, 8) === 'ftyp') {
+    return 'mp4'; // M4A, Safari's audio/mp4 and other ISO-BMFF files
+  }
+  if (ascii(0, 3) === 'ID3' || (audio.length >= 2 && audio[0] === 0xff && (audio[1] & 0xe0) === 0xe0)) {
+    return 'mp3'; // ID3 tag or a bare MPEG audio frame sync
+  }
+  return null;
+}
+
+interface WavInfo {
+  format: number;
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  dataOffset: number;
+  dataBytes: number;
+}
+
+// Read the fmt and data chunks of a RIFF/WAVE file, or null if malformed
+function readWavInfo(audio: Buffer): WavInfo | null {
+  let offset = 12;
+  let fmt: Omit<WavInfo, 'dataOffset' | 'dataBytes'> | null = null;
+  while (offset + 8 <= audio.length) {
+    const id = audio.toString('latin1', offset, offset + 4);
+    const size = audio.readUInt32LE(offset + 4);
+    if (id === 'fmt ' && offset + 24 <= audio.length) {
+      fmt = {
+        format: audio.readUInt16LE(offset + 8),
+        channels: audio.readUInt16LE(offset + 10),
+        sampleRate: audio.readUInt32LE(offset + 12),
+        bitsPerSample: audio.readUInt16LE(offset + 22)
+      };
+    } else if (id === 'data' && fmt) {
+      // Streamed WAVs may leave the size at 0 or 0xffffffff; trust the file length then
+      const available = audio.length - offset - 8;
+      return { ...fmt, dataOffset: offset + 8, dataBytes: size > 0 && size <= available ? size : available };
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+function isCanonicalWav(info: WavInfo): boolean {
+  return info.format === 1 && info.channels === 1 && info.sampleRate === STREAM_SAMPLE_RATE && info.bitsPerSample === 16;
+}
+
+function wavDuration(info: WavInfo): number {
+  const bytesPerSecond = info.sampleRate * info.channels * (info.bitsPerSample / 8);
+  return bytesPerSecond > 0 ? info.dataBytes / bytesPerSecond : 0;
+}
+
+let warnedMissingFfmpeg = false;
+
+// Decode with ffmpeg to 16 kHz mono 16-bit WAV. The input goes through a temp
+// file because MP4 files often keep their index at the end, which ffmpeg
+// cannot seek to on a pipe. Resolves null when ffmpeg is not installed.
+async function transcodeToWav(audio: Buffer, container: AudioContainer, requestId: string, maxSeconds: number | null): Promise<Buffer | null> {
+  const ffmpeg = process.env.FFMPEG_PATH || 'ffmpeg';
+  const inputPath = join(tmpdir(), `upload_${requestId}_${Date.now()}.${container}`);
+  const args = ['-hide_banner', '-loglevel', 'error', '-i', inputPath, '-vn', '-ac', '1', '-ar', String(STREAM_SAMPLE_RATE), '-c:a', 'pcm_s16le'];
+  if (maxSeconds !== null) {
+    args.push('-t', String(maxSeconds + 1)); // enough to tell the file is too long without decoding all of it
+  }
+  args.push('-f', 'wav', 'pipe:1');
+
+  try {
+    await writeFile(inputPath, audio);
+    const timeoutMs = TRANSCODE_TIMEOUT_MS + Math.ceil((audio.length / (1024 * 1024)) * TRANSCODE_MS_PER_MB);
+    return await runProcess(ffmpeg, args, '', timeoutMs);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      if (!warnedMissingFfmpeg) {
+        logger.warn('ffmpeg not found, passing uploads through untranscoded', { ffmpeg });
+        warnedMissingFfmpeg = true;
+      }
+      return null;
+    }
+    logger.warn('ffmpeg could not decode upload', { requestId, container, error });
+    throw new UnsupportedAudioError(`Could not decode the ${container} audio`);
+  } finally {
+    unlink(inputPath).catch(() => undefined);
+  }
+}
+
+// Validate an upload and turn it into what the providers expect. Throws
+// AudioTooLargeError (413) or UnsupportedAudioError (415).
+export async function prepareAudio(audio: Buffer, requestId: string, limits: AudioLimits = audioLimits()): Promise<PreparedAudio> {
+  assertAudioSize(audio.length, limits);
+
+  const container = sniffAudioContainer(audio);
+  if (!container) {
+    throw new UnsupportedAudioError('Unrecognized audio format. Upload WAV, MP3, OGG, FLAC, WebM or MP4/M4A audio');
+  }
+
+  const wavInfo = container === 'wav' ? readWavInfo(audio) : null;
+  if (container === 'wav' && !wavInfo) {
+    throw new UnsupportedAudioError('Malformed WAV file');
+  }
+  if (wavInfo && isCanonicalWav(wavInfo)) {
+    const duration = wavDuration(wavInfo);
+    assertAudioDuration(duration, limits);
+    return { audio, mimeType: 'audio/wav', container, duration, transcoded: false };
+  }
+
+  const wav = await transcodeToWav(audio, container, requestId, limits.maxSeconds);
+  if (!wav) {
+    const duration = wavInfo ? wavDuration(wavInfo) : undefined;
+    if (duration !== undefined) {
+      assertAudioDuration(duration, limits);
+    }
+    return { audio, mimeType: MIME_TYPES[container], container, duration, transcoded: false };
+  }
+
+  const info = readWavInfo(wav);
+  const duration = info ? wavDuration(info) : 0;
+  if (duration === 0) {
+    throw new UnsupportedAudioError(`The ${container} upload contains no audio`);
+  }
+  assertAudioDuration(duration, limits);
+  logger.debug('Upload transcoded', { requestId, container, bytes: audio.length, wavBytes: wav.length, duration });
+  return { audio: wav, mimeType: 'audio/wav', container, duration, transcoded: true };
+}
+
+// The samples of a 16 kHz mono 16-bit WAV, as returned by prepareAudio
+export function wavSamples(wav: Buffer): Int16Array {
+  const info = readWavInfo(wav);
+  if (!info || !isCanonicalWav(info)) {
+    throw new UnsupportedAudioError('Expected 16 kHz mono 16-bit WAV');
+  }
+  const samples = new Int16Array(Math.floor(info.dataBytes / 2));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = wav.readInt16LE(info.dataOffset + i * 2);
+  }
+  return samples;
+}
@@ -0,0 +1,62 @@
+// Helpers for the raw PCM the streaming client sends: 16 kHz, mono,
+// signed 16-bit little-endian. Safe to import from both browser and server.
+
+export const STREAM_SAMPLE_RATE = 16000;
+
+// Average neighbouring samples down to the target rate (browsers usually capture at 44.1/48 kHz)
+export function downsample(input: Float32Array, inputRate: number, outputRate: number = STREAM_SAMPLE_RATE): Float32Array {
+  if (inputRate === outputRate) {
+    return input;
+  }
+
+  const ratio = inputRate / outputRate;
+  const output = new Float32Array(Math.floor(input.length / ratio));
+  let inputIndex = 0;
+
+  for (let i = 0; i < output.length; i++) {
+    const nextInputIndex = Math.floor((i + 1) * ratio);
+    let sum = 0;
+    let count = 0;
+    for (let j = inputIndex; j < nextInputIndex && j < input.length; j++) {
+      sum += input[j];
+      count++;
+    }
+    output[i] = count > 0 ? sum / count : 0;
+    inputIndex = nextInputIndex;
+  }
+
+  return output;
+}
+
+export function floatTo16BitPCM(input: Float32Array): Int16Array {
+  const output = new Int16Array(input.length);
+  for (let i = 0; i < input.length; i++) {
+    const sample = Math.max(-1, Math.min(1, input[i]));
+    output[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return output;
+}
+
+export function concatPCM(chunks: Int16Array[]): Int16Array {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const output = new Int16Array(total);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return output;
+}
+
+// RMS energy in dBFS (0 dB = full scale, silence → -Infinity)
+export function rmsDecibels(samples: Int16Array): number {
+  if (samples.length === 0) {
+    return -Infinity;
+  }
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const value = samples[i] / 0x8000;
+    sum += value * value;
+  }
+  return 20 * Math.log10(Math.sqrt(sum / samples.length));
+}
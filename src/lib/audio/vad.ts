@@ -0,0 +1,123 @@
+import { rmsDecibels, STREAM_SAMPLE_RATE } from './pcm';
+
+// Energy-based voice activity detection on short frames. The threshold is not
+// fixed: it sits a margin above a noise floor measured when listening starts
+// and slowly tracks the background while nobody is talking, so a noisy
+// restaurant and a quiet speaker in a silent room both work.
+
+export type VadState = 'calibrating' | 'silence' | 'speech';
+
+export interface VadStatus {
+  state: VadState;
+  levelDb: number; // loudest frame since the last status
+  noiseFloorDb: number | null; // null while calibrating
+  thresholdDb: number | null;
+}
+
+export interface VadOptions {
+  calibrationMs: number; // background measured before any decision is made
+  marginDb: number; // speech must be this much louder than the noise floor
+  hysteresisDb: number; // ...and drops this much further before counting as silence
+  onsetMs: number; // loud frames needed in a row to start speech (ignores clicks)
+  hangoverMs: number; // quiet time before speech is considered over
+  minThresholdDb: number;
+  maxThresholdDb: number;
+  floorAdaptRate: number; // 0..1 per silent frame
+}
+
+export const VAD_FRAME_SAMPLES = STREAM_SAMPLE_RATE * 0.02; // 20 ms frames
+
+const DEFAULT_VAD_OPTIONS: VadOptions = {
+  calibrationMs: 1000,
+  marginDb: 12,
+  hysteresisDb: 3,
+  onsetMs: 60,
+  hangoverMs: 400,
+  minThresholdDb: -60,
+  maxThresholdDb: -20,
+  floorAdaptRate: 0.02
+};
+
+const DIGITAL_SILENCE_DB = -90; // muted input (e.g. during TTS playback) must not drag the floor down
+const FRAME_MS = (VAD_FRAME_SAMPLES / STREAM_SAMPLE_RATE) * 1000;
+
+export class VoiceActivityDetector {
+  private readonly options: VadOptions;
+  private state: VadState = 'calibrating';
+  private calibrationLevels: number[] = [];
+  private noiseFloor: number | null = null;
+  private loudFrames = 0;
+  private quietFrames = 0;
+  private peakLevel = -Infinity;
+
+  constructor(options: Partial<VadOptions> = {}) {
+    this.options = { ...DEFAULT_VAD_OPTIONS, ...options };
+  }
+
+  get threshold(): number | null {
+    if (this.noiseFloor === null) {
+      return null;
+    }
+    const { marginDb, minThresholdDb, maxThresholdDb } = this.options;
+    return Math.min(Math.max(this.noiseFloor + marginDb, minThresholdDb), maxThresholdDb);
+  }
+
+  get isSpeech(): boolean {
+    return this.state === 'speech';
+  }
+
+  // Classify one VAD_FRAME_SAMPLES frame. Returns the frame's level in dB.
+  process(frame: Int16Array): number {
+    const level = rmsDecibels(frame);
+    this.peakLevel = Math.max(this.peakLevel, level);
+
+    if (this.state === 'calibrating') {
+      if (level > DIGITAL_SILENCE_DB) {
+        this.calibrationLevels.push(level);
+      }
+      if (this.calibrationLevels.length * FRAME_MS >= this.options.calibrationMs) {
+        this.finishCalibration();
+      }
+      return level;
+    }
+
+    const threshold = this.threshold!;
+    if (this.state === 'silence') {
+      this.loudFrames = level > threshold ? this.loudFrames + 1 : 0;
+      if (this.loudFrames * FRAME_MS >= this.options.onsetMs) {
+        this.state = 'speech';
+        this.quietFrames = 0;
+      } else if (level > DIGITAL_SILENCE_DB && level <= threshold) {
+        // Follow the background slowly; speech never gets here
+        this.noiseFloor = this.noiseFloor! + (level - this.noiseFloor!) * this.options.floorAdaptRate;
+      }
+    } else {
+      this.quietFrames = level < threshold - this.options.hysteresisDb ? this.quietFrames + 1 : 0;
+      if (this.quietFrames * FRAME_MS >= this.options.hangoverMs) {
+        this.state = 'silence';
+        this.loudFrames = 0;
+      }
+    }
+    return level;
+  }
+
+  // Take the quietest ~20th percentile as the floor so a word during calibration doesn't skew it
+  private finishCalibration() {
+    const sorted = [...this.calibrationLevels].sort((a, b) => a - b);
+    this.noiseFloor = sorted.length > 0 ? sorted[Math.floor(sorted.length * 0.2)] : this.options.minThresholdDb - this.options.marginDb;
+    this.calibrationLevels = [];
+    this.state = 'silence';
+  }
+
+  // Current state plus the peak level since the previous call
+  status(): VadStatus {
+    const status: VadStatus = {
+      state: this.state,
+      levelDb: Number.isFinite(this.peakLevel) ? Math.round(this.peakLevel * 10) / 10 : DIGITAL_SILENCE_DB,
+      noiseFloorDb: this.noiseFloor === null ? null : Math.round(this.noiseFloor * 10) / 10,
+      thresholdDb: this.threshold === null ? null : Math.round(this.threshold * 10) / 10
+    };
+    this.peakLevel = -Infinity;
+    return status;
+  }
+}
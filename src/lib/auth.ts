@@ -0,0 +1,73 @@
+import type { NextRequest } from 'next/server';
+import type { NextAuthOptions } from 'next-auth';
+import { getToken } from 'next-auth/jwt';
+import CredentialsProvider from 'next-auth/providers/credentials';
+import { authenticateUser } from '@/lib/users';
+import { logger } from '@/lib/logger';
+
+export const authOptions: NextAuthOptions = {
+  session: {
+    strategy: 'jwt',
+    maxAge: 7 * 24 * 60 * 60 // 1 week
+  },
+  pages: {
+    signIn: '/'
+  },
+  providers: [
+    CredentialsProvider({
+      name: 'Credentials',
+      credentials: {
+        username: { label: 'Username', type: 'text' },
+        password: { label: 'Password', type: 'password' }
+      },
+      async authorize(credentials) {
+        if (!credentials?.username || !credentials?.password) {
+          return null;
+        }
+
+        const user = await authenticateUser(credentials.username, credentials.password);
+        if (!user) {
+          logger.warn('Failed sign-in attempt', { username: credentials.username });
+          return null;
+        }
+
+        return {
+          id: user.id,
+          name: user.name ?? user.username,
+          email: user.email ?? null,
+          role: user.role ?? 'user'
+        };
+      }
+    })
+  ],
+  callbacks: {
+    async jwt({ token, user }) {
+      if (user) {
+        token.id = user.id;
+        token.role = user.role;
+      }
+      return token;
+    },
+    async session({ session, token }) {
+      session.user = {
+        ...session.user,
+        id: token.id,
+        role: token.role
+      };
+      return session;
+    }
+  }
+};
+
+// User id of the signed-in caller, or null. Middleware already rejects
+// anonymous requests; route handlers use this to scope data per user.
+export async function getRequestUserId(request: NextRequest): Promise<string | null> {
+  const token = await getToken({ req: request, secret: process.env.NEXTAUTH_SECRET });
+  return token?.id ?? null;
+}
+
+// Admin-only routes (cache inspection and the like) check this on top of the middleware
+export async function isAdminRequest(request: NextRequest): Promise<boolean> {
+  const token = await getToken({ req: request, secret: process.env.NEXTAUTH_SECRET });
+  return token?.role === 'admin';
+}
@@ -0,0 +1,192 @@
+import { getLanguageName } from '@/lib/languages';
+import { TranscriptionResult } from '@/types/transcript';
+
+// Turns a list of conversation lines into downloadable files. Pure functions,
+// used by the export button in the browser and by the session export route.
+
+export type ExportFormat = 'srt' | 'vtt' | 'json' | 'md' | 'txt';
+export type SubtitleMode = 'original' | 'translation' | 'dual';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['srt', 'vtt', 'json', 'md', 'txt'];
+export const SUBTITLE_MODES: SubtitleMode[] = ['dual', 'original', 'translation'];
+
+export interface ExportOptions {
+  format: ExportFormat;
+  mode?: SubtitleMode; // subtitle formats only
+  title?: string;
+}
+
+export interface ExportedFile {
+  content: string;
+  mimeType: string;
+  fileName: string;
+}
+
+interface TimedEntry {
+  entry: TranscriptionResult;
+  start: number; // seconds from the start of the conversation
+  end: number;
+}
+
+const DEFAULT_LINE_SECONDS = 2;
+
+// Place every line on a conversation timeline. Older entries may lack
+// startedAt/duration, so fall back to "ended at timestamp, lasted ~2s".
+function buildTimeline(entries: TranscriptionResult[]): TimedEntry[] {
+  const starts = entries.map(entry =>
+    entry.startedAt ?? entry.timestamp - (entry.duration ?? DEFAULT_LINE_SECONDS) * 1000
+  );
+  const origin = starts.length > 0 ? Math.min(...starts) : 0;
+
+  let previousEnd = 0;
+  return entries.map((entry, index) => {
+    const start = Math.max((starts[index] - origin) / 1000, previousEnd);
+    const length = entry.duration ?? Math.max((entry.timestamp - starts[index]) / 1000, DEFAULT_LINE_SECONDS);
+    const end = start + Math.max(length, 0.5);
+    previousEnd = end;
+    return { entry, start, end };
+  });
+}
+
+function pad(value: number, length: number = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+function formatTimestamp(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(totalMs % 1000, 3)}`;
+}
+
+function formatClock(seconds: number): string {
+  return formatTimestamp(seconds, '.').substring(0, 8);
+}
+
+function subtitleLines(entry: TranscriptionResult, mode: SubtitleMode): string[] {
+  const original = entry.text.trim();
+  const translation = (entry.translatedText || '').trim();
+  if (mode === 'original') return [original];
+  if (mode === 'translation') return [translation || original];
+  return translation ? [original, translation] : [original];
+}
+
+function toSrt(timeline: TimedEntry[], mode: SubtitleMode): string {
+  return timeline.map(({ entry, start, end }, index) => [
+    String(index + 1),
+    `${formatTimestamp(start, ',')} --> ${formatTimestamp(end, ',')}`,
+    ...subtitleLines(entry, mode)
+  ].join('\n')).join('\n\n') + '\n';
+}
+
+function toVtt(timeline: TimedEntry[], mode: SubtitleMode): string {
+  const cues = timeline.map(({ entry, start, end }) => [
+    `${formatTimestamp(start, '.')} --> ${formatTimestamp(end, '.')}`,
+    ...subtitleLines(entry, mode)
+  ].join('\n'));
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? Math.round(values.reduce((a, b) => a + b, 0) / values.length) : null;
+}
+
+function toJson(timeline: TimedEntry[], title?: string): string {
+  const latencies = timeline.map(t => t.entry.serverLatency).filter(Boolean) as NonNullable<TranscriptionResult['serverLatency']>[];
+  return JSON.stringify({
+    title,
+    exportedAt: new Date().toISOString(),
+    entryCount: timeline.length,
+    latency: {
+      averageTotalMs: average(latencies.map(l => l.total)),
+      averageWhisperMs: average(latencies.map(l => l.whisper)),
+      averageTranslationMs: average(latencies.map(l => l.translation))
+    },
+    entries: timeline.map(({ entry, start, end }, index) => ({
+      index: index + 1,
+      start,
+      end,
+      timestamp: new Date(entry.timestamp).toISOString(),
+      language: entry.language,
+      targetLanguage: entry.targetLanguage,
+      speaker: entry.speaker,
+      speakerName: entry.speakerName,
+      text: entry.text,
+      translatedText: entry.translatedText || '',
+      transcriptionService: entry.transcriptionService,
+      translationService: entry.translationService,
+      serverLatency: entry.serverLatency
+    }))
+  }, null, 2) + '\n';
+}
+
+function direction(entry: TranscriptionResult): string {
+  const from = getLanguageName(entry.language);
+  return entry.targetLanguage ? `${from} → ${getLanguageName(entry.targetLanguage)}` : from;
+}
+
+// Conversation-mode lines carry who said them
+function speakerPrefix(entry: TranscriptionResult): string {
+  return entry.speakerName ? `${entry.speakerName}: ` : '';
+}
+
+function toMarkdown(timeline: TimedEntry[], title?: string): string {
+  const started = timeline[0] ? new Date(timeline[0].entry.startedAt ?? timeline[0].entry.timestamp).toLocaleString() : '';
+  const lines = [`# ${title || 'Conversation transcript'}`, ''];
+  if (started) {
+    lines.push(`_Started ${started} · ${timeline.length} lines_`, '');
+  }
+  timeline.forEach(({ entry, start }) => {
+    lines.push(`**[${formatClock(start)}] ${speakerPrefix(entry)}${direction(entry)}**`, '', entry.text.trim(), '');
+    if (entry.translatedText) {
+      lines.push(`> ${entry.translatedText.trim()}`, '');
+    }
+  });
+  return lines.join('\n');
+}
+
+function toText(timeline: TimedEntry[], title?: string): string {
+  const lines = title ? [title, ''] : [];
+  timeline.forEach(({ entry, start }) => {
+    lines.push(`[${formatClock(start)}] ${speakerPrefix(entry)}${entry.text.trim()}`);
+    if (entry.translatedText) {
+      lines.push(`           ${entry.translatedText.trim()}`);
+    }
+    lines.push('');
+  });
+  return lines.join('\n');
+}
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  json: 'application/json',
+  md: 'text/markdown',
+  txt: 'text/plain'
+};
+
+function slugify(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'transcript';
+}
+
+export function exportTranscript(entries: TranscriptionResult[], options: ExportOptions): ExportedFile {
+  const timeline = buildTimeline(entries);
+  const mode = options.mode || 'dual';
+
+  let content: string;
+  switch (options.format) {
+    case 'srt': content = toSrt(timeline, mode); break;
+    case 'vtt': content = toVtt(timeline, mode); break;
+    case 'json': content = toJson(timeline, options.title); break;
+    case 'md': content = toMarkdown(timeline, options.title); break;
+    case 'txt': content = toText(timeline, options.title); break;
+  }
+
+  const modeSuffix = (options.format === 'srt' || options.format === 'vtt') && mode !== 'dual' ? `.${mode}` : '';
+  return {
+    content,
+    mimeType: `${MIME_TYPES[options.format]}; charset=utf-8`,
+    fileName: `${slugify(options.title || 'transcript')}${modeSuffix}.${options.format}`
+  };
+}
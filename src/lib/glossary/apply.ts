@@ -0,0 +1,96 @@
+import { GlossaryEntry, GlossaryMatch } from '@/types/glossary';
+
+// Finding glossary terms in a transcript and keeping them intact through a
+// translator that knows nothing about glossaries.
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whole-word, case-insensitive match of any of `terms` that also works for
+// accented letters. Alternatives are tried in order, so pass longer terms first.
+function termPattern(...terms: string[]): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+}
+
+// Entries whose term occurs in `text`. Longer terms win, so "Mama Rosa's"
+// is matched before "Mama".
+export function findGlossaryMatches(text: string, entries: GlossaryEntry[]): GlossaryMatch[] {
+  let remaining = text;
+  const matches: GlossaryMatch[] = [];
+
+  [...entries]
+    .sort((a, b) => b.term.length - a.term.length)
+    .forEach(entry => {
+      const pattern = termPattern(entry.term);
+      if (pattern.test(remaining)) {
+        remaining = remaining.replace(pattern, ' ');
+        matches.push({
+          id: entry.id,
+          term: entry.term,
+          rendering: entry.doNotTranslate ? entry.term : entry.translation,
+          doNotTranslate: entry.doNotTranslate
+        });
+      }
+    });
+
+  return matches;
+}
+
+export interface ProtectedText {
+  text: string;
+  restore: (translated: string) => string;
+}
+
+// Swap every matched term for a numbered token wrapped in a
+// `translate="no"` span, for translators that accept HTML. `restore` puts
+// the forced renderings back and strips the markup. All terms are found in one
+// pass over the original text, so a short term ("no", "span", "amp") can't
+// match inside the markup or entities added for the text around it.
+export function protectTerms(text: string, matches: GlossaryMatch[]): ProtectedText {
+  const byLength = matches.map((match, index) => ({ term: match.term, index })).sort((a, b) => b.term.length - a.term.length);
+  let protectedText = '';
+  let last = 0;
+  if (byLength.length > 0) {
+    const pattern = termPattern(...byLength.map(({ term }) => term));
+    let found: RegExpExecArray | null;
+    while ((found = pattern.exec(text)) !== null) {
+      const matched = found[0].toLowerCase();
+      const index = byLength.find(({ term }) => term.toLowerCase() === matched)?.index;
+      protectedText += escapeHtml(text.substring(last, found.index)) +
+        (index === undefined ? escapeHtml(found[0]) : `<span translate="no">[[${index}]]</span>`);
+      last = found.index + found[0].length;
+    }
+  }
+  protectedText += escapeHtml(text.substring(last));
+
+  return {
+    text: protectedText,
+    restore: (translated: string) => {
+      const plain = unescapeHtml(translated.replace(/<\/?span[^>]*>/g, ''));
+      return plain.replace(/\[\[(\d+)\]\]/g, (token, index) => matches[Number(index)]?.rendering ?? token);
+    }
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function unescapeHtml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// Instructions for LLM translators
+export function glossaryPrompt(matches: GlossaryMatch[]): string {
+  const lines = matches.map(match => match.doNotTranslate
+    ? `- "${match.term}": keep exactly as "${match.term}", do not translate`
+    : `- "${match.term}": always translate as "${match.rendering}"`
+  );
+  return `Use this glossary. It overrides your own word choices:\n${lines.join('\n')}`;
+}
@@ -0,0 +1,118 @@
+import { randomUUID } from 'crypto';
+import { dataPath, readJsonFile, updateJsonFile } from '@/lib/storage/json-file';
+import { GlossaryEntry } from '@/types/glossary';
+
+export type { GlossaryEntry };
+
+// Each user's glossary is one JSON file under DATA_DIR/glossaries/<user id>.json
+
+export class GlossaryEntryNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Glossary entry ${id} not found`);
+    this.name = 'GlossaryEntryNotFoundError';
+  }
+}
+
+export class InvalidGlossaryEntryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidGlossaryEntryError';
+  }
+}
+
+export interface GlossaryEntryInput {
+  source?: string;
+  target?: string;
+  term?: string;
+  translation?: string;
+  doNotTranslate?: boolean;
+}
+
+const ID_PATTERN = /^[a-zA-Z0-9-]+$/;
+const MAX_TERM_LENGTH = 100;
+
+function glossaryPath(userId: string): string {
+  if (!ID_PATTERN.test(userId)) {
+    throw new GlossaryEntryNotFoundError(userId);
+  }
+  return dataPath('glossaries', `${userId}.json`);
+}
+
+function validate(entry: GlossaryEntry): GlossaryEntry {
+  if (!entry.source || !entry.target || entry.source === entry.target) {
+    throw new InvalidGlossaryEntryError('source and target must be two different languages');
+  }
+  if (!entry.term || entry.term.length > MAX_TERM_LENGTH) {
+    throw new InvalidGlossaryEntryError(`term is required and must be at most ${MAX_TERM_LENGTH} characters`);
+  }
+  if (!entry.doNotTranslate && !entry.translation) {
+    throw new InvalidGlossaryEntryError('translation is required unless the term is marked do-not-translate');
+  }
+  return entry;
+}
+
+function clean(input: GlossaryEntryInput): GlossaryEntryInput {
+  const cleaned: GlossaryEntryInput = {};
+  if (typeof input.source === 'string') cleaned.source = input.source.trim();
+  if (typeof input.target === 'string') cleaned.target = input.target.trim();
+  if (typeof input.term === 'string') cleaned.term = input.term.trim().replace(/\s+/g, ' ');
+  if (typeof input.translation === 'string') cleaned.translation = input.translation.trim().substring(0, MAX_TERM_LENGTH);
+  if (typeof input.doNotTranslate === 'boolean') cleaned.doNotTranslate = input.doNotTranslate;
+  return cleaned;
+}
+
+export async function listGlossary(userId: string, pair?: { source: string; target: string }): Promise<GlossaryEntry[]> {
+  if (!ID_PATTERN.test(userId)) {
+    return [];
+  }
+  const entries = await readJsonFile<GlossaryEntry[]>(glossaryPath(userId), []);
+  return pair ? entries.filter(e => e.source === pair.source && e.target === pair.target) : entries;
+}
+
+export async function addGlossaryEntry(userId: string, input: GlossaryEntryInput): Promise<GlossaryEntry> {
+  const now = Date.now();
+  const entry = validate({
+    id: randomUUID(),
+    source: '',
+    target: '',
+    term: '',
+    translation: '',
+    doNotTranslate: false,
+    ...clean(input),
+    createdAt: now,
+    updatedAt: now
+  });
+
+  await updateJsonFile<GlossaryEntry[]>(glossaryPath(userId), [], (entries) => {
+    const duplicate = entries.find(e =>
+      e.source === entry.source && e.target === entry.target && e.term.toLowerCase() === entry.term.toLowerCase()
+    );
+    if (duplicate) {
+      throw new InvalidGlossaryEntryError(`"${entry.term}" is already in the glossary for ${entry.source} → ${entry.target}`);
+    }
+    return [...entries, entry];
+  });
+  return entry;
+}
+
+export async function updateGlossaryEntry(userId: string, id: string, input: GlossaryEntryInput): Promise<GlossaryEntry> {
+  let updated: GlossaryEntry | undefined;
+  await updateJsonFile<GlossaryEntry[]>(glossaryPath(userId), [], (entries) => {
+    const existing = entries.find(e => e.id === id);
+    if (!existing) {
+      throw new GlossaryEntryNotFoundError(id);
+    }
+    updated = validate({ ...existing, ...clean(input), updatedAt: Date.now() });
+    return entries.map(e => (e.id === id ? updated! : e));
+  });
+  return updated!;
+}
+
+export async function deleteGlossaryEntry(userId: string, id: string): Promise<void> {
+  await updateJsonFile<GlossaryEntry[]>(glossaryPath(userId), [], (entries) => {
+    if (!entries.some(e => e.id === id)) {
+      throw new GlossaryEntryNotFoundError(id);
+    }
+    return entries.filter(e => e.id !== id);
+  });
+}
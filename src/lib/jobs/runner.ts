@@ -0,0 +1,222 @@
+import { randomUUID } from 'crypto';
+import { STREAM_SAMPLE_RATE } from '@/lib/audio/pcm';
+import { encodeWav } from '@/lib/audio/wav';
+import { AudioLimits, prepareAudio, UnsupportedAudioError, wavSamples } from '@/lib/audio/ingest';
+import { transcribeAndTranslate } from '@/lib/pipeline';
+import { appendEntry, getSession } from '@/lib/sessions/store';
+import { toContextTurn } from '@/lib/translation/context';
+import { ContextTurn } from '@/lib/translation/types';
+import { assertWithinQuota, QuotaExceededError } from '@/lib/usage/quota';
+import { logger, redactText } from '@/lib/logger';
+import { errorClass, metrics } from '@/lib/metrics';
+import { AllProvidersFailedError } from '@/lib/resilience/failover';
+import { TranscriptionResult } from '@/types/transcript';
+import { TranscriptionJob } from '@/types/job';
+import { deleteJobAudio, JobNotFoundError, listUnfinishedJobs, readJobAudio, updateJob } from './store';
+import { splitOnSilence } from './split';
+
+// Runs upload jobs in the background, one piece at a time, inside the Next.js
+// server process (like the stream registry, this needs a long-lived
+// `next start`). Progress is saved after every piece, so a restart resumes
+// where it left off.
+
+export interface JobRunnerOptions {
+  concurrency: number; // jobs processed at once
+  attempts: number; // tries per piece before the job fails
+  retryDelayMs: number; // doubled after each failed try
+}
+
+const HISTORY_SIZE = 20; // context turns kept for the translator
+// A job holds its upload and the decoded 16 kHz WAV (~115 MB an hour, briefly
+// twice while ffmpeg's output is assembled) in memory, times JOB_CONCURRENCY.
+// The defaults allow recordings up to an hour, enough for a long meeting.
+const DEFAULT_MAX_UPLOAD_BYTES = 200 * 1024 * 1024;
+const DEFAULT_MAX_SECONDS = 3600;
+
+function readRunnerOptions(): JobRunnerOptions {
+  return {
+    concurrency: Math.max(parseInt(process.env.JOB_CONCURRENCY || '', 10) || 1, 1),
+    attempts: Math.max(parseInt(process.env.JOB_PIECE_ATTEMPTS || '', 10) || 3, 1),
+    retryDelayMs: 2000
+  };
+}
+
+function readLimit(name: string, fallback: number): number | null {
+  const value = parseInt(process.env[name] || '', 10);
+  const limit = Number.isNaN(value) ? fallback : value;
+  return limit > 0 ? limit : null;
+}
+
+// Uploads are far bigger than live chunks: JOB_MAX_UPLOAD_BYTES and
+// JOB_MAX_SECONDS replace the per-request limits. 0 disables a limit.
+export function jobAudioLimits(): AudioLimits {
+  return {
+    maxBytes: readLimit('JOB_MAX_UPLOAD_BYTES', DEFAULT_MAX_UPLOAD_BYTES),
+    maxSeconds: readLimit('JOB_MAX_SECONDS', DEFAULT_MAX_SECONDS)
+  };
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class JobRunner {
+  private queue: { userId: string; id: string }[] = [];
+  private pending = new Set<string>(); // queued or running, so a job is never picked up twice
+  private active = 0;
+  private idleWaiters: (() => void)[] = [];
+
+  constructor(private readonly options: JobRunnerOptions) {}
+
+  enqueue(job: Pick<TranscriptionJob, 'userId' | 'id'>) {
+    if (this.pending.has(job.id)) {
+      return;
+    }
+    this.pending.add(job.id);
+    this.queue.push({ userId: job.userId, id: job.id });
+    this.pump();
+  }
+
+  // Resolves once nothing is queued or running
+  whenIdle(): Promise<void> {
+    if (this.active === 0 && this.queue.length === 0) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.idleWaiters.push(resolve));
+  }
+
+  private pump() {
+    while (this.active < this.options.concurrency && this.queue.length > 0) {
+      const next = this.queue.shift()!;
+      this.active++;
+      this.run(next.userId, next.id).finally(() => {
+        this.pending.delete(next.id);
+        this.active--;
+        this.pump();
+        if (this.active === 0 && this.queue.length === 0) {
+          this.idleWaiters.splice(0).forEach(resolve => resolve());
+        }
+      });
+    }
+  }
+
+  private async run(userId: string, id: string) {
+    const log = logger.child({ jobId: id, userId });
+    try {
+      const job = await updateJob(userId, id, { status: 'running', error: undefined });
+      log.info('Job started', { fileName: job.fileName, resumeFrom: job.completedPieces });
+      await this.process(job);
+      await deleteJobAudio(userId, id);
+      log.info('Job completed');
+    } catch (error) {
+      if (error instanceof JobNotFoundError) {
+        log.info('Job deleted while running'); // deleting the job is how it gets cancelled
+        return;
+      }
+      log.error('Job failed', { error });
+      metrics.errors.inc({ stage: 'job', class: errorClass(error) });
+      // Like the routes, report what the requested provider said rather than the chain summary
+      const cause = error instanceof AllProvidersFailedError && error.primaryError ? error.primaryError : error;
+      await updateJob(userId, id, {
+        status: 'failed',
+        error: redactText(cause instanceof Error ? cause.message : String(cause))
+      }).catch(() => undefined);
+    }
+  }
+
+  private async process(job: TranscriptionJob) {
+    const { userId, options } = job;
+    const prepared = await prepareAudio(await readJobAudio(userId, job.id), job.id, jobAudioLimits());
+    if (prepared.mimeType !== 'audio/wav') {
+      throw new UnsupportedAudioError('ffmpeg is needed to split recordings that are not 16 kHz mono WAV');
+    }
+    const samples = wavSamples(prepared.audio);
+    const pieces = splitOnSilence(samples);
+    await updateJob(userId, job.id, { duration: samples.length / STREAM_SAMPLE_RATE, totalPieces: pieces.length });
+
+    // Entries written before a restart give the translator its context back
+    const session = await getSession(userId, job.sessionId);
+    let history: ContextTurn[] = session.entries.slice(-HISTORY_SIZE).map(toContextTurn);
+
+    for (let index = job.completedPieces; index < pieces.length; index++) {
+      const piece = pieces[index];
+      if (!piece.silent) {
+        await assertWithinQuota(userId);
+        const requestId = `${job.id.substring(0, 8)}-${index}`;
+        const result = await this.withRetry(requestId, () => transcribeAndTranslate({
+          requestId,
+          provider: options.provider,
+          translator: options.translator,
+          sourceLanguage: options.sourceLanguage,
+          targetLanguage: options.targetLanguage,
+          languageHint: options.languageHint,
+          audio: encodeWav(samples.subarray(piece.start, piece.end), STREAM_SAMPLE_RATE),
+          mimeType: 'audio/wav',
+          responseFormat: 'verbose_json',
+          userId,
+          context: history
+        }));
+
+        const text = result.transcription.text;
+        if (text) {
+          // Lines are timed from the start of the recording, as if it began when it was uploaded
+          const startedAt = job.createdAt + (piece.start / STREAM_SAMPLE_RATE) * 1000;
+          const duration = (piece.end - piece.start) / STREAM_SAMPLE_RATE;
+          const entry: TranscriptionResult = {
+            id: randomUUID(),
+            text,
+            translatedText: result.translatedText,
+            language: result.language,
+            targetLanguage: result.targetLanguage,
+            timestamp: startedAt + duration * 1000,
+            startedAt,
+            duration,
+            translationService: result.translationService,
+            glossaryApplied: result.glossaryApplied.map(({ term, rendering }) => ({ term, rendering })),
+            transcriptionService: result.transcription.provider
+          };
+          await appendEntry(userId, job.sessionId, entry);
+          history = [...history, toContextTurn(entry)].slice(-HISTORY_SIZE);
+        }
+      }
+      // Throws JobNotFoundError once the job has been deleted, which stops it here
+      await updateJob(userId, job.id, { completedPieces: index + 1 });
+    }
+    await updateJob(userId, job.id, { status: 'completed' });
+  }
+
+  private async withRetry<T>(requestId: string, attempt: () => Promise<T>): Promise<T> {
+    for (let tries = 1; ; tries++) {
+      try {
+        return await attempt();
+      } catch (error) {
+        if (tries >= this.options.attempts || error instanceof QuotaExceededError) {
+          throw error;
+        }
+        const delay = this.options.retryDelayMs * 2 ** (tries - 1);
+        logger.warn('Job piece failed, retrying', { requestId, attempt: tries, delay, error });
+        await sleep(delay);
+      }
+    }
+  }
+}
+
+const globalForJobs = globalThis as unknown as { jobRunner?: JobRunner };
+
+export function getJobRunner(): JobRunner {
+  if (!globalForJobs.jobRunner) {
+    const runner = new JobRunner(readRunnerOptions());
+    globalForJobs.jobRunner = runner;
+
+    // Pick up whatever was queued or running when the server last stopped. The
+    // job routes create the runner on every request, so this happens on the
+    // first poll or upload after a restart.
+    listUnfinishedJobs()
+      .then(jobs => {
+        if (jobs.length > 0) {
+          logger.info('Resuming unfinished jobs', { count: jobs.length });
+        }
+        jobs.forEach(job => runner.enqueue(job));
+      })
+      .catch(error => logger.error('Could not resume unfinished jobs', { error }));
+  }
+  return globalForJobs.jobRunner;
+}
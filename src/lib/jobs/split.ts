@@ -0,0 +1,69 @@
+import { rmsDecibels, STREAM_SAMPLE_RATE } from '@/lib/audio/pcm';
+import { VAD_FRAME_SAMPLES } from '@/lib/audio/vad';
+
+// Cuts a long 16 kHz recording into pieces a provider accepts in one request.
+// A minute of 16 kHz mono WAV is ~1.9 MB, far below OpenAI's 25 MB cap, and
+// short enough that a failed piece is cheap to retry.
+
+export interface AudioPiece {
+  start: number; // sample offsets into the recording
+  end: number;
+  silent: boolean; // nothing above SILENCE_DB; not worth sending to a provider
+}
+
+export interface SplitOptions {
+  targetSeconds: number;
+  minSeconds: number;
+  maxSeconds: number;
+}
+
+const DEFAULT_SPLIT_OPTIONS: SplitOptions = {
+  targetSeconds: 30,
+  minSeconds: 10,
+  maxSeconds: 60
+};
+
+const SILENCE_DB = -50;
+const DISTANCE_PENALTY_DB = 6; // a cut at minSeconds or maxSeconds must be this much quieter than one at the target
+
+// Cut at the quietest 20 ms frame between minSeconds and maxSeconds into each
+// piece, preferring frames near targetSeconds so pieces stay evenly sized.
+export function splitOnSilence(samples: Int16Array, options: Partial<SplitOptions> = {}): AudioPiece[] {
+  const { targetSeconds, minSeconds, maxSeconds } = { ...DEFAULT_SPLIT_OPTIONS, ...options };
+  const frameCount = Math.ceil(samples.length / VAD_FRAME_SAMPLES);
+  const levels = new Float64Array(frameCount);
+  for (let frame = 0; frame < frameCount; frame++) {
+    levels[frame] = rmsDecibels(samples.subarray(frame * VAD_FRAME_SAMPLES, (frame + 1) * VAD_FRAME_SAMPLES));
+  }
+
+  const framesPerSecond = STREAM_SAMPLE_RATE / VAD_FRAME_SAMPLES;
+  const pieces: AudioPiece[] = [];
+  let startFrame = 0;
+  while (startFrame < frameCount) {
+    let endFrame = frameCount;
+    if (frameCount - startFrame > maxSeconds * framesPerSecond) {
+      const target = startFrame + targetSeconds * framesPerSecond;
+      const spread = (maxSeconds - minSeconds) * framesPerSecond;
+      let bestScore = Infinity;
+      for (let frame = startFrame + minSeconds * framesPerSecond; frame < startFrame + maxSeconds * framesPerSecond; frame++) {
+        const score = Math.max(levels[frame], -100) + (Math.abs(frame - target) / spread) * DISTANCE_PENALTY_DB;
+        if (score < bestScore) {
+          bestScore = score;
+          endFrame = frame;
+        }
+      }
+    }
+
+    let silent = true;
+    for (let frame = startFrame; frame < endFrame && silent; frame++) {
+      silent = levels[frame] < SILENCE_DB;
+    }
+    pieces.push({
+      start: startFrame * VAD_FRAME_SAMPLES,
+      end: Math.min(endFrame * VAD_FRAME_SAMPLES, samples.length),
+      silent
+    });
+    startFrame = endFrame;
+  }
+  return pieces;
+}
@@ -0,0 +1,144 @@
+import { randomUUID } from 'crypto';
+import { mkdir, readdir, readFile, unlink, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { dataPath, readJsonFile, updateJsonFile, writeJsonFile } from '@/lib/storage/json-file';
+import { createSession } from '@/lib/sessions/store';
+import { JobOptions, TranscriptionJob } from '@/types/job';
+
+export type { TranscriptionJob };
+
+// Jobs are stored one JSON file per job under DATA_DIR/jobs/<user id>/, with
+// the uploaded recording next to it until the job finishes.
+
+export class JobNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Job ${id} not found`);
+    this.name = 'JobNotFoundError';
+  }
+}
+
+const ID_PATTERN = /^[a-zA-Z0-9-]+$/;
+
+function jobPath(userId: string, id: string, extension: string = 'json'): string {
+  // Ids end up in file paths, so never let anything but plain ids through
+  if (!ID_PATTERN.test(userId) || !ID_PATTERN.test(id)) {
+    throw new JobNotFoundError(id);
+  }
+  return dataPath('jobs', userId, `${id}.${extension}`);
+}
+
+async function readJobFiles(userId: string): Promise<TranscriptionJob[]> {
+  let files: string[];
+  try {
+    files = await readdir(dataPath('jobs', userId));
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const jobs = await Promise.all(
+    files
+      .filter(file => file.endsWith('.json'))
+      .map(file => readJsonFile<TranscriptionJob | null>(dataPath('jobs', userId, file), null))
+  );
+  return jobs.filter((job): job is TranscriptionJob => job !== null);
+}
+
+export async function listJobs(userId: string): Promise<TranscriptionJob[]> {
+  if (!ID_PATTERN.test(userId)) {
+    return [];
+  }
+  return (await readJobFiles(userId)).sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// Queued and running jobs of every user, oldest first; resumed after a restart
+export async function listUnfinishedJobs(): Promise<TranscriptionJob[]> {
+  let users: string[];
+  try {
+    users = await readdir(dataPath('jobs'));
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const jobs = await Promise.all(users.filter(user => ID_PATTERN.test(user)).map(readJobFiles));
+  return jobs
+    .flat()
+    .filter(job => job.status === 'queued' || job.status === 'running')
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+// Store the recording and open the conversation its transcript will go to
+export async function createJob(userId: string, details: { fileName: string; options: JobOptions; audio: Buffer }): Promise<TranscriptionJob> {
+  const now = Date.now();
+  const session = await createSession(userId, {
+    title: details.fileName,
+    sourceLanguage: details.options.sourceLanguage,
+    targetLanguage: details.options.targetLanguage
+  });
+  const job: TranscriptionJob = {
+    id: randomUUID(),
+    userId,
+    fileName: details.fileName,
+    status: 'queued',
+    createdAt: now,
+    updatedAt: now,
+    options: details.options,
+    sessionId: session.id,
+    completedPieces: 0
+  };
+
+  const audioPath = jobPath(userId, job.id, 'audio');
+  await mkdir(dirname(audioPath), { recursive: true });
+  await writeFile(audioPath, details.audio);
+  await writeJsonFile(jobPath(userId, job.id), job);
+  return job;
+}
+
+export async function getJob(userId: string, id: string): Promise<TranscriptionJob> {
+  const job = await readJsonFile<TranscriptionJob | null>(jobPath(userId, id), null);
+  if (!job) {
+    throw new JobNotFoundError(id);
+  }
+  return job;
+}
+
+export function updateJob(userId: string, id: string, changes: Partial<Omit<TranscriptionJob, 'id' | 'userId'>>): Promise<TranscriptionJob> {
+  return updateJsonFile<TranscriptionJob | null>(jobPath(userId, id), null, (job) => {
+    if (!job) {
+      throw new JobNotFoundError(id);
+    }
+    return { ...job, ...changes, updatedAt: Date.now() };
+  }) as Promise<TranscriptionJob>;
+}
+
+export function readJobAudio(userId: string, id: string): Promise<Buffer> {
+  return readFile(jobPath(userId, id, 'audio'));
+}
+
+export async function deleteJobAudio(userId: string, id: string): Promise<void> {
+  try {
+    await unlink(jobPath(userId, id, 'audio'));
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      throw error;
+    }
+  }
+}
+
+// Removes the job and its recording; the transcript stays in its conversation
+export async function deleteJob(userId: string, id: string): Promise<void> {
+  try {
+    await unlink(jobPath(userId, id));
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      throw new JobNotFoundError(id);
+    }
+    throw error;
+  }
+  await deleteJobAudio(userId, id);
+}
@@ -0,0 +1,202 @@
+import { SAMPLE_TEXTS } from './samples';
+
+// Offline language identification for transcripts. The writing system narrows
+// the field (and settles it outright for Greek, Hebrew, Hindi, Thai, Korean,
+// Japanese and Chinese); languages sharing a script are then told apart by how
+// well the text's character trigrams fit each language's profile.
+
+export interface LanguageGuess {
+  language: string; // ISO 639-1 code, or 'unknown'
+  confidence: number; // 0..1
+}
+
+export interface LanguageIdentification extends LanguageGuess {
+  alternatives: LanguageGuess[]; // runners-up, most likely first
+}
+
+export interface IdentifyOptions {
+  expected?: string[]; // languages the conversation is in; favoured when the text is ambiguous
+}
+
+type Script = 'latin' | 'cyrillic' | 'arabic' | 'greek' | 'hebrew' | 'devanagari' | 'thai' | 'hangul' | 'kana' | 'han';
+
+const SCRIPTS: [Script, RegExp][] = [
+  ['latin', /[a-z\u00df-\u024f\u1e00-\u1eff]/],
+  ['cyrillic', /[\u0400-\u04ff]/],
+  ['arabic', /[\u0620-\u064a\u066e-\u06d3\u06fa-\u06ff]/],
+  ['greek', /[\u0370-\u03ff]/],
+  ['hebrew', /[\u05d0-\u05ea]/],
+  ['devanagari', /[\u0900-\u097f]/],
+  ['thai', /[\u0e00-\u0e7f]/],
+  ['hangul', /[\uac00-\ud7af\u1100-\u11ff\u3130-\u318f]/],
+  ['kana', /[\u3040-\u30ff]/],
+  ['han', /[\u4e00-\u9fff]/]
+];
+
+const COMBINING_MARKS = /[\u0300-\u036f\u064b-\u0652]/g; // accents left over after NFC, Arabic vowel marks
+
+// Scripts used by a single language we support
+const SCRIPT_LANGUAGES: Partial<Record<Script, string>> = {
+  greek: 'el',
+  hebrew: 'he',
+  devanagari: 'hi',
+  thai: 'th',
+  hangul: 'ko',
+  kana: 'ja',
+  han: 'zh'
+};
+
+const MIN_LETTERS = 3; // "ok" or "mm" says nothing about the language
+const MAX_ALTERNATIVES = 3;
+const EXPECTED_PRIOR = 5; // an expected language starts out this many times likelier
+// Overlapping trigrams are far from independent; without tempering a single
+// sentence would come out 100% certain
+const EVIDENCE_WEIGHT = 0.25;
+const UNKNOWN: LanguageIdentification = { language: 'unknown', confidence: 0, alternatives: [] };
+
+interface Profile {
+  language: string;
+  counts: Map<string, number>;
+  total: number;
+}
+
+interface ScriptProfiles {
+  profiles: Profile[];
+  vocabulary: number; // distinct trigrams across the script's profiles, for smoothing
+}
+
+let profilesByScript: Map<Script, ScriptProfiles> | null = null;
+
+function scriptOf(char: string): Script | null {
+  for (const [script, pattern] of SCRIPTS) {
+    if (pattern.test(char)) {
+      return script;
+    }
+  }
+  return null;
+}
+
+function normalize(text: string): string {
+  return text.normalize('NFC').replace(COMBINING_MARKS, '').toLowerCase();
+}
+
+// Letters grouped into words, lowercased, everything else dropped
+function words(text: string): string[] {
+  return normalize(text)
+    .split('')
+    .map(char => (scriptOf(char) ? char : ' '))
+    .join('')
+    .split(' ')
+    .filter(Boolean);
+}
+
+function trigrams(text: string): string[] {
+  const grams: string[] = [];
+  words(text).forEach(word => {
+    const padded = ` ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      grams.push(padded.substring(i, i + 3));
+    }
+  });
+  return grams;
+}
+
+function dominantScript(text: string): { script: Script; share: number; counts: Map<Script, number> } | null {
+  const counts = new Map<Script, number>();
+  let letters = 0;
+  normalize(text).split('').forEach(char => {
+    const script = scriptOf(char);
+    if (script) {
+      counts.set(script, (counts.get(script) || 0) + 1);
+      letters++;
+    }
+  });
+  if (letters < MIN_LETTERS) {
+    return null;
+  }
+
+  let best: Script | null = null;
+  counts.forEach((count, script) => {
+    if (best === null || count > counts.get(best)!) {
+      best = script;
+    }
+  });
+  return { script: best!, share: counts.get(best!)! / letters, counts };
+}
+
+// Built from SAMPLE_TEXTS on first use
+function getProfiles(): Map<Script, ScriptProfiles> {
+  if (!profilesByScript) {
+    const byScript = new Map<Script, Profile[]>();
+    Object.keys(SAMPLE_TEXTS).forEach(language => {
+      const sample = SAMPLE_TEXTS[language];
+      const counts = new Map<string, number>();
+      const grams = trigrams(sample);
+      grams.forEach(gram => counts.set(gram, (counts.get(gram) || 0) + 1));
+      const script = dominantScript(sample)!.script;
+      byScript.set(script, [...(byScript.get(script) || []), { language, counts, total: grams.length }]);
+    });
+
+    profilesByScript = new Map();
+    byScript.forEach((profiles, script) => {
+      const vocabulary = new Set<string>();
+      profiles.forEach(profile => profile.counts.forEach((_, gram) => vocabulary.add(gram)));
+      profilesByScript!.set(script, { profiles, vocabulary: vocabulary.size });
+    });
+  }
+  return profilesByScript;
+}
+
+// Log-likelihood of the trigrams under each profile (add-one smoothing),
+// turned into probabilities with a softmax
+function scoreProfiles(grams: string[], { profiles, vocabulary }: ScriptProfiles, expected: string[]): LanguageGuess[] {
+  const scores = profiles.map(profile => {
+    let logLikelihood = 0;
+    grams.forEach(gram => {
+      logLikelihood += Math.log(((profile.counts.get(gram) || 0) + 1) / (profile.total + vocabulary));
+    });
+    const prior = expected.indexOf(profile.language) >= 0 ? Math.log(EXPECTED_PRIOR) : 0;
+    return { language: profile.language, score: logLikelihood * EVIDENCE_WEIGHT + prior };
+  });
+
+  const best = Math.max(...scores.map(s => s.score));
+  const weights = scores.map(s => ({ language: s.language, weight: Math.exp(s.score - best) }));
+  const sum = weights.reduce((total, w) => total + w.weight, 0);
+  return weights
+    .map(w => ({ language: w.language, confidence: w.weight / sum }))
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+export function identifyLanguage(text: string, options: IdentifyOptions = {}): LanguageIdentification {
+  const detected = dominantScript(text);
+  if (!detected) {
+    return UNKNOWN;
+  }
+
+  // Japanese mixes kana with Chinese characters; any kana at all means Japanese
+  const script = detected.script === 'han' && detected.counts.has('kana') ? 'kana' : detected.script;
+  const single = SCRIPT_LANGUAGES[script];
+  if (single) {
+    const share = script === 'kana' ? ((detected.counts.get('kana') || 0) + (detected.counts.get('han') || 0)) / sumCounts(detected.counts) : detected.share;
+    return { language: single, confidence: round(share), alternatives: [] };
+  }
+
+  const profiles = getProfiles().get(script);
+  if (!profiles) {
+    return UNKNOWN;
+  }
+  const grams = trigrams(text).filter(gram => scriptOf(gram.trim()[0]) === script);
+  const guesses = scoreProfiles(grams, profiles, options.expected || []);
+  const scaled = guesses.map(g => ({ language: g.language, confidence: round(g.confidence * detected.share) }));
+  return { ...scaled[0], alternatives: scaled.slice(1, 1 + MAX_ALTERNATIVES) };
+}
+
+function sumCounts(counts: Map<Script, number>): number {
+  let total = 0;
+  counts.forEach(count => {
+    total += count;
+  });
+  return total;
+}
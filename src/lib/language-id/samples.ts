@@ -0,0 +1,42 @@
+// Training text for the trigram profiles: Article 1 of the Universal
+// Declaration of Human Rights plus a few everyday sentences per language, so
+// both formal and conversational spellings are represented. Languages whose
+// script identifies them on its own (Greek, Hebrew, Hindi, Thai, Korean,
+// Japanese, Chinese) need no sample.
+
+export const SAMPLE_TEXTS: Record<string, string> = {
+  en: 'All human beings are born free and equal in dignity and rights. They are endowed with reason and conscience and should act towards one another in a spirit of brotherhood. Hello, how are you today? Thank you very much for your help. I would like to know where the train station is. We are going to have a meeting tomorrow morning with the whole team. What do you think about this? The weather is really nice and I want to go for a walk. Yes, I have been there before and it was the best time of my life.',
+  es: 'Todos los seres humanos nacen libres e iguales en dignidad y derechos y, dotados como están de razón y conciencia, deben comportarse fraternalmente los unos con los otros. Hola, ¿cómo estás hoy? Muchas gracias por tu ayuda. Me gustaría saber dónde está la estación de tren. Mañana por la mañana vamos a tener una reunión con todo el equipo. ¿Qué piensas de esto? Hace muy buen tiempo y quiero dar un paseo. Sí, ya estuve allí y fue el mejor momento de mi vida.',
+  fr: "Tous les êtres humains naissent libres et égaux en dignité et en droits. Ils sont doués de raison et de conscience et doivent agir les uns envers les autres dans un esprit de fraternité. Bonjour, comment allez-vous aujourd'hui ? Merci beaucoup pour votre aide. Je voudrais savoir où se trouve la gare. Nous allons avoir une réunion demain matin avec toute l'équipe. Qu'est-ce que vous en pensez ? Il fait vraiment beau et j'ai envie de me promener. Oui, j'y suis déjà allé et c'était le plus beau moment de ma vie.",
+  de: 'Alle Menschen sind frei und gleich an Würde und Rechten geboren. Sie sind mit Vernunft und Gewissen begabt und sollen einander im Geist der Brüderlichkeit begegnen. Hallo, wie geht es dir heute? Vielen Dank für deine Hilfe. Ich möchte wissen, wo der Bahnhof ist. Wir haben morgen früh eine Besprechung mit dem ganzen Team. Was denkst du darüber? Das Wetter ist wirklich schön und ich möchte spazieren gehen. Ja, ich war schon einmal dort und es war die schönste Zeit meines Lebens.',
+  it: 'Tutti gli esseri umani nascono liberi ed eguali in dignità e diritti. Essi sono dotati di ragione e di coscienza e devono agire gli uni verso gli altri in spirito di fratellanza. Ciao, come stai oggi? Grazie mille per il tuo aiuto. Vorrei sapere dove si trova la stazione dei treni. Domani mattina avremo una riunione con tutta la squadra. Che cosa ne pensi? Il tempo è davvero bello e voglio fare una passeggiata. Sì, ci sono già stato ed è stato il momento più bello della mia vita.',
+  pt: 'Todos os seres humanos nascem livres e iguais em dignidade e em direitos. Dotados de razão e de consciência, devem agir uns para com os outros em espírito de fraternidade. Olá, como você está hoje? Muito obrigado pela sua ajuda. Eu gostaria de saber onde fica a estação de trem. Amanhã de manhã nós vamos ter uma reunião com toda a equipe. O que você acha disso? O tempo está muito bonito e eu quero dar um passeio. Sim, eu já estive lá e foi o melhor momento da minha vida.',
+  ca: "Tots els éssers humans neixen lliures i iguals en dignitat i en drets. Són dotats de raó i de consciència, i han de comportar-se fraternalment els uns amb els altres. Hola, com estàs avui? Moltes gràcies per la teva ajuda. M'agradaria saber on és l'estació de tren. Demà al matí tindrem una reunió amb tot l'equip. Què en penses d'això? Fa molt bon temps i vull anar a passejar. Sí, ja hi he estat i va ser el millor moment de la meva vida.",
+  nl: 'Alle mensen worden vrij en gelijk in waardigheid en rechten geboren. Zij zijn begiftigd met verstand en geweten, en behoren zich jegens elkander in een geest van broederschap te gedragen. Hallo, hoe gaat het vandaag met je? Heel erg bedankt voor je hulp. Ik zou graag willen weten waar het treinstation is. Morgenochtend hebben we een vergadering met het hele team. Wat vind jij daarvan? Het weer is echt mooi en ik wil een wandeling maken. Ja, ik ben er al eens geweest en het was de mooiste tijd van mijn leven.',
+  da: 'Alle mennesker er født frie og lige i værdighed og rettigheder. De er udstyret med fornuft og samvittighed, og de bør handle mod hverandre i en broderskabets ånd. Hej, hvordan har du det i dag? Mange tak for din hjælp. Jeg vil gerne vide, hvor togstationen ligger. I morgen tidlig skal vi have et møde med hele holdet. Hvad synes du om det? Vejret er virkelig dejligt, og jeg har lyst til at gå en tur. Ja, jeg har været der før, og det var den bedste tid i mit liv.',
+  no: 'Alle mennesker er født frie og med samme menneskeverd og menneskerettigheter. De er utstyrt med fornuft og samvittighet og bør handle mot hverandre i brorskapets ånd. Hei, hvordan har du det i dag? Tusen takk for hjelpen. Jeg vil gjerne vite hvor togstasjonen er. I morgen tidlig skal vi ha et møte med hele laget. Hva synes du om dette? Været er veldig fint, og jeg har lyst til å gå en tur. Ja, jeg har vært der før, og det var den beste tiden i mitt liv.',
+  sv: 'Alla människor är födda fria och lika i värde och rättigheter. De har utrustats med förnuft och samvete och bör handla gentemot varandra i en anda av broderskap. Hej, hur mår du idag? Tack så mycket för din hjälp. Jag skulle vilja veta var tågstationen ligger. I morgon bitti ska vi ha ett möte med hela gruppen. Vad tycker du om det här? Vädret är verkligen fint och jag vill ta en promenad. Ja, jag har varit där förut och det var den bästa tiden i mitt liv.',
+  fi: 'Kaikki ihmiset syntyvät vapaina ja tasavertaisina arvoltaan ja oikeuksiltaan. Heille on annettu järki ja omatunto, ja heidän on toimittava toisiaan kohtaan veljeyden hengessä. Hei, mitä sinulle kuuluu tänään? Kiitos paljon avustasi. Haluaisin tietää, missä rautatieasema on. Huomenna aamulla meillä on kokous koko tiimin kanssa. Mitä mieltä olet tästä? Sää on todella kaunis ja haluan lähteä kävelylle. Kyllä, olen käynyt siellä ennenkin ja se oli elämäni parasta aikaa.',
+  et: 'Kõik inimesed sünnivad vabadena ja võrdsetena oma väärikuselt ja õigustelt. Neile on antud mõistus ja südametunnistus ja nende suhtumist üksteisesse peab kandma vendluse vaim. Tere, kuidas sul täna läheb? Suur aitäh sinu abi eest. Ma tahaksin teada, kus on rongijaam. Homme hommikul on meil koosolek kogu meeskonnaga. Mida sa sellest arvad? Ilm on tõesti ilus ja ma tahan jalutama minna. Jah, ma olen seal varem käinud ja see oli mu elu parim aeg.',
+  hu: 'Minden emberi lény szabadon születik és egyenlő méltósága és joga van. Az emberek, ésszel és lelkiismerettel bírván, egymással szemben testvéri szellemben kell hogy viseltessenek. Szia, hogy vagy ma? Nagyon köszönöm a segítségedet. Szeretném tudni, hol van a vasútállomás. Holnap reggel megbeszélésünk lesz az egész csapattal. Mit gondolsz erről? Az idő nagyon szép, és szeretnék sétálni egyet. Igen, már jártam ott, és az volt életem legszebb időszaka.',
+  pl: 'Wszyscy ludzie rodzą się wolni i równi pod względem swej godności i swych praw. Są oni obdarzeni rozumem i sumieniem i powinni postępować wobec innych w duchu braterstwa. Cześć, jak się dzisiaj masz? Bardzo dziękuję za twoją pomoc. Chciałbym wiedzieć, gdzie jest dworzec kolejowy. Jutro rano mamy spotkanie z całym zespołem. Co o tym myślisz? Pogoda jest naprawdę ładna i chcę iść na spacer. Tak, byłem tam już wcześniej i to był najlepszy czas w moim życiu.',
+  cs: 'Všichni lidé rodí se svobodní a sobě rovní co do důstojnosti a práv. Jsou nadáni rozumem a svědomím a mají spolu jednat v duchu bratrství. Ahoj, jak se dnes máš? Moc děkuji za tvou pomoc. Chtěl bych vědět, kde je vlakové nádraží. Zítra ráno máme schůzku s celým týmem. Co si o tom myslíš? Počasí je opravdu pěkné a chci se jít projít. Ano, už jsem tam byl a byla to nejlepší doba mého života.',
+  sk: 'Všetci ľudia sa rodia slobodní a sebe rovní, čo sa týka ich dôstojnosti a práv. Sú obdarení rozumom a svedomím a majú spolu jednať v bratskom duchu. Ahoj, ako sa dnes máš? Veľmi pekne ďakujem za tvoju pomoc. Chcel by som vedieť, kde je železničná stanica. Zajtra ráno máme stretnutie s celým tímom. Čo si o tom myslíš? Počasie je naozaj pekné a chcem sa ísť prejsť. Áno, už som tam bol a bol to najkrajší čas môjho života.',
+  sl: 'Vsi ljudje se rodijo svobodni in imajo enako dostojanstvo in enake pravice. Obdarjeni so z razumom in vestjo in bi morali ravnati drug z drugim kakor bratje. Živjo, kako si danes? Najlepša hvala za tvojo pomoč. Rad bi vedel, kje je železniška postaja. Jutri zjutraj imamo sestanek s celotno ekipo. Kaj si misliš o tem? Vreme je res lepo in rad bi šel na sprehod. Ja, tam sem že bil in to je bil najlepši čas mojega življenja.',
+  hr: 'Sva ljudska bića rađaju se slobodna i jednaka u dostojanstvu i pravima. Ona su obdarena razumom i sviješću pa jedna prema drugima trebaju postupati u duhu bratstva. Bok, kako si danas? Puno hvala na tvojoj pomoći. Htio bih znati gdje je željeznički kolodvor. Sutra ujutro imamo sastanak s cijelim timom. Što misliš o tome? Vrijeme je stvarno lijepo i želim ići u šetnju. Da, već sam bio tamo i to je bilo najljepše vrijeme mog života.',
+  ro: 'Toate ființele umane se nasc libere și egale în demnitate și în drepturi. Ele sunt înzestrate cu rațiune și conștiință și trebuie să se comporte unele față de altele în spiritul fraternității. Bună, ce mai faci astăzi? Mulțumesc foarte mult pentru ajutor. Aș vrea să știu unde este gara. Mâine dimineață avem o ședință cu toată echipa. Ce părere ai despre asta? Vremea este foarte frumoasă și vreau să mă plimb. Da, am mai fost acolo și a fost cea mai frumoasă perioadă din viața mea.',
+  lt: 'Visi žmonės gimsta laisvi ir lygūs savo orumu ir teisėmis. Jiems suteiktas protas ir sąžinė ir jie turi elgtis vienas kito atžvilgiu kaip broliai. Labas, kaip tau sekasi šiandien? Labai ačiū už tavo pagalbą. Norėčiau sužinoti, kur yra traukinių stotis. Rytoj ryte turime susitikimą su visa komanda. Ką tu apie tai manai? Oras tikrai gražus ir aš noriu pasivaikščioti. Taip, aš ten jau buvau ir tai buvo geriausias mano gyvenimo laikas.',
+  lv: 'Visi cilvēki piedzimst brīvi un vienlīdzīgi savā pašcieņā un tiesībās. Viņi ir apveltīti ar saprātu un sirdsapziņu, un viņiem jāizturas citam pret citu brālības garā. Sveiki, kā tev šodien klājas? Liels paldies par tavu palīdzību. Es gribētu zināt, kur atrodas dzelzceļa stacija. Rīt no rīta mums ir sapulce ar visu komandu. Ko tu par to domā? Laiks ir patiešām jauks, un es gribu doties pastaigā. Jā, es tur jau esmu bijis, un tas bija labākais laiks manā dzīvē.',
+  tr: 'Bütün insanlar hür, haysiyet ve haklar bakımından eşit doğarlar. Akıl ve vicdana sahiptirler ve birbirlerine karşı kardeşlik zihniyeti ile hareket etmelidirler. Merhaba, bugün nasılsın? Yardımın için çok teşekkür ederim. Tren istasyonunun nerede olduğunu öğrenmek istiyorum. Yarın sabah bütün ekiple bir toplantımız var. Bu konuda ne düşünüyorsun? Hava gerçekten çok güzel ve yürüyüşe çıkmak istiyorum. Evet, oraya daha önce gittim ve hayatımın en güzel zamanıydı.',
+  id: 'Semua orang dilahirkan merdeka dan mempunyai martabat dan hak-hak yang sama. Mereka dikaruniai akal dan hati nurani dan hendaknya bergaul satu sama lain dalam semangat persaudaraan. Halo, apa kabar hari ini? Terima kasih banyak atas bantuanmu. Saya ingin tahu di mana stasiun kereta api. Besok pagi kita akan mengadakan rapat dengan seluruh tim. Bagaimana pendapatmu tentang ini? Cuacanya sangat bagus dan saya ingin jalan-jalan. Ya, saya sudah pernah ke sana dan itu adalah saat terbaik dalam hidup saya.',
+  ms: 'Semua manusia dilahirkan bebas dan samarata dari segi kemuliaan dan hak-hak. Mereka mempunyai pemikiran dan perasaan hati dan hendaklah bertindak di antara satu sama lain dengan semangat persaudaraan. Helo, apa khabar hari ini? Terima kasih banyak atas bantuan awak. Saya ingin tahu di mana stesen kereta api. Esok pagi kita akan mengadakan mesyuarat dengan seluruh pasukan. Apa pendapat awak tentang perkara ini? Cuaca sangat baik dan saya mahu berjalan-jalan. Ya, saya pernah ke sana dan itulah masa terbaik dalam hidup saya.',
+  sw: 'Binadamu wote wamezaliwa huru, hadhi na haki zao ni sawa. Wote wamejaliwa akili na dhamiri, hivyo yapasa watendeane kindugu. Habari, hujambo leo? Asante sana kwa msaada wako. Ningependa kujua kituo cha treni kiko wapi. Kesho asubuhi tutakuwa na mkutano na timu nzima. Unafikiri nini kuhusu hili? Hali ya hewa ni nzuri sana na nataka kwenda kutembea. Ndiyo, nimewahi kwenda huko na ulikuwa wakati bora zaidi wa maisha yangu.',
+  tl: "Ang lahat ng tao ay isinilang na malaya at pantay-pantay sa karangalan at mga karapatan. Sila ay pinagkalooban ng katwiran at budhi at dapat magturingan sa isa't isa sa diwa ng pagkakapatiran. Kumusta ka ngayong araw? Maraming salamat sa iyong tulong. Gusto kong malaman kung nasaan ang istasyon ng tren. Bukas ng umaga ay magkakaroon tayo ng pulong kasama ang buong koponan. Ano ang palagay mo tungkol dito? Napakaganda ng panahon at gusto kong maglakad-lakad. Oo, nakapunta na ako roon at iyon ang pinakamagandang panahon ng buhay ko.",
+  vi: 'Tất cả mọi người sinh ra đều được tự do và bình đẳng về nhân phẩm và quyền lợi. Mọi con người đều được tạo hóa ban cho lý trí và lương tâm và cần phải đối xử với nhau trong tình bằng hữu. Xin chào, hôm nay bạn khỏe không? Cảm ơn bạn rất nhiều vì đã giúp đỡ. Tôi muốn biết nhà ga xe lửa ở đâu. Sáng mai chúng ta sẽ có một cuộc họp với cả nhóm. Bạn nghĩ gì về điều này? Thời tiết thật đẹp và tôi muốn đi dạo. Vâng, tôi đã từng đến đó và đó là khoảng thời gian đẹp nhất trong đời tôi.',
+  ru: 'Все люди рождаются свободными и равными в своем достоинстве и правах. Они наделены разумом и совестью и должны поступать в отношении друг друга в духе братства. Привет, как у тебя дела сегодня? Большое спасибо за твою помощь. Я хотел бы знать, где находится вокзал. Завтра утром у нас будет встреча со всей командой. Что ты об этом думаешь? Погода действительно хорошая, и я хочу погулять. Да, я уже был там, и это было лучшее время в моей жизни.',
+  uk: 'Всі люди народжуються вільними і рівними у своїй гідності та правах. Вони наділені розумом і совістю і повинні діяти у відношенні один до одного в дусі братерства. Привіт, як у тебе справи сьогодні? Щиро дякую за твою допомогу. Я хотів би знати, де знаходиться вокзал. Завтра вранці у нас буде зустріч з усією командою. Що ти про це думаєш? Погода справді гарна, і я хочу погуляти. Так, я вже був там, і це був найкращий час у моєму житті.',
+  bg: 'Всички хора се раждат свободни и равни по достойнство и права. Те са надарени с разум и съвест и следва да се отнасят помежду си в дух на братство. Здравей, как си днес? Много благодаря за помощта ти. Бих искал да знам къде е гарата. Утре сутринта имаме среща с целия екип. Какво мислиш за това? Времето е наистина хубаво и искам да се разходя. Да, бил съм там и това беше най-хубавото време в живота ми.',
+  sr: 'Сва људска бића рађају се слободна и једнака у достојанству и правима. Она су обдарена разумом и свешћу и треба једни према другима да поступају у духу братства. Здраво, како си данас? Пуно хвала на твојој помоћи. Желео бих да знам где је железничка станица. Сутра ујутру имамо састанак са целим тимом. Шта мислиш о томе? Време је заиста лепо и желим да прошетам. Да, већ сам био тамо и то је било најлепше време мог живота.',
+  ar: 'يولد جميع الناس أحرارًا متساوين في الكرامة والحقوق. وقد وهبوا عقلاً وضميرًا وعليهم أن يعامل بعضهم بعضًا بروح الإخاء. مرحبا، كيف حالك اليوم؟ شكرا جزيلا على مساعدتك. أريد أن أعرف أين محطة القطار. غدا صباحا سيكون لدينا اجتماع مع الفريق كله. ما رأيك في هذا؟ الطقس جميل حقا وأريد أن أتمشى. نعم، لقد كنت هناك من قبل وكان أفضل وقت في حياتي.',
+  fa: 'تمام افراد بشر آزاد به دنیا می‌آیند و از لحاظ حیثیت و حقوق با هم برابرند. همه دارای عقل و وجدان هستند و باید نسبت به یکدیگر با روح برادری رفتار کنند. سلام، امروز حالت چطور است؟ خیلی ممنون از کمکت. می‌خواهم بدانم ایستگاه قطار کجاست. فردا صبح با کل تیم جلسه داریم. نظرت در این باره چیست؟ هوا واقعا خوب است و می‌خواهم قدم بزنم. بله، قبلا آنجا بوده‌ام و بهترین دوران زندگی‌ام بود.'
+};
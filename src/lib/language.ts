@@ -0,0 +1,75 @@
+import { normalizeLanguageCode } from '@/lib/languages';
+import { identifyLanguage, LanguageGuess } from '@/lib/language-id/identify';
+
+export type LanguageMethod = 'hint' | 'engine' | 'text' | 'engine+text' | 'default' | 'unknown';
+
+// How the language of a transcript was settled, reported alongside it
+export interface LanguageDecision {
+  language: string; // ISO 639-1 code, or 'unknown'
+  confidence: number; // 0..1
+  method: LanguageMethod;
+  engine?: { language: string; probability?: number }; // what the speech engine detected on its own
+  text?: LanguageGuess & { alternatives: LanguageGuess[] }; // what the transcript's characters suggest
+}
+
+export interface LanguageEvidence {
+  hint?: string; // chosen by the user; always wins
+  forced?: string; // the engine was told to transcribe this language, so it detected nothing
+  detected?: string; // the engine's detected language, code or name
+  detectedProbability?: number;
+  text: string;
+  expected?: string[]; // the conversation's languages
+}
+
+const ENGINE_PRIOR = 0.7; // how much to trust a detection that comes without a probability
+const MIN_TEXT_CONFIDENCE = 0.4; // below this the text alone decides nothing
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+// Settle the transcript's language from the user's hint, the engine's own
+// detection and the text itself. When engine and text agree their confidences
+// combine; when they disagree the more confident one wins.
+export function decideLanguage(evidence: LanguageEvidence): LanguageDecision {
+  if (evidence.hint) {
+    return { language: evidence.hint, confidence: 1, method: 'hint' };
+  }
+
+  const detectedCode = evidence.forced ? undefined : normalizeLanguageCode(evidence.detected);
+  const engine = detectedCode ? { language: detectedCode, probability: evidence.detectedProbability } : undefined;
+  const identified = identifyLanguage(evidence.text, { expected: evidence.expected });
+  const text = identified.language === 'unknown' ? undefined : identified;
+  const reported = { engine, text };
+
+  if (engine) {
+    const engineConfidence = engine.probability ?? ENGINE_PRIOR;
+    if (text?.language === engine.language) {
+      const confidence = 1 - (1 - engineConfidence) * (1 - text.confidence);
+      return { language: engine.language, confidence: round(confidence), method: 'engine+text', ...reported };
+    }
+    if (text && text.confidence > engineConfidence) {
+      return { language: text.language, confidence: text.confidence, method: 'text', ...reported };
+    }
+    return { language: engine.language, confidence: round(engineConfidence), method: 'engine', ...reported };
+  }
+
+  if (text && text.confidence >= MIN_TEXT_CONFIDENCE) {
+    return { language: text.language, confidence: text.confidence, method: 'text', ...reported };
+  }
+  if (evidence.forced) {
+    const confidence = text?.language === evidence.forced ? text.confidence : 0;
+    return { language: evidence.forced, confidence, method: 'default', ...reported };
+  }
+  return { language: 'unknown', confidence: 0, method: 'unknown', ...reported };
+}
+
+// Conversations run between two languages. Speech in the target language is
+// translated back to the source; anything else goes to the target.
+export function chooseDirection(language: string, source: string, target: string): { from: string; to: string } | null {
+  if (language === 'unknown') {
+    return null;
+  }
+  if (language === target) {
+    return { from: target, to: source };
+  }
+  return { from: language, to: target };
+}
@@ -0,0 +1,74 @@
+// Languages the app knows how to name. `promptName` is what we tell LLM
+// translators, so regional preferences (e.g. Mexican Spanish) live here.
+export interface LanguageInfo {
+  code: string;
+  name: string;
+  promptName?: string;
+}
+
+export const LANGUAGES: LanguageInfo[] = [
+  { code: 'ar', name: 'Arabic' },
+  { code: 'bg', name: 'Bulgarian' },
+  { code: 'ca', name: 'Catalan' },
+  { code: 'cs', name: 'Czech' },
+  { code: 'da', name: 'Danish' },
+  { code: 'de', name: 'German' },
+  { code: 'el', name: 'Greek' },
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Spanish', promptName: 'Mexican Spanish (not Spain Spanish)' },
+  { code: 'et', name: 'Estonian' },
+  { code: 'fa', name: 'Persian' },
+  { code: 'fi', name: 'Finnish' },
+  { code: 'fr', name: 'French' },
+  { code: 'he', name: 'Hebrew' },
+  { code: 'hi', name: 'Hindi' },
+  { code: 'hr', name: 'Croatian' },
+  { code: 'hu', name: 'Hungarian' },
+  { code: 'id', name: 'Indonesian' },
+  { code: 'it', name: 'Italian' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'ko', name: 'Korean' },
+  { code: 'lt', name: 'Lithuanian' },
+  { code: 'lv', name: 'Latvian' },
+  { code: 'ms', name: 'Malay' },
+  { code: 'nl', name: 'Dutch' },
+  { code: 'no', name: 'Norwegian' },
+  { code: 'pl', name: 'Polish' },
+  { code: 'pt', name: 'Portuguese', promptName: 'Brazilian Portuguese' },
+  { code: 'ro', name: 'Romanian' },
+  { code: 'ru', name: 'Russian' },
+  { code: 'sk', name: 'Slovak' },
+  { code: 'sl', name: 'Slovenian' },
+  { code: 'sr', name: 'Serbian' },
+  { code: 'sv', name: 'Swedish' },
+  { code: 'sw', name: 'Swahili' },
+  { code: 'th', name: 'Thai' },
+  { code: 'tl', name: 'Tagalog' },
+  { code: 'tr', name: 'Turkish' },
+  { code: 'uk', name: 'Ukrainian' },
+  { code: 'vi', name: 'Vietnamese' },
+  { code: 'zh', name: 'Chinese' },
+];
+
+const byCode = new Map(LANGUAGES.map(l => [l.code, l]));
+const byName = new Map(LANGUAGES.map(l => [l.name.toLowerCase(), l]));
+
+export function getLanguage(code: string): LanguageInfo | undefined {
+  return byCode.get(code);
+}
+
+export function getLanguageName(code: string): string {
+  return byCode.get(code)?.name || code;
+}
+
+// Whisper reports either ISO codes ("es") or English names ("spanish").
+export function normalizeLanguageCode(value: string | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const lower = value.toLowerCase();
+  if (byCode.has(lower)) {
+    return lower;
+  }
+  return byName.get(lower)?.code;
+}
@@ -0,0 +1,157 @@
+import { randomUUID } from 'crypto';
+import { NextRequest } from 'next/server';
+
+// Structured server logging. Every entry is one JSON line with a timestamp,
+// level, message and fields; child loggers bind fields such as the request ID
+// so everything one request does can be found with a single grep. Values are
+// scrubbed of secrets before they are written, and transcript text only
+// appears when LOG_TRANSCRIPTS allows it.
+//
+//   LOG_LEVEL        debug | info (default) | warn | error
+//   LOG_FORMAT       json (default) | pretty - one readable line per entry, for local development
+//   LOG_TRANSCRIPTS  none (default, lengths only) | preview (first 50 characters) | full
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  child(bindings: LogFields): Logger;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+const REDACTED = '[REDACTED]';
+const MAX_DEPTH = 6;
+const PREVIEW_LENGTH = 50;
+
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+// Field names whose values are never logged, whatever they contain
+const SECRET_KEY = /passw(or)?d|secret|^token$|[-_]token$|(access|refresh|api|auth)[-_]?token|api[-_]?key|authorization|cookie|credential|private[-_]?key/i;
+// Secrets that turn up inside free text such as error messages
+const SECRET_PATTERNS = [
+  /sk-[A-Za-z0-9_-]{16,}/g, // OpenAI keys
+  /AIza[0-9A-Za-z_-]{35}/g, // Google API keys
+  /Bearer\s+[A-Za-z0-9._~+/-]+=*/gi,
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g
+];
+
+// Values of secret-looking environment variables, so they are caught even in unknown formats
+let envSecrets: string[] | null = null;
+function secretValues(): string[] {
+  if (!envSecrets) {
+    envSecrets = Object.keys(process.env)
+      .filter(name => SECRET_KEY.test(name) || /_KEY$/.test(name))
+      .map(name => process.env[name] || '')
+      .filter(value => value.length >= 8);
+  }
+  return envSecrets;
+}
+
+export function redactText(text: string): string {
+  let result = text;
+  secretValues().forEach(secret => {
+    result = result.split(secret).join(REDACTED);
+  });
+  SECRET_PATTERNS.forEach(pattern => {
+    result = result.replace(pattern, REDACTED);
+  });
+  return result;
+}
+
+// Deep copy of `value` that is safe to log
+export function redact(value: unknown, depth: number = 0): unknown {
+  if (typeof value === 'string') {
+    return redactText(value);
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[Truncated]';
+  }
+  if (value instanceof Error) {
+    const { code, status } = value as Error & { code?: unknown; status?: unknown };
+    return {
+      name: value.name,
+      message: redactText(value.message),
+      ...(code !== undefined && { code }),
+      ...(status !== undefined && { status }),
+      stack: value.stack ? redactText(value.stack) : undefined
+    };
+  }
+  if (Buffer.isBuffer(value) || ArrayBuffer.isView(value)) {
+    return `[${value.constructor.name} ${(value as ArrayBufferView).byteLength} bytes]`;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1));
+  }
+  const result: LogFields = {};
+  Object.keys(value).forEach(key => {
+    result[key] = SECRET_KEY.test(key) ? REDACTED : redact((value as LogFields)[key], depth + 1);
+  });
+  return result;
+}
+
+// What may be logged of a transcript or translation under LOG_TRANSCRIPTS
+export function loggedText(text: string | undefined | null): { chars: number; preview?: string; text?: string } {
+  const value = text || '';
+  switch (process.env.LOG_TRANSCRIPTS) {
+    case 'full':
+      return { chars: value.length, text: value };
+    case 'preview':
+      return { chars: value.length, preview: value.length > PREVIEW_LENGTH ? `${value.substring(0, PREVIEW_LENGTH)}…` : value };
+    default:
+      return { chars: value.length };
+  }
+}
+
+function minimumLevel(): number {
+  const level = (process.env.LOG_LEVEL || 'info').toLowerCase() as LogLevel;
+  return LEVELS[level] ?? LEVELS.info;
+}
+
+function write(level: LogLevel, message: string, bindings: LogFields, fields?: LogFields) {
+  if (LEVELS[level] < minimumLevel()) {
+    return;
+  }
+  const entry = redact({ time: new Date().toISOString(), level, msg: message, ...bindings, ...fields }) as LogFields;
+
+  let line: string;
+  if (process.env.LOG_FORMAT === 'pretty') {
+    const { time, level: _level, msg, requestId, ...rest } = entry;
+    const extra = Object.keys(rest).length > 0 ? ` ${JSON.stringify(rest)}` : '';
+    line = `${time} ${level.toUpperCase().padEnd(5)} ${requestId ? `[${requestId}] ` : ''}${msg}${extra}`;
+  } else {
+    line = JSON.stringify(entry);
+  }
+
+  if (level === 'error') {
+    console.error(line);
+  } else if (level === 'warn') {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+}
+
+function createLogger(bindings: LogFields): Logger {
+  return {
+    debug: (message, fields) => write('debug', message, bindings, fields),
+    info: (message, fields) => write('info', message, bindings, fields),
+    warn: (message, fields) => write('warn', message, bindings, fields),
+    error: (message, fields) => write('error', message, bindings, fields),
+    child: (extra) => createLogger({ ...bindings, ...extra })
+  };
+}
+
+export const logger: Logger = createLogger({});
+
+// The middleware stamps every API request with an ID (or keeps a sane one the
+// caller sent); routes read it back here and echo it in the X-Request-Id header
+export function requestIdFor(request: NextRequest): string {
+  return request.headers.get(REQUEST_ID_HEADER) || randomUUID().substring(0, 8);
+}
@@ -0,0 +1,148 @@
+// In-process metrics in the Prometheus text format, served by /api/metrics.
+// Counters and histograms are keyed by their label values; everything is kept
+// in memory and starts from zero on restart, which Prometheus handles.
+
+export type Labels = Record<string, string>;
+
+const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2, 3, 5, 8, 13, 20, 30]; // seconds
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels).sort().map(name => `${name}=${labels[name]}`).join(',');
+}
+
+function formatLabels(labels: Labels, extra: Labels = {}): string {
+  const all = { ...labels, ...extra };
+  const names = Object.keys(all);
+  if (names.length === 0) {
+    return '';
+  }
+  const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+  return `{${names.map(name => `${name}="${escape(all[name])}"`).join(',')}}`;
+}
+
+interface Metric {
+  readonly name: string;
+  render(): string[];
+}
+
+export class Counter implements Metric {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, amount: number = 1) {
+    const key = labelKey(labels);
+    const current = this.values.get(key) || { labels, value: 0 };
+    current.value += amount;
+    this.values.set(key, current);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    this.values.forEach(({ labels, value }) => lines.push(`${this.name}${formatLabels(labels)} ${value}`));
+    return lines;
+  }
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  counts: number[]; // per bucket, not cumulative
+  sum: number;
+  count: number;
+}
+
+export class Histogram implements Metric {
+  private series = new Map<string, HistogramSeries>();
+
+  constructor(readonly name: string, readonly help: string, private readonly buckets: number[] = DEFAULT_BUCKETS) {}
+
+  observe(labels: Labels, value: number) {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    const bucket = this.buckets.findIndex(bound => value <= bound);
+    if (bucket >= 0) {
+      series.counts[bucket]++;
+    }
+    series.sum += value;
+    series.count++;
+  }
+
+  // Convenience for the millisecond timings the pipeline already measures
+  observeMs(labels: Labels, milliseconds: number) {
+    this.observe(labels, milliseconds / 1000);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    this.series.forEach(({ labels, counts, sum, count }) => {
+      let cumulative = 0;
+      this.buckets.forEach((bound, i) => {
+        cumulative += counts[i];
+        lines.push(`${this.name}_bucket${formatLabels(labels, { le: String(bound) })} ${cumulative}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels(labels, { le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    });
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+
+  counter(name: string, help: string): Counter {
+    return this.register(name, () => new Counter(name, help));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(name, () => new Histogram(name, help, buckets));
+  }
+
+  private register<T extends Metric>(name: string, create: () => T): T {
+    if (!this.metrics.has(name)) {
+      this.metrics.set(name, create());
+    }
+    return this.metrics.get(name) as T;
+  }
+
+  render(): string {
+    const lines: string[] = [];
+    this.metrics.forEach(metric => lines.push(...metric.render()));
+    return lines.join('\n') + '\n';
+  }
+}
+
+// Shared by every route and stream; kept on globalThis to survive dev reloads
+const globalForMetrics = globalThis as unknown as { metricsRegistry?: MetricsRegistry };
+
+export function getMetricsRegistry(): MetricsRegistry {
+  if (!globalForMetrics.metricsRegistry) {
+    globalForMetrics.metricsRegistry = new MetricsRegistry();
+  }
+  return globalForMetrics.metricsRegistry;
+}
+
+const registry = getMetricsRegistry();
+
+export const metrics = {
+  requests: registry.counter('translator_requests_total', 'HTTP requests to transcription routes by route and status'),
+  requestLatency: registry.histogram('translator_request_latency_seconds', 'End-to-end latency of a transcription request or stream chunk'),
+  transcriptionLatency: registry.histogram('translator_transcription_latency_seconds', 'Time spent in the transcription provider'),
+  engineInference: registry.histogram('translator_engine_inference_seconds', 'Inference time reported by the engine itself (the local Whisper worker\'s own timing)'),
+  translationLatency: registry.histogram('translator_translation_latency_seconds', 'Time spent translating, including cache lookups'),
+  translationCache: registry.counter('translator_translation_cache_total', 'Translation cache lookups by result (memory, disk, miss, bypass)'),
+  errors: registry.counter('translator_errors_total', 'Errors by pipeline stage and error class'),
+  fallbacks: registry.counter('translator_fallbacks_total', 'Providers passed over in a fallback chain, by stage, provider and reason'),
+  skippedChunks: registry.counter('translator_skipped_chunks_total', 'Stream audio that was not transcribed or not kept, by reason')
+};
+
+// Error class for the `class` label, e.g. WorkerQueueFullError
+// (our error classes all set `name`, which survives minification)
+export function errorClass(error: unknown): string {
+  return error instanceof Error ? error.name : typeof error;
+}
@@ -0,0 +1,15 @@
+import OpenAI from 'openai';
+
+// Initialize OpenAI client lazily to avoid build-time issues
+let openai: OpenAI | null = null;
+
+export function getOpenAIClient() {
+  if (!openai) {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error('OPENAI_API_KEY environment variable is required');
+    }
+    openai = new OpenAI({ apiKey });
+  }
+  return openai;
+}
@@ -0,0 +1,242 @@
+import { getTranscriptionProvider } from '@/lib/transcription/registry';
+import { NormalizedTranscription, TranscriptionRequest } from '@/lib/transcription/types';
+import { chooseDirection, decideLanguage, LanguageDecision } from '@/lib/language';
+import { getTranslator, supportsPair } from '@/lib/translation/registry';
+import { CacheStatus, translateWithCache } from '@/lib/translation/cache';
+import { listGlossary } from '@/lib/glossary/store';
+import { findGlossaryMatches } from '@/lib/glossary/apply';
+import { GlossaryMatch } from '@/types/glossary';
+import { ContextTurn } from '@/lib/translation/types';
+import { ContextSettings, DEFAULT_CONTEXT_SETTINGS, selectContextTurns } from '@/lib/translation/context';
+import { estimateAudioSeconds, recordUsage } from '@/lib/usage/quota';
+import { logger, loggedText } from '@/lib/logger';
+import { errorClass, metrics } from '@/lib/metrics';
+import { AllProvidersFailedError, fallbackChain, FallbackAttempt, runWithFailover } from '@/lib/resilience/failover';
+import { Translator } from '@/lib/translation/types';
+
+// Fallback order when the requested provider fails; TRANSCRIPTION_FALLBACKS and
+// TRANSLATION_FALLBACKS (comma separated, empty for none) override them
+const TRANSCRIPTION_CHAIN = ['openai', 'local'];
+const TRANSLATION_CHAIN = ['google', 'gpt4', 'offline'];
+
+export interface PipelineOptions extends Omit<TranscriptionRequest, 'language'> {
+  provider: string;
+  translator: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  languageHint?: string;
+  detectLanguage?: boolean; // ignore the provider's default language and let it detect among source and target
+  userId?: string; // whose glossary applies and whose quota is charged
+  context?: ContextTurn[]; // earlier turns, oldest first; trimmed to contextSettings
+  contextSettings?: ContextSettings;
+}
+
+export interface PipelineResult {
+  transcription: NormalizedTranscription;
+  language: string;
+  languageDecision: LanguageDecision;
+  targetLanguage?: string;
+  translatedText: string;
+  translationService: string;
+  glossaryApplied: GlossaryMatch[];
+  fallbacks: {
+    transcription: FallbackAttempt[];
+    translation: FallbackAttempt[];
+  };
+  latency: {
+    whisper: number;
+    translation: number;
+    translationCache?: CacheStatus;
+  };
+}
+
+export interface TranscribeResult {
+  transcription: NormalizedTranscription;
+  language: string;
+  languageDecision: LanguageDecision;
+  direction: { from: string; to: string } | null;
+  whisperLatency: number;
+  fallbacks: FallbackAttempt[]; // transcription providers passed over
+}
+
+// Transcribe one piece of audio with the named provider (or, if it fails, the
+// next one in the fallback chain) and work out which way its text should be
+// translated
+export async function transcribe(options: PipelineOptions): Promise<TranscribeResult> {
+  const { requestId } = options;
+  const requested = getTranscriptionProvider(options.provider);
+  const hint = options.detectLanguage ? undefined : options.languageHint;
+  const providers = fallbackChain(requested.name, 'TRANSCRIPTION_FALLBACKS', TRANSCRIPTION_CHAIN)
+    .map(getTranscriptionProvider)
+    .filter(provider => provider === requested || !provider.isAvailable || provider.isAvailable());
+
+  const log = logger.child({ requestId });
+  log.debug('Starting transcription', { provider: requested.name });
+  const whisperStartTime = Date.now();
+  const served = await runWithFailover('transcription', requestId, providers.map(provider => ({
+    provider: provider.name,
+    run: async () => {
+      const languageHint = options.detectLanguage ? undefined : (hint || provider.defaultLanguage);
+      // Detection only needs to tell the conversation's languages apart
+      const languages = languageHint ? undefined : (options.languages || [options.sourceLanguage, options.targetLanguage]);
+      try {
+        // Model names are engine-specific, so fallbacks use their own default
+        const model = provider === requested ? options.model : undefined;
+        return { languageHint, transcription: await provider.transcribe({ ...options, model, language: languageHint, languages }) };
+      } catch (error) {
+        metrics.errors.inc({ stage: 'transcription', provider: provider.name, class: errorClass(error) });
+        throw error;
+      }
+    }
+  })));
+  const { transcription, languageHint } = served.value;
+  const whisperLatency = Date.now() - whisperStartTime;
+
+  const modelLabels = { provider: transcription.provider, model: transcription.model || 'default' };
+  metrics.transcriptionLatency.observeMs(modelLabels, whisperLatency);
+  if (transcription.timings.transcriptionMs !== undefined) {
+    metrics.engineInference.observeMs(modelLabels, transcription.timings.transcriptionMs);
+  }
+  if (options.userId) {
+    recordUsage(options.userId, { audioSeconds: transcription.duration ?? estimateAudioSeconds(options.audio, options.mimeType) });
+  }
+
+  log.info('Transcription received', {
+    provider: transcription.provider,
+    text: loggedText(transcription.text),
+    language: transcription.language,
+    duration: transcription.duration,
+    latency: whisperLatency
+  });
+
+  // The provider's default language only speeds the engine up; it's no evidence of what was said
+  const languageDecision = decideLanguage({
+    hint,
+    forced: languageHint,
+    detected: transcription.language,
+    detectedProbability: transcription.languageProbability,
+    text: transcription.text,
+    expected: [options.sourceLanguage, options.targetLanguage]
+  });
+  const { language } = languageDecision;
+  log.debug('Language decided', { language, confidence: languageDecision.confidence, method: languageDecision.method });
+  const direction = chooseDirection(language, options.sourceLanguage, options.targetLanguage);
+  return { transcription, language, languageDecision, direction, whisperLatency, fallbacks: served.fallbacks };
+}
+
+// Transcribe one piece of audio with the named provider, then translate it.
+// Translation failures are logged and swallowed so a transcript is never lost.
+export async function transcribeAndTranslate(options: PipelineOptions): Promise<PipelineResult> {
+  const { transcription, language, languageDecision, direction, whisperLatency, fallbacks } = await transcribe(options);
+
+  const translation = direction
+    ? await translateTranscript({ ...options, text: transcription.text, from: direction.from, to: direction.to })
+    : NO_TRANSLATION;
+
+  return {
+    transcription,
+    language,
+    languageDecision,
+    targetLanguage: direction?.to,
+    translatedText: translation.translatedText,
+    translationService: translation.translationService,
+    glossaryApplied: translation.glossaryApplied,
+    fallbacks: { transcription: fallbacks, translation: translation.fallbacks },
+    latency: {
+      whisper: whisperLatency,
+      translation: translation.latency,
+      translationCache: translation.translationCache
+    }
+  };
+}
+
+export interface TranslateOptions extends Pick<PipelineOptions, 'requestId' | 'translator' | 'userId' | 'context' | 'contextSettings'> {
+  text: string;
+  from: string;
+  to: string;
+}
+
+export interface TranslateResult {
+  translatedText: string;
+  translationService: string;
+  glossaryApplied: GlossaryMatch[];
+  translationCache?: CacheStatus;
+  latency: number;
+  fallbacks: FallbackAttempt[]; // translators passed over
+}
+
+export const NO_TRANSLATION: TranslateResult = { translatedText: '', translationService: 'none', glossaryApplied: [], latency: 0, fallbacks: [] };
+
+// Translate one piece of text with the user's glossary and, for translators
+// that want it, the conversation context. When the translator fails the next
+// one in the fallback chain that supports the pair takes over. Also used to
+// re-translate whole utterances once streaming has assembled them. Never throws.
+export async function translateTranscript(options: TranslateOptions): Promise<TranslateResult> {
+  const { requestId, text, from, to } = options;
+  if (!text) {
+    return NO_TRANSLATION;
+  }
+
+  const requested = getTranslator(options.translator);
+  const translators = fallbackChain(requested.name, 'TRANSLATION_FALLBACKS', TRANSLATION_CHAIN).map(getTranslator);
+  const log = logger.child({ requestId, translator: requested.name });
+  log.debug('Starting translation', { from, to });
+  const translationStartTime = Date.now();
+  try {
+    const glossary = options.userId
+      ? findGlossaryMatches(text, await listGlossary(options.userId, { source: from, target: to }))
+      : [];
+    const served = await runWithFailover('translation', requestId, translators.map(translator => ({
+      provider: translator.name,
+      // The requested translator was checked when the request came in
+      supported: () => translator === requested ? Promise.resolve(true) : supportsPair(translator, from, to),
+      run: () => translateWith(translator, options, glossary)
+    })));
+    const translation = served.value;
+    const translator = translators.find(t => t.name === served.provider)!;
+    const latency = Date.now() - translationStartTime;
+    metrics.translationLatency.observeMs({ translator: served.provider, cache: translation.cache }, latency);
+    metrics.translationCache.inc({ translator: served.provider, result: translation.cache });
+    if (options.userId && (translation.cache === 'miss' || translation.cache === 'bypass')) {
+      recordUsage(options.userId, { translatedChars: text.length }); // cache hits cost nothing
+    }
+
+    log.info('Translation completed', {
+      from,
+      to,
+      translator: served.provider,
+      translatedText: loggedText(translation.text),
+      latency,
+      cache: translation.cache
+    });
+    return {
+      translatedText: translation.text,
+      translationService: served.provider,
+      glossaryApplied: translator.ignoresGlossary ? [] : glossary,
+      translationCache: translation.cache,
+      latency,
+      fallbacks: served.fallbacks
+    };
+  } catch (translationError) {
+    log.error('Translation failed', { from, to, error: translationError });
+    // Don't fail the entire request if translation fails
+    return {
+      ...NO_TRANSLATION,
+      translationService: requested.name,
+      fallbacks: translationError instanceof AllProvidersFailedError ? translationError.fallbacks : []
+    };
+  }
+}
+
+async function translateWith(translator: Translator, options: TranslateOptions, glossary: GlossaryMatch[]) {
+  const { requestId, text, from, to } = options;
+  const context = translator.usesContext
+    ? selectContextTurns(options.context || [], options.contextSettings || DEFAULT_CONTEXT_SETTINGS)
+    : [];
+  try {
+    return await translateWithCache(translator, { text, source: from, target: to, requestId, glossary, context });
+  } catch (error) {
+    metrics.errors.inc({ stage: 'translation', translator: translator.name, class: errorClass(error) });
+    throw error;
+  }
+}
@@ -0,0 +1,109 @@
+import { logger } from '@/lib/logger';
+
+// Per-provider circuit breakers. After `failureThreshold` failures in a row a
+// provider's circuit opens and it is skipped; once `resetTimeoutMs` has passed
+// a single trial request is let through (half-open), and its outcome closes
+// the circuit again or keeps it open for another timeout.
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // 0 never opens the circuit
+  resetTimeoutMs: number;
+}
+
+export interface CircuitStatus {
+  name: string;
+  state: CircuitState;
+  failures: number;
+  retryAfterMs: number; // until a trial request is allowed; 0 unless open
+}
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_RESET_TIMEOUT_MS = 30000;
+
+export function circuitBreakerOptions(): CircuitBreakerOptions {
+  const threshold = parseInt(process.env.CIRCUIT_FAILURE_THRESHOLD || '', 10);
+  const resetMs = parseInt(process.env.CIRCUIT_RESET_MS || '', 10);
+  return {
+    failureThreshold: Number.isNaN(threshold) ? DEFAULT_FAILURE_THRESHOLD : Math.max(threshold, 0),
+    resetTimeoutMs: Number.isNaN(resetMs) ? DEFAULT_RESET_TIMEOUT_MS : Math.max(resetMs, 0)
+  };
+}
+
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(readonly name: string, private readonly options: CircuitBreakerOptions, private readonly now: () => number = Date.now) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === null) {
+      return 'closed';
+    }
+    return this.now() - this.openedAt >= this.options.resetTimeoutMs ? 'half-open' : 'open';
+  }
+
+  // Whether a request may go to the provider now. Half-open lets one trial through at a time.
+  tryAcquire(): boolean {
+    const state = this.state;
+    if (state === 'closed') {
+      return true;
+    }
+    if (state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess() {
+    if (this.openedAt !== null) {
+      logger.info('Circuit closed', { circuit: this.name });
+    }
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure() {
+    this.failures++;
+    const trialFailed = this.trialInFlight;
+    this.trialInFlight = false;
+    if (trialFailed || (this.options.failureThreshold > 0 && this.failures >= this.options.failureThreshold && this.openedAt === null)) {
+      this.openedAt = this.now();
+      logger.warn('Circuit opened', { circuit: this.name, failures: this.failures, resetTimeoutMs: this.options.resetTimeoutMs });
+    }
+  }
+
+  status(): CircuitStatus {
+    const state = this.state;
+    const retryAfterMs = state === 'open' ? this.options.resetTimeoutMs - (this.now() - this.openedAt!) : 0;
+    return { name: this.name, state, failures: this.failures, retryAfterMs };
+  }
+}
+
+// Shared by every route and stream; kept on globalThis to survive dev reloads
+const globalForCircuits = globalThis as unknown as { circuitBreakers?: Map<string, CircuitBreaker> };
+
+function breakers(): Map<string, CircuitBreaker> {
+  if (!globalForCircuits.circuitBreakers) {
+    globalForCircuits.circuitBreakers = new Map();
+  }
+  return globalForCircuits.circuitBreakers;
+}
+
+export function getCircuitBreaker(name: string): CircuitBreaker {
+  let breaker = breakers().get(name);
+  if (!breaker) {
+    breaker = new CircuitBreaker(name, circuitBreakerOptions());
+    breakers().set(name, breaker);
+  }
+  return breaker;
+}
+
+// Forget every provider's history, e.g. between tests
+export function resetCircuitBreakers() {
+  breakers().clear();
+}
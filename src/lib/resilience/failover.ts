@@ -0,0 +1,169 @@
+import { logger, redactText } from '@/lib/logger';
+import { errorClass, metrics } from '@/lib/metrics';
+import { getCircuitBreaker } from './circuit-breaker';
+
+// Ordered fallback chains for the external providers. Each provider gets a
+// few tries with exponential backoff while its errors look transient; after
+// that, or straight away for errors a retry won't fix, the next provider in
+// the chain takes over. Providers whose circuit is open are skipped.
+
+export type FallbackReason = 'circuit-open' | 'unsupported' | 'failed';
+
+// A provider that did not serve the request, and why
+export interface FallbackAttempt {
+  provider: string;
+  reason: FallbackReason;
+  tries: number;
+  error?: string; // redacted message of the last failure
+}
+
+export interface ChainLink<T> {
+  provider: string;
+  supported?: () => Promise<boolean>; // false skips the provider, e.g. it lacks the language pair
+  run: () => Promise<T>;
+}
+
+export interface FailoverResult<T> {
+  value: T;
+  provider: string; // who served the request
+  fallbacks: FallbackAttempt[]; // providers passed over before it, in chain order
+}
+
+export interface RetryOptions {
+  attempts: number; // tries per provider
+  baseDelayMs: number; // doubled after each failed try
+  maxDelayMs: number;
+}
+
+const DEFAULT_ATTEMPTS = 2;
+const DEFAULT_BASE_DELAY_MS = 250;
+const MAX_DELAY_MS = 2000; // live chunks can't wait long; the next provider is the better bet
+
+// HTTP statuses (OpenAI's `status`, Google's numeric `code`) worth another try
+const RETRYABLE_STATUS = [408, 409, 425, 429, 500, 502, 503, 504];
+// Statuses that say the request itself was bad; the provider is healthy
+const REQUEST_ERROR_STATUS = [400, 404, 413, 415, 422];
+const RETRYABLE_NETWORK_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'ECONNABORTED'];
+const RETRYABLE_ERROR_CLASSES = ['APIConnectionError', 'APIConnectionTimeoutError', 'WorkerQueueFullError'];
+
+export class AllProvidersFailedError extends Error {
+  constructor(readonly stage: string, readonly fallbacks: FallbackAttempt[], readonly primaryError?: unknown) {
+    super(`No ${stage} provider could serve the request (${fallbacks.map(f => `${f.provider}: ${f.error || f.reason}`).join('; ')})`);
+    this.name = 'AllProvidersFailedError';
+  }
+}
+
+export function retryOptions(): RetryOptions {
+  const attempts = parseInt(process.env.PROVIDER_RETRY_ATTEMPTS || '', 10);
+  const delay = parseInt(process.env.PROVIDER_RETRY_DELAY_MS || '', 10);
+  return {
+    attempts: Number.isNaN(attempts) ? DEFAULT_ATTEMPTS : Math.max(attempts, 1),
+    baseDelayMs: Number.isNaN(delay) ? DEFAULT_BASE_DELAY_MS : Math.max(delay, 0),
+    maxDelayMs: MAX_DELAY_MS
+  };
+}
+
+// The requested provider followed by those after it in the chain named by
+// `envName` (comma separated; empty for no fallbacks) or the default chain.
+// Chains only run downhill: asking for the local engine never sends audio to
+// a cloud provider listed before it.
+export function fallbackChain(requested: string, envName: string, defaultChain: string[]): string[] {
+  const configured = process.env[envName];
+  const chain = configured === undefined ? defaultChain : configured.split(',').map(name => name.trim()).filter(Boolean);
+  const position = chain.indexOf(requested);
+  return [requested, ...(position >= 0 ? chain.slice(position + 1) : chain)];
+}
+
+function statusOf(error: unknown): number | undefined {
+  const { status, code } = (error || {}) as { status?: unknown; code?: unknown };
+  if (typeof status === 'number') {
+    return status;
+  }
+  return typeof code === 'number' && code >= 100 ? code : undefined;
+}
+
+// Transient failures: rate limits, overloaded or restarting services, network blips
+export function isRetryable(error: unknown): boolean {
+  const { code } = (error || {}) as { code?: unknown };
+  if (code === 'insufficient_quota') {
+    return false; // a 429 that waiting won't fix
+  }
+  const status = statusOf(error);
+  if (status !== undefined) {
+    return RETRYABLE_STATUS.includes(status) || status >= 500;
+  }
+  return (typeof code === 'string' && RETRYABLE_NETWORK_CODES.includes(code)) ||
+    RETRYABLE_ERROR_CLASSES.includes(errorClass(error));
+}
+
+// Errors about the request rather than the provider; they don't count against its circuit
+function isRequestError(error: unknown): boolean {
+  const status = statusOf(error);
+  return status !== undefined && REQUEST_ERROR_STATUS.includes(status);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Try each provider in turn until one succeeds. Throws AllProvidersFailedError,
+// carrying the first provider error (if any provider was tried at all).
+export async function runWithFailover<T>(
+  stage: string,
+  requestId: string,
+  chain: ChainLink<T>[],
+  options: RetryOptions = retryOptions()
+): Promise<FailoverResult<T>> {
+  const log = logger.child({ requestId, stage });
+  const fallbacks: FallbackAttempt[] = [];
+  let primaryError: unknown;
+
+  const passOver = (attempt: FallbackAttempt) => {
+    fallbacks.push(attempt);
+    metrics.fallbacks.inc({ stage, provider: attempt.provider, reason: attempt.reason });
+  };
+
+  for (const link of chain) {
+    if (link.supported && !(await link.supported())) {
+      passOver({ provider: link.provider, reason: 'unsupported', tries: 0 });
+      continue;
+    }
+    const breaker = getCircuitBreaker(`${stage}:${link.provider}`);
+    if (!breaker.tryAcquire()) {
+      passOver({ provider: link.provider, reason: 'circuit-open', tries: 0, error: `${breaker.status().failures} failures in a row` });
+      continue;
+    }
+
+    for (let tries = 1; ; tries++) {
+      try {
+        const value = await link.run();
+        breaker.recordSuccess();
+        if (fallbacks.length > 0) {
+          log.warn('Served by fallback provider', { provider: link.provider, fallbacks });
+        }
+        return { value, provider: link.provider, fallbacks };
+      } catch (error) {
+        if (tries < options.attempts && isRetryable(error)) {
+          const delay = Math.min(options.baseDelayMs * 2 ** (tries - 1), options.maxDelayMs);
+          log.warn('Provider failed, retrying', { provider: link.provider, attempt: tries, delay, error });
+          await sleep(delay);
+          continue;
+        }
+        if (isRequestError(error)) {
+          breaker.recordSuccess(); // it answered; the request was the problem
+        } else {
+          breaker.recordFailure();
+        }
+        log.warn('Provider failed', { provider: link.provider, tries, error });
+        primaryError = primaryError ?? error;
+        passOver({
+          provider: link.provider,
+          reason: 'failed',
+          tries,
+          error: redactText(error instanceof Error ? error.message : String(error))
+        });
+        break;
+      }
+    }
+  }
+
+  throw new AllProvidersFailedError(stage, fallbacks, primaryError);
+}
@@ -0,0 +1,126 @@
+import { randomUUID } from 'crypto';
+import { readdir, unlink } from 'fs/promises';
+import { dataPath, readJsonFile, updateJsonFile, writeJsonFile } from '@/lib/storage/json-file';
+import { TranscriptionResult } from '@/types/transcript';
+import { ConversationSession, SessionSummary } from '@/types/session';
+
+export type { ConversationSession, SessionSummary };
+
+// Conversation sessions are stored one JSON file per session under
+// DATA_DIR/sessions/<user id>/, so each user only ever sees their own.
+
+export class SessionNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Session ${id} not found`);
+    this.name = 'SessionNotFoundError';
+  }
+}
+
+const ID_PATTERN = /^[a-zA-Z0-9-]+$/;
+
+function sessionPath(userId: string, id: string): string {
+  // Ids end up in file paths, so never let anything but plain ids through
+  if (!ID_PATTERN.test(userId) || !ID_PATTERN.test(id)) {
+    throw new SessionNotFoundError(id);
+  }
+  return dataPath('sessions', userId, `${id}.json`);
+}
+
+function summarize(session: ConversationSession): SessionSummary {
+  return {
+    id: session.id,
+    title: session.title,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    entryCount: session.entries.length,
+    preview: session.entries[session.entries.length - 1]?.text.substring(0, 80) || ''
+  };
+}
+
+export async function listSessions(userId: string): Promise<SessionSummary[]> {
+  if (!ID_PATTERN.test(userId)) {
+    return [];
+  }
+
+  let files: string[];
+  try {
+    files = await readdir(dataPath('sessions', userId));
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const sessions = await Promise.all(
+    files
+      .filter(file => file.endsWith('.json'))
+      .map(file => readJsonFile<ConversationSession | null>(dataPath('sessions', userId, file), null))
+  );
+
+  return sessions
+    .filter((session): session is ConversationSession => session !== null)
+    .map(summarize)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function createSession(
+  userId: string,
+  details: { title?: string; sourceLanguage?: string; targetLanguage?: string } = {}
+): Promise<ConversationSession> {
+  const now = Date.now();
+  const session: ConversationSession = {
+    id: randomUUID(),
+    userId,
+    title: details.title?.trim() || `Conversation ${new Date(now).toISOString().substring(0, 16).replace('T', ' ')}`,
+    createdAt: now,
+    updatedAt: now,
+    sourceLanguage: details.sourceLanguage,
+    targetLanguage: details.targetLanguage,
+    entries: []
+  };
+
+  await writeJsonFile(sessionPath(userId, session.id), session);
+  return session;
+}
+
+export async function getSession(userId: string, id: string): Promise<ConversationSession> {
+  const session = await readJsonFile<ConversationSession | null>(sessionPath(userId, id), null);
+  if (!session) {
+    throw new SessionNotFoundError(id);
+  }
+  return session;
+}
+
+async function updateSession(
+  userId: string,
+  id: string,
+  update: (session: ConversationSession) => ConversationSession
+): Promise<ConversationSession> {
+  await getSession(userId, id); // 404 before creating anything
+  return updateJsonFile<ConversationSession | null>(sessionPath(userId, id), null, (session) => {
+    if (!session) {
+      throw new SessionNotFoundError(id);
+    }
+    return { ...update(session), updatedAt: Date.now() };
+  }) as Promise<ConversationSession>;
+}
+
+export function renameSession(userId: string, id: string, title: string): Promise<ConversationSession> {
+  return updateSession(userId, id, session => ({ ...session, title: title.trim() || session.title }));
+}
+
+export function appendEntry(userId: string, id: string, entry: TranscriptionResult): Promise<ConversationSession> {
+  return updateSession(userId, id, session => ({ ...session, entries: [...session.entries, entry] }));
+}
+
+export async function deleteSession(userId: string, id: string): Promise<void> {
+  try {
+    await unlink(sessionPath(userId, id));
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      throw new SessionNotFoundError(id);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,150 @@
+// Browser side of text-to-speech: plays translations one after another,
+// asking /api/speak first and falling back to the browser's speechSynthesis
+// when the server has no working engine. `onPlaybackChange` lets the caller
+// mute microphone capture while the speaker is talking, so translations are
+// not transcribed again.
+
+export const BROWSER_PROVIDER = 'browser';
+
+export interface SpeechPlaybackOptions {
+  provider: string; // server provider name, or BROWSER_PROVIDER to skip the server
+  voices: Record<string, string>; // language code -> voice id (voiceURI for the browser)
+  onPlaybackChange: (playing: boolean) => void;
+}
+
+interface QueuedSpeech {
+  text: string;
+  language: string;
+}
+
+const RELEASE_MS = 400; // Keep the mic muted briefly so the room echo dies down
+const MAX_QUEUE = 10; // Drop the oldest lines if speech falls far behind the conversation
+
+export class SpeechPlayback {
+  private queue: QueuedSpeech[] = [];
+  private playing = false;
+  private audio: HTMLAudioElement | null = null;
+  private releaseTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private options: SpeechPlaybackOptions) {}
+
+  configure(options: Partial<SpeechPlaybackOptions>) {
+    this.options = { ...this.options, ...options };
+  }
+
+  enqueue(text: string, language: string) {
+    if (!text.trim()) {
+      return;
+    }
+    this.queue.push({ text, language });
+    if (this.queue.length > MAX_QUEUE) {
+      this.queue.shift();
+    }
+    if (!this.playing) {
+      this.playNext();
+    }
+  }
+
+  // Stop speaking and forget everything queued
+  clear() {
+    this.queue = [];
+    this.audio?.pause();
+    this.audio = null;
+    if (typeof window !== 'undefined' && window.speechSynthesis) {
+      window.speechSynthesis.cancel();
+    }
+  }
+
+  private setPlaying(playing: boolean) {
+    if (this.releaseTimer) {
+      clearTimeout(this.releaseTimer);
+      this.releaseTimer = null;
+    }
+    if (playing) {
+      this.options.onPlaybackChange(true);
+    } else {
+      this.releaseTimer = setTimeout(() => this.options.onPlaybackChange(false), RELEASE_MS);
+    }
+  }
+
+  private async playNext() {
+    const next = this.queue.shift();
+    if (!next) {
+      this.playing = false;
+      this.setPlaying(false);
+      return;
+    }
+
+    this.playing = true;
+    this.setPlaying(true);
+    try {
+      if (this.options.provider === BROWSER_PROVIDER || !(await this.playFromServer(next))) {
+        await this.playInBrowser(next);
+      }
+    } catch (err) {
+      console.warn('⚠️ Could not speak translation:', err);
+    }
+    this.playNext();
+  }
+
+  // Resolves false when the server cannot synthesize, so the caller can fall back
+  private async playFromServer({ text, language }: QueuedSpeech): Promise<boolean> {
+    const response = await fetch('/api/speak', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text, language, provider: this.options.provider, voice: this.options.voices[language] })
+    }).catch(() => null);
+    if (!response?.ok) {
+      console.warn(`⚠️ Server speech unavailable (${response?.status ?? 'network error'}), using browser voice`);
+      return false;
+    }
+
+    const url = URL.createObjectURL(await response.blob());
+    try {
+      const audio = new Audio(url);
+      this.audio = audio;
+      await new Promise<void>((resolve, reject) => {
+        audio.onended = () => resolve();
+        audio.onpause = () => resolve(); // clear() pauses
+        audio.onerror = () => reject(new Error('Audio playback failed'));
+        audio.play().catch(reject);
+      });
+      return true;
+    } finally {
+      this.audio = null;
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  private playInBrowser({ text, language }: QueuedSpeech): Promise<void> {
+    const synth = window.speechSynthesis;
+    if (!synth) {
+      return Promise.reject(new Error('speechSynthesis is not supported in this browser'));
+    }
+
+    return new Promise((resolve) => {
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.lang = language;
+      const voice = findBrowserVoice(language, this.options.voices[language]);
+      if (voice) {
+        utterance.voice = voice;
+      }
+      utterance.onend = () => resolve();
+      utterance.onerror = () => resolve();
+      synth.speak(utterance);
+    });
+  }
+}
+
+// Browser voices for a language, e.g. 'es' matches es-MX and es-ES
+export function listBrowserVoices(language: string): SpeechSynthesisVoice[] {
+  if (typeof window === 'undefined' || !window.speechSynthesis) {
+    return [];
+  }
+  return window.speechSynthesis.getVoices().filter(voice => voice.lang.toLowerCase().split(/[-_]/)[0] === language);
+}
+
+function findBrowserVoice(language: string, voiceURI?: string): SpeechSynthesisVoice | undefined {
+  const voices = listBrowserVoices(language);
+  return voices.find(voice => voice.voiceURI === voiceURI) || voices[0];
+}
@@ -0,0 +1,48 @@
+import { spawn } from 'child_process';
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+// Run a command, feed `input` on stdin and collect stdout as one buffer.
+// Used by the local speech engines, which all read text on stdin, and by
+// the upload transcoder.
+export function runProcess(command: string, args: string[], input: string, timeoutMs: number = DEFAULT_TIMEOUT_MS): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args);
+    const stdout: Buffer[] = [];
+    let stderr = '';
+
+    const timer = setTimeout(() => {
+      child.kill();
+      reject(new Error(`${command} timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+
+    child.stdout.on('data', (data: Buffer) => stdout.push(data));
+    child.stderr.on('data', (data: Buffer) => {
+      stderr += data.toString();
+    });
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve(Buffer.concat(stdout));
+      } else {
+        reject(new Error(`${command} exited with code ${code}: ${stderr.trim()}`));
+      }
+    });
+
+    child.stdin.end(input);
+  });
+}
+
+// True when `command` can be started at all
+export async function commandExists(command: string, args: string[]): Promise<boolean> {
+  try {
+    await runProcess(command, args, '', 5000);
+    return true;
+  } catch {
+    return false;
+  }
+}
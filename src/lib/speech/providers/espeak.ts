@@ -0,0 +1,48 @@
+import { getLanguageName } from '@/lib/languages';
+import { logger, loggedText } from '@/lib/logger';
+import { commandExists, runProcess } from '../process';
+import { SpeechProvider, SpeechRequest, SynthesizedSpeech, Voice } from '../types';
+
+const ESPEAK_BINARY = process.env.ESPEAK_BINARY || 'espeak-ng';
+
+// eSpeak voice names that differ from our language codes. Regional picks
+// follow the translation prompts: Latin American Spanish, Brazilian Portuguese.
+const VOICE_NAMES: Record<string, string> = {
+  en: 'en-us',
+  es: 'es-419',
+  pt: 'pt-br',
+  zh: 'cmn',
+  no: 'nb'
+};
+
+let available: boolean | null = null;
+
+export const espeakProvider: SpeechProvider = {
+  name: 'espeak',
+  label: 'eSpeak NG (offline)',
+
+  async isAvailable(): Promise<boolean> {
+    if (available === null) {
+      available = await commandExists(ESPEAK_BINARY, ['--version']);
+    }
+    return available;
+  },
+
+  async voices(language: string): Promise<Voice[]> {
+    const base = VOICE_NAMES[language] || language;
+    const name = getLanguageName(language);
+    return [
+      { id: `${base}+m3`, name: `${name} (male)`, language },
+      { id: `${base}+f3`, name: `${name} (female)`, language }
+    ];
+  },
+
+  async synthesize({ text, language, voice, requestId }: SpeechRequest): Promise<SynthesizedSpeech> {
+    const voiceId = voice || (await this.voices(language))[0].id;
+    logger.debug('eSpeak synthesis', { requestId, voice: voiceId, text: loggedText(text) });
+
+    // With no text argument espeak-ng reads stdin; --stdout writes a WAV file
+    const audio = await runProcess(ESPEAK_BINARY, ['--stdout', '-v', voiceId, '-s', '160'], text);
+    return { audio, mimeType: 'audio/wav' };
+  }
+};
@@ -0,0 +1,31 @@
+import { getOpenAIClient } from '@/lib/openai';
+import { logger, loggedText } from '@/lib/logger';
+import { SpeechProvider, SpeechRequest, SynthesizedSpeech, Voice } from '../types';
+
+// OpenAI voices are multilingual, so every language gets the same list
+const VOICES = ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'];
+
+export const openAISpeechProvider: SpeechProvider = {
+  name: 'openai',
+  label: 'OpenAI TTS',
+
+  async isAvailable(): Promise<boolean> {
+    return Boolean(process.env.OPENAI_API_KEY);
+  },
+
+  async voices(language: string): Promise<Voice[]> {
+    return VOICES.map(id => ({ id, name: id.charAt(0).toUpperCase() + id.slice(1), language }));
+  },
+
+  async synthesize({ text, voice, requestId }: SpeechRequest): Promise<SynthesizedSpeech> {
+    logger.debug('OpenAI TTS synthesis', { requestId, voice: voice || VOICES[0], text: loggedText(text) });
+
+    const response = await getOpenAIClient().audio.speech.create({
+      model: 'tts-1',
+      voice: voice || VOICES[0],
+      input: text,
+      response_format: 'mp3'
+    });
+    return { audio: Buffer.from(await response.arrayBuffer()), mimeType: 'audio/mpeg' };
+  }
+};
@@ -0,0 +1,67 @@
+import { readdir, readFile, unlink } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { logger, loggedText } from '@/lib/logger';
+import { runProcess } from '../process';
+import { SpeechProvider, SpeechRequest, SynthesizedSpeech, UnknownVoiceError, Voice } from '../types';
+
+const PIPER_BINARY = process.env.PIPER_BINARY || 'piper';
+
+// Directory of downloaded Piper voices, named the way Piper publishes them:
+// <lang>_<REGION>-<name>-<quality>.onnx (plus the matching .onnx.json)
+function getVoicesDir(): string | undefined {
+  return process.env.PIPER_VOICES_DIR;
+}
+
+async function listVoiceFiles(): Promise<string[]> {
+  const dir = getVoicesDir();
+  if (!dir) {
+    return [];
+  }
+  try {
+    return (await readdir(dir)).filter(file => file.endsWith('.onnx'));
+  } catch {
+    return [];
+  }
+}
+
+export const piperProvider: SpeechProvider = {
+  name: 'piper',
+  label: 'Piper (offline)',
+
+  async isAvailable(): Promise<boolean> {
+    return (await listVoiceFiles()).length > 0;
+  },
+
+  async voices(language: string): Promise<Voice[]> {
+    const files = await listVoiceFiles();
+    return files
+      .filter(file => file.startsWith(`${language}_`))
+      .map(file => {
+        const id = file.replace(/\.onnx$/, '');
+        const [locale, name, quality] = id.split('-');
+        return { id, name: `${name} (${locale}, ${quality})`, language };
+      });
+  },
+
+  async synthesize({ text, language, voice, requestId }: SpeechRequest): Promise<SynthesizedSpeech> {
+    // The voice names a model file, so only installed voices are accepted
+    const installed = await this.voices(language);
+    if (voice && !installed.some(v => v.id === voice)) {
+      throw new UnknownVoiceError(voice, language);
+    }
+    const voiceId = voice || installed[0]?.id;
+    if (!voiceId) {
+      throw new Error(`No Piper voice installed for ${language}`);
+    }
+    logger.debug('Piper synthesis', { requestId, voice: voiceId, text: loggedText(text) });
+
+    const outputPath = join(tmpdir(), `speech_${requestId}_${Date.now()}.wav`);
+    try {
+      await runProcess(PIPER_BINARY, ['--model', join(getVoicesDir()!, `${voiceId}.onnx`), '--output_file', outputPath], text);
+      return { audio: await readFile(outputPath), mimeType: 'audio/wav' };
+    } finally {
+      await unlink(outputPath).catch(() => {});
+    }
+  }
+};
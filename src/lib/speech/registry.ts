@@ -0,0 +1,46 @@
+import { SpeechProvider } from './types';
+import { espeakProvider } from './providers/espeak';
+import { piperProvider } from './providers/piper';
+import { openAISpeechProvider } from './providers/openai';
+
+const providers = new Map<string, SpeechProvider>();
+
+export class UnknownSpeechProviderError extends Error {
+  constructor(name: string) {
+    super(`Unknown speech provider "${name}". Available: ${listSpeechProviders().map(p => p.name).join(', ')}`);
+    this.name = 'UnknownSpeechProviderError';
+  }
+}
+
+export class SpeechProviderUnavailableError extends Error {
+  constructor(name: string) {
+    super(`Speech provider "${name}" is not available on this server`);
+    this.name = 'SpeechProviderUnavailableError';
+  }
+}
+
+export function registerSpeechProvider(provider: SpeechProvider) {
+  providers.set(provider.name, provider);
+}
+
+export function getSpeechProvider(name: string): SpeechProvider {
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new UnknownSpeechProviderError(name);
+  }
+  return provider;
+}
+
+export function listSpeechProviders(): SpeechProvider[] {
+  return Array.from(providers.values());
+}
+
+// Offline engine unless the deployment picks another one
+export function getDefaultSpeechProviderName(): string {
+  return process.env.TTS_PROVIDER || 'espeak';
+}
+
+// Built-in providers
+registerSpeechProvider(espeakProvider);
+registerSpeechProvider(piperProvider);
+registerSpeechProvider(openAISpeechProvider);
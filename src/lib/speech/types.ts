@@ -0,0 +1,32 @@
+export interface SpeechRequest {
+  text: string;
+  language: string; // ISO 639-1 code
+  voice?: string; // provider-specific voice id; omit for the language default
+  requestId: string;
+}
+
+export class UnknownVoiceError extends Error {
+  constructor(voice: string, language: string) {
+    super(`Unknown voice "${voice}" for ${language}`);
+    this.name = 'UnknownVoiceError';
+  }
+}
+
+export interface SynthesizedSpeech {
+  audio: Buffer;
+  mimeType: string;
+}
+
+export interface Voice {
+  id: string;
+  name: string;
+  language: string;
+}
+
+export interface SpeechProvider {
+  name: string;
+  label: string;
+  isAvailable(): Promise<boolean>;
+  voices(language: string): Promise<Voice[]>;
+  synthesize(request: SpeechRequest): Promise<SynthesizedSpeech>;
+}
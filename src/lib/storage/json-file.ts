@@ -0,0 +1,55 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+
+// Small helpers for the JSON files the server keeps under DATA_DIR.
+// Writes go to a temp file first and are renamed into place, and writes to the
+// same path are serialized so concurrent requests can't interleave.
+
+const writeQueues = new Map<string, Promise<unknown>>();
+
+export function getDataDir(): string {
+  return process.env.DATA_DIR || join(process.cwd(), 'data');
+}
+
+export function dataPath(...parts: string[]): string {
+  return join(getDataDir(), ...parts);
+}
+
+export async function readJsonFile<T>(path: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await readFile(path, 'utf8')) as T;
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+export async function writeJsonFile(path: string, value: unknown): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const tempPath = `${path}.${process.pid}.${Date.now()}.tmp`;
+  await writeFile(tempPath, JSON.stringify(value, null, 2));
+  await rename(tempPath, path);
+}
+
+// Read-modify-write under a per-path lock. `update` returns the new value.
+export function updateJsonFile<T>(path: string, fallback: T, update: (current: T) => T | Promise<T>): Promise<T> {
+  const previous = writeQueues.get(path) || Promise.resolve();
+  const next = previous
+    .catch(() => {})
+    .then(async () => {
+      const current = await readJsonFile(path, fallback);
+      const updated = await update(current);
+      await writeJsonFile(path, updated);
+      return updated;
+    });
+
+  writeQueues.set(path, next);
+  next.finally(() => {
+    if (writeQueues.get(path) === next) {
+      writeQueues.delete(path);
+    }
+  }).catch(() => {});
+  return next;
+}
@@ -0,0 +1,173 @@
+import { concatPCM, STREAM_SAMPLE_RATE } from '@/lib/audio/pcm';
+import { VAD_FRAME_SAMPLES, VadOptions, VadStatus, VoiceActivityDetector } from '@/lib/audio/vad';
+import { metrics } from '@/lib/metrics';
+
+// Cuts the continuous stream into chunks on speech boundaries. Frames go
+// through the voice activity detector one at a time; a chunk opens (with a
+// little pre-roll so the first consonant isn't clipped) when speech starts and
+// closes when it ends. Long stretches of speech are cut early at a short
+// pause, or, when there is none, at the quietest moment near MAX_CHUNK_MS -
+// only those forced cuts repeat audio into the next window.
+
+export type ChunkReason = 'speech-end' | 'pause' | 'max-length' | 'flush';
+
+export interface SpeechChunk {
+  samples: Int16Array; // audio to transcribe, including any overlap
+  newSamples: number; // how much of it was not in the previous chunk
+  overlapSeconds: number;
+  reason: ChunkReason;
+}
+
+export interface SpeechChunkerOptions {
+  overlapMs: number;
+  vad?: Partial<VadOptions>;
+  onChunk: (chunk: SpeechChunk) => void;
+  onPause: () => void; // the speaker has been silent for PAUSE_MS
+  onStatus: (status: VadStatus) => void;
+}
+
+const FRAME_MS = (VAD_FRAME_SAMPLES / STREAM_SAMPLE_RATE) * 1000;
+const PRE_ROLL_MS = 200; // Audio kept from before speech onset
+const MIN_CHUNK_MS = 1500; // Don't cut at micro-pauses before a chunk is this long
+const MAX_CHUNK_MS = 3000; // Force a cut if the speaker never pauses
+const CUT_SEARCH_MS = 500; // Forced cuts land on the quietest frame this close to the end
+const MICRO_PAUSE_MS = 120; // A dip this long inside speech is a good place to cut
+const MIN_SPEECH_MS = 200; // Shorter bursts are clicks and coughs
+const PAUSE_MS = 1000; // Silence after speech that ends the utterance
+
+const frames = (ms: number) => Math.round(ms / FRAME_MS);
+
+interface Frame {
+  samples: Int16Array;
+  level: number;
+}
+
+export class SpeechChunker {
+  private readonly vad: VoiceActivityDetector;
+  private remainder: Int16Array = new Int16Array(0);
+  private preRoll: Frame[] = [];
+  private segment: Frame[] = [];
+  private dipFrames = 0; // consecutive sub-threshold frames inside the segment
+  private silentFrames = 0; // frames since the last chunk ended
+  private pauseSent = true; // no utterance to close before the first speech
+  private overlapTail: Int16Array | null = null; // set only after a forced cut
+
+  constructor(private readonly options: SpeechChunkerOptions) {
+    this.vad = new VoiceActivityDetector(options.vad);
+  }
+
+  push(samples: Int16Array) {
+    const all = this.remainder.length > 0 ? concatPCM([this.remainder, samples]) : samples;
+    let offset = 0;
+    for (; offset + VAD_FRAME_SAMPLES <= all.length; offset += VAD_FRAME_SAMPLES) {
+      this.processFrame(all.slice(offset, offset + VAD_FRAME_SAMPLES));
+    }
+    this.remainder = all.slice(offset);
+    this.options.onStatus(this.vad.status());
+  }
+
+  private processFrame(samples: Int16Array) {
+    const wasSpeech = this.vad.isSpeech;
+    const level = this.vad.process(samples);
+    const frame = { samples, level };
+
+    if (!wasSpeech && !this.vad.isSpeech) {
+      this.preRoll.push(frame);
+      if (this.preRoll.length > frames(PRE_ROLL_MS)) {
+        this.preRoll.shift();
+      }
+      this.silentFrames++;
+      if (!this.pauseSent && this.silentFrames >= frames(PAUSE_MS)) {
+        this.pauseSent = true;
+        this.options.onPause();
+      }
+      return;
+    }
+
+    if (!wasSpeech) {
+      // Speech onset: the frames that triggered it are already in the pre-roll
+      this.segment = [...this.preRoll, frame];
+      this.preRoll = [];
+      this.dipFrames = 0;
+      this.pauseSent = false;
+      return;
+    }
+
+    this.segment.push(frame);
+    if (!this.vad.isSpeech) {
+      this.closeSegment('speech-end');
+      return;
+    }
+
+    const threshold = this.vad.threshold!;
+    this.dipFrames = level < threshold ? this.dipFrames + 1 : 0;
+    if (this.segment.length >= frames(MIN_CHUNK_MS) && this.dipFrames >= frames(MICRO_PAUSE_MS)) {
+      this.cut(this.segment.length, 'pause');
+    } else if (this.segment.length >= frames(MAX_CHUNK_MS)) {
+      this.cut(this.quietestCut(), 'max-length');
+    }
+  }
+
+  // Index just after the quietest frame among the last CUT_SEARCH_MS
+  private quietestCut(): number {
+    let best = this.segment.length - 1;
+    for (let i = this.segment.length - frames(CUT_SEARCH_MS); i < this.segment.length; i++) {
+      if (this.segment[i].level < this.segment[best].level) {
+        best = i;
+      }
+    }
+    return best + 1;
+  }
+
+  // Send the first `count` frames of the ongoing segment and keep the rest
+  private cut(count: number, reason: ChunkReason) {
+    const head = this.segment.slice(0, count);
+    this.segment = this.segment.slice(count);
+    this.dipFrames = 0;
+    this.sendChunk(head, reason);
+  }
+
+  private closeSegment(reason: ChunkReason) {
+    const segment = this.segment;
+    this.segment = [];
+    this.silentFrames = 0;
+    this.sendChunk(segment, reason);
+  }
+
+  private sendChunk(segment: Frame[], reason: ChunkReason) {
+    const samples = concatPCM(segment.map(frame => frame.samples));
+    const previousTail = this.overlapTail;
+    this.overlapTail = null;
+
+    // A closing segment that is nothing but a click is dropped; mid-speech pieces always count
+    const isFragment = reason === 'speech-end' || reason === 'flush';
+    if (samples.length === 0) {
+      return;
+    }
+    if (isFragment && !previousTail && segment.length < frames(MIN_SPEECH_MS)) {
+      metrics.skippedChunks.inc({ reason: 'short_burst' });
+      return;
+    }
+
+    if (reason === 'max-length') {
+      // Cut mid-word possibly: the next window repeats the end of this one
+      const overlapSamples = Math.min((this.options.overlapMs / 1000) * STREAM_SAMPLE_RATE, samples.length);
+      this.overlapTail = overlapSamples > 0 ? samples.slice(samples.length - overlapSamples) : null;
+    }
+
+    const window = previousTail ? concatPCM([previousTail, samples]) : samples;
+    this.options.onChunk({
+      samples: window,
+      newSamples: samples.length,
+      overlapSeconds: (window.length - samples.length) / STREAM_SAMPLE_RATE,
+      reason
+    });
+  }
+
+  // Send whatever speech is still open, e.g. when the stream closes
+  flush() {
+    if (this.segment.length > 0) {
+      this.closeSegment('flush');
+    }
+  }
+}
@@ -0,0 +1,206 @@
+import { downsample, floatTo16BitPCM, concatPCM } from '@/lib/audio/pcm';
+import { SpeakerId } from '@/types/conversation';
+import { StreamEvent } from './types';
+
+// Browser side of the streaming endpoint: captures the microphone as one
+// continuous PCM stream, uploads it in small sequenced frames and relays the
+// server's events. Nothing is stopped or restarted between frames, so no
+// audio is lost at chunk boundaries.
+
+export interface StreamingClientOptions {
+  config: Record<string, unknown>; // body for POST /api/stream
+  onEvent: (event: StreamEvent) => void;
+  onError: (message: string, requestId?: string) => void;
+}
+
+// Failure from one of the stream endpoints, with the server's request ID for support
+export class StreamRequestError extends Error {
+  constructor(message: string, readonly requestId?: string) {
+    super(message);
+    this.name = 'StreamRequestError';
+  }
+}
+
+const REQUEST_ID_HEADER = 'x-request-id';
+
+const FRAME_INTERVAL_MS = 250; // How often captured audio is uploaded
+const PROCESSOR_BUFFER_SIZE = 4096;
+const CLOSE_TIMEOUT_MS = 30000; // Give the server time to finish the last utterance
+const UPLOAD_ATTEMPTS = 3; // A frame that still fails is skipped by the server after a few seconds
+const UPLOAD_RETRY_DELAY_MS = 200; // Doubled after each failed try
+
+export class StreamingClient {
+  private streamId: string | null = null;
+  private events: EventSource | null = null;
+  private mediaStream: MediaStream | null = null;
+  private audioContext: AudioContext | null = null;
+  private processor: ScriptProcessorNode | null = null;
+  private captured: Int16Array[] = [];
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  private seq = 0;
+  private uploads: Promise<void> = Promise.resolve();
+  private muted = false;
+  private limited = false; // the server refused audio (quota); stop uploading
+
+  constructor(private readonly options: StreamingClientOptions) {}
+
+  async start() {
+    const response = await fetch('/api/stream', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(this.options.config)
+    });
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new StreamRequestError(
+        body.error || `Could not open stream: ${response.status} ${response.statusText}`,
+        response.headers.get(REQUEST_ID_HEADER) || body.requestId
+      );
+    }
+    const { id } = await response.json();
+    this.streamId = id;
+
+    this.events = new EventSource(`/api/stream/${id}/events`);
+    ['partial', 'final', 'vad', 'error', 'closed'].forEach(type => {
+      this.events!.addEventListener(type, (message) => {
+        // Connection errors also arrive as 'error' events, but without data
+        if (!(message as MessageEvent).data) {
+          return;
+        }
+        const event = JSON.parse((message as MessageEvent).data) as StreamEvent;
+        if (event.type === 'closed') {
+          this.events?.close();
+          this.events = null;
+        }
+        this.options.onEvent(event);
+      });
+    });
+
+    this.mediaStream = await navigator.mediaDevices.getUserMedia({
+      audio: {
+        echoCancellation: true,
+        noiseSuppression: true,
+        sampleRate: 16000
+      }
+    });
+
+    this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    const source = this.audioContext.createMediaStreamSource(this.mediaStream);
+    this.processor = this.audioContext.createScriptProcessor(PROCESSOR_BUFFER_SIZE, 1, 1);
+    const inputRate = this.audioContext.sampleRate;
+
+    this.processor.onaudioprocess = (event) => {
+      const input = event.inputBuffer.getChannelData(0);
+      const samples = floatTo16BitPCM(downsample(input, inputRate));
+      // Muted frames are still sent as silence so the server's timeline stays continuous
+      this.captured.push(this.muted ? new Int16Array(samples.length) : samples);
+    };
+
+    // The processor only runs while connected to the destination; its output stays silent
+    source.connect(this.processor);
+    this.processor.connect(this.audioContext.destination);
+
+    this.flushTimer = setInterval(() => this.flush(), FRAME_INTERVAL_MS);
+  }
+
+  private flush() {
+    if (!this.streamId || this.captured.length === 0) {
+      return;
+    }
+    if (this.limited) {
+      this.captured = [];
+      return;
+    }
+
+    const frame = concatPCM(this.captured);
+    this.captured = [];
+    const seq = this.seq++;
+    const streamId = this.streamId;
+
+    // Uploads are chained so the server sees frames in order
+    this.uploads = this.uploads.then(async () => {
+      try {
+        const response = await this.uploadFrame(streamId, seq, frame);
+        if (response.status === 429) {
+          const body = await response.json().catch(() => ({}));
+          this.limited = true;
+          this.options.onError(body.error || 'Usage limit reached', response.headers.get(REQUEST_ID_HEADER) || undefined);
+        } else if (!response.ok) {
+          this.options.onError(`Audio upload failed: ${response.status} ${response.statusText}`, response.headers.get(REQUEST_ID_HEADER) || undefined);
+        }
+      } catch (err) {
+        this.options.onError(`Audio upload failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      }
+    });
+  }
+
+  // Network errors and server errors are retried; other statuses are final
+  private async uploadFrame(streamId: string, seq: number, frame: Int16Array): Promise<Response> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await fetch(`/api/stream/${streamId}/audio?seq=${seq}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/octet-stream' },
+          body: frame.buffer as ArrayBuffer // concatPCM always returns a fresh, unshared buffer
+        });
+        if (response.status < 500 || attempt >= UPLOAD_ATTEMPTS) {
+          return response;
+        }
+      } catch (err) {
+        if (attempt >= UPLOAD_ATTEMPTS) {
+          throw err;
+        }
+      }
+      await new Promise(resolve => setTimeout(resolve, UPLOAD_RETRY_DELAY_MS * 2 ** (attempt - 1)));
+    }
+  }
+
+  // Muted while translations are spoken aloud, so the speaker isn't transcribed
+  setMuted(muted: boolean) {
+    this.muted = muted;
+  }
+
+  // Conversation mode, tap-to-switch
+  async setSpeaker(speaker: SpeakerId) {
+    if (!this.streamId) {
+      return;
+    }
+    const response = await fetch(`/api/stream/${this.streamId}/speaker`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ speaker })
+    });
+    if (!response.ok) {
+      this.options.onError(`Could not switch speaker: ${response.status} ${response.statusText}`, response.headers.get(REQUEST_ID_HEADER) || undefined);
+    }
+  }
+
+  async stop() {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    this.processor?.disconnect();
+    this.processor = null;
+    this.mediaStream?.getTracks().forEach(track => track.stop());
+    this.mediaStream = null;
+    await this.audioContext?.close().catch(() => {});
+    this.audioContext = null;
+
+    this.flush();
+    await this.uploads;
+
+    if (this.streamId) {
+      const streamId = this.streamId;
+      this.streamId = null;
+      // The server flushes the tail, emits the last `final` and then `closed`
+      await fetch(`/api/stream/${streamId}`, { method: 'DELETE' }).catch(() => {});
+    }
+
+    const events = this.events;
+    if (events) {
+      setTimeout(() => events.close(), CLOSE_TIMEOUT_MS);
+    }
+  }
+}
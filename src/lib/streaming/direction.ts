@@ -0,0 +1,59 @@
+import { LanguageDecision } from '@/lib/language';
+
+// Auto direction: which of the conversation's two languages is being spoken,
+// decided segment by segment. Switching needs evidence to pile up, so a lone
+// borrowed word ("gracias", "okay") or one shaky detection doesn't flip the
+// translation direction; a clear sentence in the other language does.
+
+const SWITCH_THRESHOLD = 0.6; // evidence needed to change language
+const FULL_WEIGHT_WORDS = 3; // shorter segments count for proportionally less
+
+export interface LanguageVote {
+  language: string;
+  confidence: number;
+}
+
+function wordCount(text: string): number {
+  return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+// What the decision says about the two conversation languages, or null when it
+// says nothing about either (e.g. a third language, or too little text)
+export function voteFor(decision: LanguageDecision, languages: string[]): LanguageVote | null {
+  if (decision.method !== 'default' && decision.method !== 'unknown' && languages.indexOf(decision.language) >= 0) {
+    return { language: decision.language, confidence: decision.confidence };
+  }
+  // Otherwise the best of the text identifier's guesses that is one of them
+  const guesses = decision.text ? [decision.text, ...decision.text.alternatives] : [];
+  const guess = guesses.find(g => languages.indexOf(g.language) >= 0);
+  return guess ? { language: guess.language, confidence: guess.confidence } : null;
+}
+
+export class DirectionTracker {
+  private pending = 0;
+
+  constructor(private readonly languages: [string, string], private current: string = languages[0]) {}
+
+  get language(): string {
+    return this.current;
+  }
+
+  // Feed one transcribed segment; returns the language it should be treated as
+  observe(decision: LanguageDecision, text: string): string {
+    const vote = voteFor(decision, this.languages);
+    if (!vote) {
+      return this.current;
+    }
+    if (vote.language === this.current) {
+      this.pending = 0;
+      return this.current;
+    }
+
+    this.pending += vote.confidence * Math.min(1, wordCount(text) / FULL_WEIGHT_WORDS);
+    if (this.pending >= SWITCH_THRESHOLD) {
+      this.current = vote.language;
+      this.pending = 0;
+    }
+    return this.current;
+  }
+}
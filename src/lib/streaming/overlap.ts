@@ -0,0 +1,68 @@
+import { TranscriptWord } from '@/lib/transcription/types';
+
+// Consecutive stream windows share a little audio so no word is cut in half
+// at a chunk boundary. That shared audio is transcribed twice; these helpers
+// remove the repeat so the stitched transcript has no doubled or missing words.
+
+const MAX_OVERLAP_WORDS = 8; // far more than fits in half a second of speech
+const TIMESTAMP_TOLERANCE_S = 0.05;
+const NON_WORD_CHARACTERS = new RegExp("[^\\p{L}\\p{N}']", 'gu');
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(NON_WORD_CHARACTERS, '');
+}
+
+function words(text: string): string[] {
+  return text.trim().split(/\s+/).filter(Boolean);
+}
+
+// With word timings: drop words that lie entirely inside the leading overlap.
+// A word straddling the boundary is kept; it was the one cut in the previous window.
+export function trimOverlapByTimestamps(transcriptWords: TranscriptWord[], overlapSeconds: number): string {
+  return transcriptWords
+    .filter(word => word.end > overlapSeconds + TIMESTAMP_TOLERANCE_S)
+    .map(word => word.word)
+    .join(' ');
+}
+
+export interface OverlapAlignment {
+  text: string; // `next` without the words it repeats from `previous`
+  replacesPartial: boolean; // previous text ended in a cut-off word that `text` now starts with in full
+}
+
+// Without timings (or to clean up after them): find the longest run of words
+// that ends `previous` and starts `next`, and drop it from `next`. The last
+// word of `previous` may be a fragment ("sto") of the full word in `next` ("store").
+export function alignOverlap(previous: string, next: string): OverlapAlignment {
+  const before = words(previous).map(normalizeWord);
+  const afterRaw = words(next);
+  const after = afterRaw.map(normalizeWord);
+  const maxLength = Math.min(MAX_OVERLAP_WORDS, before.length, after.length);
+
+  for (let length = maxLength; length >= 1; length--) {
+    const tail = before.slice(before.length - length);
+    const head = after.slice(0, length);
+    const leading = tail.slice(0, -1).every((word, i) => word === head[i]);
+    if (!leading) {
+      continue;
+    }
+
+    const lastBefore = tail[length - 1];
+    const lastAfter = head[length - 1];
+    if (lastBefore === lastAfter && lastBefore !== '') {
+      return { text: afterRaw.slice(length).join(' '), replacesPartial: false };
+    }
+    // Fragment: keep the full word from `next` and let the caller drop the fragment
+    if (lastBefore.length >= 2 && lastAfter.startsWith(lastBefore) && lastAfter.length > lastBefore.length) {
+      return { text: afterRaw.slice(length - 1).join(' '), replacesPartial: true };
+    }
+  }
+
+  return { text: next.trim(), replacesPartial: false };
+}
+
+// Drop the last word, used when the next window replaces a cut-off fragment
+export function dropLastWord(text: string): string {
+  const all = words(text);
+  return all.slice(0, -1).join(' ');
+}
@@ -0,0 +1,52 @@
+import { logger } from '@/lib/logger';
+import { StreamSession } from './stream-session';
+import { StreamOptions } from './types';
+
+// Streams live in process memory, so the app must run as a single long-lived
+// Node server (`next start`), just like the local Whisper worker pool.
+
+const IDLE_TIMEOUT_MS = 60000; // Close streams that stop sending audio
+const SWEEP_INTERVAL_MS = 15000;
+
+const globalForStreams = globalThis as unknown as {
+  streamSessions?: Map<string, StreamSession>;
+  streamSweeper?: NodeJS.Timeout;
+};
+
+function getSessions(): Map<string, StreamSession> {
+  if (!globalForStreams.streamSessions) {
+    globalForStreams.streamSessions = new Map();
+    globalForStreams.streamSweeper = setInterval(sweepIdleStreams, SWEEP_INTERVAL_MS);
+    globalForStreams.streamSweeper.unref();
+  }
+  return globalForStreams.streamSessions;
+}
+
+function sweepIdleStreams() {
+  const now = Date.now();
+  getSessions().forEach((session) => {
+    if (now - session.lastActivity > IDLE_TIMEOUT_MS) {
+      logger.info('Stream idle, closing', { streamId: session.id, idleMs: IDLE_TIMEOUT_MS });
+      closeStream(session);
+    }
+  });
+}
+
+export function createStream(userId: string, options: StreamOptions): StreamSession {
+  const session = new StreamSession(userId, options);
+  getSessions().set(session.id, session);
+  logger.info('Stream opened', { streamId: session.id, userId, options });
+  return session;
+}
+
+// Returns undefined for unknown ids and for streams owned by someone else
+export function getStream(id: string, userId: string): StreamSession | undefined {
+  const session = getSessions().get(id);
+  return session && session.userId === userId ? session : undefined;
+}
+
+export async function closeStream(session: StreamSession) {
+  getSessions().delete(session.id);
+  await session.close();
+  logger.info('Stream closed', { streamId: session.id });
+}
@@ -0,0 +1,66 @@
+import { TranscriptionResult } from '@/types/transcript';
+
+// Decides where one utterance unit ends and the next begins while chunk
+// transcripts arrive. A unit is what gets re-translated as a whole once it is
+// complete, so boundaries should fall between sentences rather than inside them.
+//
+// Whisper tends to punctuate every 1.5s chunk as if it were a full sentence,
+// so a trailing period alone is not trusted: the next chunk also has to look
+// like the start of a new sentence.
+
+export type UnitBoundary =
+  | 'sentence' // previous text ended a sentence and the new chunk starts one
+  | 'pause' // the speaker went quiet
+  | 'speaker' // conversation mode: someone else is talking
+  | 'language' // auto direction: the other language is being spoken now
+  | 'gap' // too long since the unit last grew
+  | 'max-duration'; // keep units short enough to re-translate quickly
+
+export const MERGE_WINDOW_MS = 8000; // 8 seconds to merge chunks - longer for smoother flow
+const MAX_UNIT_SECONDS = 15;
+const MIN_SENTENCE_WORDS = 3; // "Okay." on its own is usually a fragment, keep going
+
+const SENTENCE_END = /[.!?…。！？]["'”»)]*$/;
+const SENTENCE_START = new RegExp('^["\'“«(¿¡]*[\\p{Lu}\\p{Lo}\\d]', 'u'); // capital letter, or a script without case
+
+export function endsSentence(text: string): boolean {
+  return SENTENCE_END.test(text.trim());
+}
+
+export function startsSentence(text: string): boolean {
+  return SENTENCE_START.test(text.trim());
+}
+
+function wordCount(text: string): number {
+  return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+// Why `chunk` can't be merged into `unit`, or null when it continues it
+export function boundaryBefore(unit: TranscriptionResult, chunk: TranscriptionResult): UnitBoundary | null {
+  if (unit.speaker !== chunk.speaker) {
+    return 'speaker';
+  }
+  if (unit.language !== chunk.language) {
+    return 'language';
+  }
+  if (chunk.timestamp - unit.timestamp >= MERGE_WINDOW_MS) {
+    return 'gap';
+  }
+  if ((unit.duration || 0) >= MAX_UNIT_SECONDS) {
+    return 'max-duration';
+  }
+  if (endsSentence(unit.text) && startsSentence(chunk.text) && wordCount(unit.text) >= MIN_SENTENCE_WORDS) {
+    return 'sentence';
+  }
+  return null;
+}
+
+// Join chunk transcripts, dropping the period Whisper put on a fragment
+// that the next chunk continues in lower case
+export function joinText(previous: string, next: string): string {
+  const trimmed = previous.trim();
+  if (trimmed.endsWith('.') && !trimmed.endsWith('...') && !startsSentence(next)) {
+    return `${trimmed.slice(0, -1)} ${next.trim()}`;
+  }
+  return `${trimmed} ${next.trim()}`;
+}
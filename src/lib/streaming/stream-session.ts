@@ -0,0 +1,443 @@
+import { randomUUID } from 'crypto';
+import { NO_TRANSLATION, transcribe, translateTranscript } from '@/lib/pipeline';
+import { chooseDirection } from '@/lib/language';
+import { STREAM_SAMPLE_RATE } from '@/lib/audio/pcm';
+import { encodeWav } from '@/lib/audio/wav';
+import { appendEntry, getSession } from '@/lib/sessions/store';
+import { toContextTurn } from '@/lib/translation/context';
+import { ContextTurn } from '@/lib/translation/types';
+import { TranscriptionResult } from '@/types/transcript';
+import { Participant, SpeakerId } from '@/types/conversation';
+import { StreamEvent, StreamOptions } from './types';
+import { boundaryBefore, joinText, MERGE_WINDOW_MS, UnitBoundary } from './segmenter';
+import { alignOverlap, dropLastWord, trimOverlapByTimestamps } from './overlap';
+import { SpeechChunk, SpeechChunker } from './chunker';
+import { DirectionTracker } from './direction';
+import { Logger, logger, loggedText, redactText } from '@/lib/logger';
+import { errorClass, metrics } from '@/lib/metrics';
+
+// A streaming session receives continuous 16 kHz PCM frames, cuts them into
+// chunks server-side on speech boundaries found by voice activity detection
+// (so no audio is dropped between chunks and silence is never transcribed),
+// transcribes and translates each chunk, and merges chunks into utterances. Subscribers get
+// `partial` events while an utterance grows and a `final` event when it closes.
+// Partial translations are stitched together from chunk translations; once the
+// segmenter decides an utterance is complete it is re-translated as a whole
+// and the `final` event carries that translation instead.
+//
+// When someone talks without pausing the chunker has to cut mid-speech; the
+// window after such a cut repeats the last OVERLAP_MS of the previous one, so
+// words spoken across the boundary are heard whole at least once. The repeated
+// words are trimmed before translation.
+//
+// In conversation mode each utterance also belongs to one of two participants,
+// either picked by the client (tap-to-switch) or inferred from the language
+// Whisper hears, and is translated into the other participant's language.
+// Inferring it (and auto direction outside conversation mode) goes through a
+// DirectionTracker, so one stray word in the other language doesn't flip it.
+
+type Listener = (event: StreamEvent) => void;
+
+const OVERLAP_MS = 500; // Audio repeated into the window after a forced mid-speech cut
+const MIN_TEXT_LENGTH = 3; // Minimum characters to consider valid transcription
+const BACKLOG_SIZE = 20; // Events replayed to a subscriber that reconnects
+const HISTORY_SIZE = 20; // Finalized utterances kept as translation context
+// A frame whose upload was lost for good must not stall the stream: frames
+// held back behind a gap are capped, and the gap is skipped after a while
+const MAX_BUFFERED_FRAMES = 16; // about 4 s of audio at the client's frame rate
+const FRAME_GAP_TIMEOUT_MS = 3000;
+
+export class StreamSession {
+  readonly id = randomUUID();
+  readonly createdAt = Date.now();
+  lastActivity = Date.now();
+  closed = false;
+
+  private listeners = new Set<Listener>();
+  private backlog: StreamEvent[] = [];
+  private readonly chunker: SpeechChunker;
+  private nextSeq = 0;
+  private outOfOrder = new Map<number, Int16Array>();
+  private gapSince: number | null = null; // when frames started waiting for a missing one
+  private chunkIndex = 0;
+  private processing: Promise<void> = Promise.resolve();
+  private current: TranscriptionResult | null = null;
+  private currentChunks = 0;
+  private lastChunkText = '';
+  private finishing: Promise<void> = Promise.resolve();
+  private saving: Promise<void> = Promise.resolve();
+  private history: ContextTurn[] | null = null;
+  private readonly direction: DirectionTracker | null;
+  private readonly log: Logger;
+
+  constructor(readonly userId: string, readonly options: StreamOptions) {
+    this.log = logger.child({ streamId: this.id });
+    const { conversation } = options;
+    this.direction = conversation?.speakerMode === 'detect'
+      ? new DirectionTracker([conversation.participants[0].language, conversation.participants[1].language])
+      : options.autoDirection && !conversation
+        ? new DirectionTracker([options.sourceLanguage, options.targetLanguage])
+        : null;
+    this.chunker = new SpeechChunker({
+      overlapMs: options.overlapMs ?? OVERLAP_MS,
+      onChunk: chunk => this.enqueueChunk(chunk),
+      // Silence closes the utterance, after the chunks already queued
+      onPause: () => {
+        this.processing = this.processing.then(() => this.finalizeCurrent('pause'));
+      },
+      // Live level meter: sent to whoever is listening now, never replayed
+      onStatus: vad => this.listeners.forEach(listener => listener({ type: 'vad', vad }))
+    });
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.backlog.forEach(listener);
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private emit(event: StreamEvent) {
+    this.backlog.push(event);
+    if (this.backlog.length > BACKLOG_SIZE) {
+      this.backlog.shift();
+    }
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  // Frames carry a sequence number because concurrent uploads may arrive out of order
+  appendAudio(seq: number, samples: Int16Array) {
+    if (this.closed) {
+      throw new Error('Stream is closed');
+    }
+    this.lastActivity = Date.now();
+
+    if (seq < this.nextSeq) {
+      return; // duplicate, or a frame already given up on
+    }
+    this.outOfOrder.set(seq, samples);
+    this.pushReadyFrames();
+
+    if (this.gapSince !== null && (this.outOfOrder.size > MAX_BUFFERED_FRAMES || Date.now() - this.gapSince >= FRAME_GAP_TIMEOUT_MS)) {
+      this.skipGap();
+    }
+  }
+
+  private pushReadyFrames() {
+    while (this.outOfOrder.has(this.nextSeq)) {
+      const frame = this.outOfOrder.get(this.nextSeq)!;
+      this.outOfOrder.delete(this.nextSeq);
+      this.nextSeq++;
+      this.chunker.push(frame);
+    }
+    this.gapSince = this.outOfOrder.size === 0 ? null : (this.gapSince ?? Date.now());
+  }
+
+  // Give up on the missing frames and carry on from the earliest one received
+  private skipGap() {
+    let earliest = Infinity;
+    this.outOfOrder.forEach((_, seq) => {
+      earliest = Math.min(earliest, seq);
+    });
+    this.log.warn('Skipping lost audio frames', { from: this.nextSeq, to: earliest - 1 });
+    this.nextSeq = earliest;
+    this.gapSince = null;
+    this.pushReadyFrames();
+  }
+
+  // Tap-to-switch: audio captured from now on belongs to `speaker`
+  setActiveSpeaker(speaker: SpeakerId) {
+    const conversation = this.options.conversation;
+    if (!conversation || conversation.activeSpeaker === speaker) {
+      return;
+    }
+    conversation.activeSpeaker = speaker;
+    // A new speaker always starts a new utterance, after the chunks already queued
+    this.processing = this.processing.then(() => this.finalizeCurrent('speaker'));
+  }
+
+  private enqueueChunk({ samples, newSamples, overlapSeconds, reason }: SpeechChunk) {
+    const index = this.chunkIndex++;
+    const speaker = this.options.conversation?.activeSpeaker;
+    this.log.debug('Chunk cut', { chunk: index, seconds: newSamples / STREAM_SAMPLE_RATE, reason });
+
+    // Chunks are processed one at a time so utterances merge in order
+    this.processing = this.processing
+      .then(() => this.processChunk(samples, newSamples, overlapSeconds, index, speaker))
+      .catch(error => {
+        const requestId = this.requestId(index);
+        this.log.error('Chunk failed', { requestId, chunk: index, error });
+        metrics.errors.inc({ stage: 'stream', class: errorClass(error) });
+        this.emit({ type: 'error', message: error instanceof Error ? redactText(error.message) : 'Unknown error', requestId });
+      });
+  }
+
+  // Chunk requests are traced as <stream prefix>-<chunk index>
+  private requestId(index: number): string {
+    return `${this.id.substring(0, 8)}-${index}`;
+  }
+
+  private participant(id: SpeakerId): Participant {
+    return this.options.conversation!.participants.find(p => p.id === id)!;
+  }
+
+  private otherParticipant(id: SpeakerId): Participant {
+    return this.options.conversation!.participants.find(p => p.id !== id)!;
+  }
+
+  // Source/target pair and language hint for the next chunk
+  private languageSettings(speaker: SpeakerId | undefined) {
+    const { conversation } = this.options;
+    if (!conversation || !speaker) {
+      return {
+        sourceLanguage: this.options.sourceLanguage,
+        targetLanguage: this.options.targetLanguage,
+        languageHint: this.direction ? undefined : this.options.languageHint,
+        detectLanguage: Boolean(this.direction)
+      };
+    }
+
+    if (conversation.speakerMode === 'manual') {
+      const current = this.participant(speaker);
+      return {
+        sourceLanguage: current.language,
+        targetLanguage: this.otherParticipant(speaker).language,
+        languageHint: current.language,
+        detectLanguage: false
+      };
+    }
+
+    const [first, second] = conversation.participants;
+    return {
+      sourceLanguage: first.language,
+      targetLanguage: second.language,
+      languageHint: undefined,
+      detectLanguage: true
+    };
+  }
+
+  // Who said it: the tapped speaker, or whoever speaks the detected language
+  private resolveSpeaker(language: string, tapped: SpeakerId): Participant {
+    const { conversation } = this.options;
+    if (conversation!.speakerMode === 'manual') {
+      return this.participant(tapped);
+    }
+    return conversation!.participants.find(p => p.language === language) || this.participant(tapped);
+  }
+
+  // Earlier utterances (including a resumed conversation's stored lines) plus
+  // the utterance this chunk may continue, oldest first
+  private async contextTurns(): Promise<ContextTurn[]> {
+    if (!this.options.contextSettings?.maxTurns) {
+      return [];
+    }
+    if (!this.history) {
+      const { sessionId } = this.options;
+      const stored = sessionId
+        ? await getSession(this.userId, sessionId).then(s => s.entries, () => [])
+        : [];
+      this.history = stored.slice(-HISTORY_SIZE).map(toContextTurn);
+    }
+    return this.current ? [...this.history, toContextTurn(this.current)] : this.history;
+  }
+
+  private async processChunk(samples: Int16Array, newSamples: number, overlapSeconds: number, index: number, speaker?: SpeakerId) {
+    const startTime = Date.now();
+    const requestId = this.requestId(index);
+
+    const pipelineOptions = {
+      requestId,
+      provider: this.options.provider,
+      translator: this.options.translator,
+      ...this.languageSettings(speaker),
+      audio: encodeWav(samples, STREAM_SAMPLE_RATE),
+      mimeType: 'audio/wav',
+      model: this.options.model,
+      responseFormat: this.options.responseFormat,
+      temperature: this.options.temperature,
+      optimize: this.options.optimize,
+      // Word timings come with verbose_json anyway; text mode falls back to text alignment
+      wordTimestamps: overlapSeconds > 0 && this.options.responseFormat === 'verbose_json',
+      userId: this.userId,
+      context: await this.contextTurns(),
+      contextSettings: this.options.contextSettings
+    };
+    const transcribed = await transcribe(pipelineOptions);
+    const { transcription, languageDecision, whisperLatency } = transcribed;
+    let { language, direction } = transcribed;
+
+    // Remove what this window repeats from the previous one
+    const heard = overlapSeconds > 0 && transcription.words
+      ? trimOverlapByTimestamps(transcription.words, overlapSeconds)
+      : transcription.text.trim();
+    const overlap = overlapSeconds > 0 ? alignOverlap(this.lastChunkText, heard) : { text: heard, replacesPartial: false };
+    const text = overlap.text;
+    if (text.length < MIN_TEXT_LENGTH) {
+      this.log.debug('Skipping short transcription', { requestId, text: loggedText(text) });
+      metrics.skippedChunks.inc({ reason: 'short_text' });
+      this.finalizeIfStale();
+      return;
+    }
+    this.lastChunkText = text;
+
+    if (this.direction) {
+      language = this.direction.observe(languageDecision, text);
+      direction = chooseDirection(language, pipelineOptions.sourceLanguage, pipelineOptions.targetLanguage);
+      if (language !== languageDecision.language) {
+        this.log.debug('Direction held', { requestId, detected: languageDecision.language, confidence: languageDecision.confidence, language });
+      }
+    }
+
+    const translation = direction
+      ? await translateTranscript({ ...pipelineOptions, text, from: direction.from, to: direction.to })
+      : NO_TRANSLATION;
+
+    const now = Date.now();
+    const chunkDuration = newSamples / STREAM_SAMPLE_RATE;
+    const participant = speaker ? this.resolveSpeaker(language, speaker) : undefined;
+    const chunk: TranscriptionResult = {
+      id: randomUUID(),
+      speaker: participant?.id,
+      speakerName: participant?.name,
+      text,
+      translatedText: translation.translatedText,
+      language,
+      targetLanguage: direction?.to,
+      timestamp: now,
+      startedAt: now - chunkDuration * 1000,
+      duration: chunkDuration,
+      translationService: translation.translationService,
+      glossaryApplied: translation.glossaryApplied.map(({ term, rendering }) => ({ term, rendering })),
+      transcriptionService: transcription.provider,
+      serverLatency: {
+        total: now - startTime,
+        whisper: whisperLatency,
+        translation: translation.latency,
+        translationCache: translation.translationCache
+      }
+    };
+    metrics.requestLatency.observeMs({ route: 'stream', provider: this.options.provider, translator: this.options.translator }, now - startTime);
+
+    const boundary = this.current ? boundaryBefore(this.current, chunk) : null;
+    if (this.current && !boundary) {
+      // Merge with current utterance
+      this.currentChunks++;
+      this.current = {
+        ...chunk,
+        id: this.current.id,
+        startedAt: this.current.startedAt,
+        duration: (this.current.duration || 0) + chunkDuration,
+        text: joinText(overlap.replacesPartial ? dropLastWord(this.current.text) : this.current.text, chunk.text),
+        translatedText: ((this.current.translatedText || '') + ' ' + (chunk.translatedText || '')).trim(),
+        glossaryApplied: [...(this.current.glossaryApplied || []), ...(chunk.glossaryApplied || [])]
+          .filter((applied, index, all) => all.findIndex(other => other.term === applied.term) === index)
+      };
+    } else {
+      if (boundary) {
+        this.finalizeCurrent(boundary);
+      }
+      this.current = chunk;
+      this.currentChunks = 1;
+    }
+
+    this.emit({ type: 'partial', utterance: this.current });
+  }
+
+  // Close the utterance once nothing has been added to it for a whole merge window
+  private finalizeIfStale() {
+    if (this.current && (Date.now() - this.current.timestamp) >= MERGE_WINDOW_MS) {
+      this.finalizeCurrent('gap');
+    }
+  }
+
+  private finalizeCurrent(reason: UnitBoundary | 'end') {
+    if (!this.current) {
+      return;
+    }
+    const utterance = this.current;
+    const chunkCount = this.currentChunks;
+    this.current = null;
+    this.currentChunks = 0;
+    this.log.info('Utterance closed', { reason, chunks: chunkCount });
+
+    const context = this.history ? [...this.history] : [];
+    const turn = toContextTurn(utterance);
+    if (this.history) {
+      this.history = [...this.history, turn].slice(-HISTORY_SIZE);
+    }
+
+    // Re-translation runs alongside the next chunks; finals still go out in order
+    this.finishing = this.finishing
+      .then(async () => {
+        const final = chunkCount > 1 ? await this.retranslate(utterance, context) : utterance;
+        turn.translation = final.translatedText || '';
+        this.emit({ type: 'final', utterance: final });
+        this.persist(final);
+      })
+      .catch(error => {
+        this.log.error('Failed to finalize utterance', { error });
+        this.emit({ type: 'final', utterance });
+        this.persist(utterance);
+      });
+  }
+
+  // Replace the stitched-together fragment translations with one translation of the whole utterance
+  private async retranslate(utterance: TranscriptionResult, context: ContextTurn[]): Promise<TranscriptionResult> {
+    if (!utterance.targetLanguage) {
+      return utterance;
+    }
+    const translation = await translateTranscript({
+      requestId: `${this.id.substring(0, 8)}-${utterance.id!.substring(0, 8)}`,
+      translator: this.options.translator,
+      userId: this.userId,
+      context,
+      contextSettings: this.options.contextSettings,
+      text: utterance.text,
+      from: utterance.language,
+      to: utterance.targetLanguage
+    });
+    if (!translation.translatedText) {
+      return utterance; // keep the provisional translation rather than nothing
+    }
+    return {
+      ...utterance,
+      translatedText: translation.translatedText,
+      translationService: translation.translationService,
+      glossaryApplied: translation.glossaryApplied.map(({ term, rendering }) => ({ term, rendering }))
+    };
+  }
+
+  private persist(utterance: TranscriptionResult) {
+    const { sessionId } = this.options;
+    if (!sessionId) {
+      return;
+    }
+    // Chained so entries are written in the order they were finalized
+    this.saving = this.saving
+      .then(() => appendEntry(this.userId, sessionId, utterance))
+      .then(() => undefined)
+      .catch(error => {
+        this.log.error('Failed to save utterance', { sessionId, error });
+        this.emit({ type: 'error', message: 'Could not save transcript to the conversation history' });
+      });
+  }
+
+  // Flush buffered audio, wait for in-flight chunks and close the last utterance
+  async close() {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+
+    if (this.outOfOrder.size > 0) {
+      this.skipGap(); // frames still waiting behind a gap that will never fill
+    }
+    this.chunker.flush();
+    await this.processing;
+
+    this.finalizeCurrent('end');
+    await this.finishing;
+    await this.saving;
+    this.emit({ type: 'closed' });
+    this.listeners.clear();
+  }
+}
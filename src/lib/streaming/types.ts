@@ -0,0 +1,30 @@
+import { TranscriptionResult } from '@/types/transcript';
+import { ConversationConfig } from '@/types/conversation';
+import { ContextSettings } from '@/lib/translation/context';
+import { VadStatus } from '@/lib/audio/vad';
+
+// Wire types shared by the streaming routes and the browser client
+
+export interface StreamOptions {
+  provider: string;
+  translator: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  model?: string;
+  languageHint?: string;
+  autoDirection?: boolean; // detect per segment whether source or target is spoken and translate the other way
+  responseFormat?: 'text' | 'verbose_json';
+  temperature?: number;
+  optimize?: boolean;
+  sessionId?: string; // finalized utterances are saved to this conversation
+  conversation?: ConversationConfig; // two-speaker mode
+  contextSettings?: ContextSettings; // previous turns given to context-aware translators
+  overlapMs?: number; // audio repeated after a forced mid-speech cut; 0 disables
+}
+
+export type StreamEvent =
+  | { type: 'partial'; utterance: TranscriptionResult }
+  | { type: 'final'; utterance: TranscriptionResult }
+  | { type: 'vad'; vad: VadStatus } // live, not replayed to reconnecting subscribers
+  | { type: 'error'; message: string; requestId?: string }
+  | { type: 'closed' };
@@ -0,0 +1,274 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { transcribeAndTranslate } from '@/lib/pipeline';
+import { getRequestUserId } from '@/lib/auth';
+import { parseClientContext, parseContextSettings, toContextTurn } from '@/lib/translation/context';
+import { ContextTurn } from '@/lib/translation/types';
+import { getSession, SessionNotFoundError } from '@/lib/sessions/store';
+import { enforceUsageLimits, usageLimitResponse } from '@/lib/usage/limits';
+import { logger, loggedText, redactText, requestIdFor } from '@/lib/logger';
+import { errorClass, metrics } from '@/lib/metrics';
+import { AllProvidersFailedError } from '@/lib/resilience/failover';
+import { circuitBreakerOptions } from '@/lib/resilience/circuit-breaker';
+import { assertAudioSize, AudioTooLargeError, prepareAudio, UnsupportedAudioError } from '@/lib/audio/ingest';
+import { getTranslator, supportsPair, UnknownTranslatorError, UnsupportedLanguagePairError } from '@/lib/translation/registry';
+import { getTranscriptionProvider, UnknownProviderError } from './registry';
+import { WorkerQueueFullError, WorkerUnavailableError } from './whisper-worker';
+
+interface HandlerDefaults {
+  provider: string;
+}
+
+// Shared POST handler for every transcription route. The provider comes from
+// `?provider=` (falling back to the route's default) so adding an engine only
+// means registering it in the registry.
+export async function handleTranscriptionRequest(request: NextRequest, defaults: HandlerDefaults) {
+  const startTime = Date.now();
+  const response = await transcriptionResponse(request, defaults);
+
+  const url = new URL(request.url);
+  const route = url.pathname;
+  metrics.requests.inc({ route, status: String(response.status) });
+  metrics.requestLatency.observeMs({
+    route,
+    provider: metricLabel(() => getTranscriptionProvider(url.searchParams.get('provider') || defaults.provider).name),
+    translator: metricLabel(() => getTranslator(url.searchParams.get('translator') || 'google').name)
+  }, Date.now() - startTime);
+  return response;
+}
+
+// Registered names only: labels taken straight from the query string would let
+// a client add series to /api/metrics without limit
+function metricLabel(resolve: () => string): string {
+  try {
+    return resolve();
+  } catch {
+    return 'invalid';
+  }
+}
+
+async function transcriptionResponse(request: NextRequest, defaults: HandlerDefaults) {
+  const requestId = requestIdFor(request);
+  const log = logger.child({ requestId });
+  const startTime = Date.now();
+
+  const url = new URL(request.url);
+  const providerName = url.searchParams.get('provider') || defaults.provider;
+  const translatorName = url.searchParams.get('translator') || 'google'; // Default to Google (37x faster than GPT-4)
+  const sourceLanguage = url.searchParams.get('source') || 'en';
+  const targetLanguage = url.searchParams.get('target') || 'es';
+
+  // Whisper optimization parameters - optimized for speed by default
+  const model = url.searchParams.get('model') || undefined;
+  const languageHint = url.searchParams.get('language') || undefined;
+  const responseFormat = url.searchParams.get('format') === 'verbose_json' ? 'verbose_json' : 'text'; // Default to fast text format
+  const temperatureParam = url.searchParams.get('temperature') || '0'; // Default to 0 for speed
+  const optimize = url.searchParams.get('optimize') !== 'false'; // Default to optimized unless explicitly disabled
+
+  // Conversation context for translators that use it
+  const contextSettings = parseContextSettings(url.searchParams.get('contextTurns'), url.searchParams.get('contextTokens'));
+  const contextSessionId = url.searchParams.get('sessionId');
+
+  log.info('Transcription request received', {
+    route: url.pathname,
+    userAgent: request.headers.get('user-agent'),
+    contentType: request.headers.get('content-type'),
+    provider: providerName,
+    translator: translatorName,
+    languagePair: `${sourceLanguage} ↔ ${targetLanguage}`,
+    whisperOptimizations: {
+      model,
+      language: languageHint,
+      format: responseFormat,
+      temperature: temperatureParam,
+      optimize
+    }
+  });
+
+  try {
+    const userId = (await getRequestUserId(request)) ?? undefined;
+    await enforceUsageLimits(request, userId ?? null);
+
+    const provider = getTranscriptionProvider(providerName);
+    const translator = getTranslator(translatorName);
+    if (!(await supportsPair(translator, sourceLanguage, targetLanguage))) {
+      throw new UnsupportedLanguagePairError(translator.name, sourceLanguage, targetLanguage);
+    }
+
+    const formData = await request.formData();
+    const audioFile = formData.get('audio') as File;
+
+    log.debug('Audio file received', {
+      name: audioFile?.name,
+      size: audioFile?.size,
+      type: audioFile?.type
+    });
+
+    if (!audioFile) {
+      log.warn('No audio file provided');
+      return NextResponse.json({ error: 'No audio file provided', requestId }, { status: 400 });
+    }
+
+    if (audioFile.size === 0) {
+      log.warn('Audio file is empty');
+      return NextResponse.json({ error: 'Audio file is empty', requestId }, { status: 400 });
+    }
+
+    assertAudioSize(audioFile.size);
+    const audio = await prepareAudio(Buffer.from(await audioFile.arrayBuffer()), requestId);
+    log.debug('Audio prepared', { container: audio.container, duration: audio.duration, transcoded: audio.transcoded });
+
+    // Prior turns come from the client's form field `context` or from a stored conversation
+    let context: ContextTurn[] = [];
+    if (translator.usesContext && contextSettings.maxTurns > 0) {
+      if (formData.get('context')) {
+        context = parseClientContext(formData.get('context'));
+      } else if (contextSessionId && userId) {
+        const session = await getSession(userId, contextSessionId);
+        context = session.entries.slice(-contextSettings.maxTurns).map(toContextTurn);
+      }
+    }
+
+    const result = await transcribeAndTranslate({
+      requestId,
+      provider: provider.name,
+      translator: translator.name,
+      sourceLanguage,
+      targetLanguage,
+      audio: audio.audio,
+      mimeType: audio.mimeType,
+      model,
+      languageHint,
+      responseFormat,
+      temperature: parseFloat(temperatureParam),
+      optimize,
+      userId,
+      context,
+      contextSettings
+    });
+
+    const totalLatency = Date.now() - startTime;
+    const { transcription } = result;
+
+    const response = {
+      text: transcription.text,
+      translatedText: result.translatedText,
+      language: result.language,
+      languageDecision: result.languageDecision,
+      targetLanguage: result.targetLanguage,
+      detected_language: transcription.language,
+      language_probability: transcription.languageProbability,
+      duration: transcription.duration,
+      segments: transcription.segments,
+      translationService: result.translationService,
+      glossaryApplied: result.glossaryApplied,
+      transcriptionService: transcription.provider,
+      fallbacks: result.fallbacks,
+      model: transcription.model,
+      providerDetails: transcription.details,
+      providerTiming: transcription.timings,
+      whisperConfig: {
+        model: transcription.model,
+        language: languageHint,
+        format: responseFormat,
+        temperature: temperatureParam,
+        optimize
+      },
+      serverLatency: {
+        total: totalLatency,
+        whisper: result.latency.whisper,
+        translation: result.latency.translation,
+        translationCache: result.latency.translationCache
+      }
+    };
+
+    log.info('Transcription request completed', {
+      text: loggedText(response.text),
+      translatedText: loggedText(response.translatedText),
+      language: response.language,
+      languageMethod: result.languageDecision.method,
+      targetLanguage: response.targetLanguage,
+      transcriptionService: response.transcriptionService,
+      translationService: response.translationService,
+      latency: response.serverLatency
+    });
+    return NextResponse.json(response);
+
+  } catch (caught) {
+    const errorLatency = Date.now() - startTime;
+
+    log.error('Transcription request failed', { error: caught, latency: errorLatency });
+    metrics.errors.inc({ stage: 'request', class: errorClass(caught) });
+
+    // The whole fallback chain failed: answer as the requested provider did, and list what was tried
+    const fallbacks = caught instanceof AllProvidersFailedError ? { transcription: caught.fallbacks } : undefined;
+    if (caught instanceof AllProvidersFailedError && caught.primaryError === undefined) {
+      return NextResponse.json(
+        { error: 'No transcription provider is available right now', requestId, fallbacks },
+        { status: 503, headers: { 'Retry-After': String(Math.ceil(circuitBreakerOptions().resetTimeoutMs / 1000)) } }
+      );
+    }
+    const error = caught instanceof AllProvidersFailedError ? caught.primaryError : caught;
+
+    if (
+      error instanceof UnknownProviderError ||
+      error instanceof UnknownTranslatorError ||
+      error instanceof UnsupportedLanguagePairError
+    ) {
+      return NextResponse.json({ error: error.message, requestId }, { status: 400 });
+    }
+
+    const limited = usageLimitResponse(error, requestId);
+    if (limited) {
+      return limited;
+    }
+
+    if (error instanceof AudioTooLargeError) {
+      return NextResponse.json({ error: error.message, requestId }, { status: 413 });
+    }
+
+    if (error instanceof UnsupportedAudioError) {
+      return NextResponse.json({ error: error.message, requestId }, { status: 415 });
+    }
+
+    if (error instanceof SessionNotFoundError) {
+      return NextResponse.json({ error: error.message, requestId }, { status: 404 });
+    }
+
+    if (error instanceof WorkerQueueFullError || error instanceof WorkerUnavailableError) {
+      return NextResponse.json(
+        { error: `Local transcription unavailable: ${error.message}`, requestId, fallbacks },
+        { status: 503, headers: { 'Retry-After': '2' } }
+      );
+    }
+
+    if (error instanceof Error) {
+      // Check for specific OpenAI errors; their messages can quote the key
+      const message = redactText(error.message);
+      if (error.message.includes('API key')) {
+        log.error('OpenAI API key rejected');
+        return NextResponse.json(
+          { error: `OpenAI API Key error: ${message}`, requestId, fallbacks },
+          { status: 401 }
+        );
+      }
+
+      if (error.message.includes('quota') || error.message.includes('billing')) {
+        log.error('OpenAI billing or quota problem');
+        return NextResponse.json(
+          { error: `OpenAI billing/quota error: ${message}`, requestId, fallbacks },
+          { status: 402 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: `Transcription failed: ${message}`, requestId, fallbacks },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Unknown transcription error - check server logs', requestId, fallbacks },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { writeFile, unlink } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { extensionForMimeType } from '@/lib/audio/formats';
+import { logger, loggedText } from '@/lib/logger';
+import { getWhisperWorkerPool, whisperWorkersReady } from '../whisper-worker';
+import { NormalizedTranscription, TranscriptionProvider, TranscriptionRequest } from '../types';
+
+async function transcribeWithLocalWhisper(audioBuffer: Buffer, mimeType: string, requestId: string, modelSize: string = "small", language?: string, wordTimestamps: boolean = false, languages?: string[]): Promise<any> {
+  const log = logger.child({ requestId, provider: 'local' });
+  log.debug('Starting local Faster-Whisper transcription', { modelSize });
+  
+  const startTime = Date.now();
+  
+  // Create temporary file for audio
+  const tempFilePath = join(tmpdir(), `audio_${requestId}_${Date.now()}.${extensionForMimeType(mimeType)}`);
+  
+  try {
+    // Write audio buffer to temporary file
+    await writeFile(tempFilePath, audioBuffer);
+    
+    // Hand the file to a long-lived worker that already has the model loaded
+    const result = await getWhisperWorkerPool().transcribe({ audioPath: tempFilePath, modelSize, language, languages, wordTimestamps }, requestId);
+    const totalTime = Date.now() - startTime;
+    
+    // Enhanced logging for debugging
+    const textLength = result.text ? result.text.length : 0;
+    const isEmpty = textLength === 0;
+    const isRepetitive = result.text && result.text.length > 100 && 
+      (result.text.match(/(.{20,})\1{2,}/g) !== null);
+    
+    log.debug('Local transcription completed', {
+      text: loggedText(result.text),
+      language: result.language,
+      duration: result.duration,
+      latency: totalTime,
+      timing: result.timing
+    });
+    
+    if (isEmpty) {
+      log.warn('Empty transcription result detected');
+    }
+    if (isRepetitive) {
+      log.warn('Potentially repetitive transcription detected');
+    }
+    
+    return result;
+    
+  } finally {
+    // Clean up temp file
+    try {
+      await unlink(tempFilePath);
+    } catch (cleanupError) {
+      log.warn('Failed to clean up temp file', { path: tempFilePath, error: cleanupError });
+    }
+  }
+}
+
+export const localWhisperProvider: TranscriptionProvider = {
+  name: 'local',
+  label: 'Local Faster-Whisper',
+  defaultModel: 'small', // small is the sweet spot on GPU
+  defaultLanguage: 'en', // Assume English for speed unless told otherwise
+
+  // Only worth falling back to once a worker has loaded; on a cloud-only
+  // deploy the workers never come up
+  isAvailable(): boolean {
+    return whisperWorkersReady();
+  },
+
+  async transcribe(request: TranscriptionRequest): Promise<NormalizedTranscription> {
+    const model = request.model || this.defaultModel;
+    const languages = request.language ? undefined : request.languages;
+    const result = await transcribeWithLocalWhisper(request.audio, request.mimeType, request.requestId, model, request.language, request.wordTimestamps, languages);
+
+    return {
+      provider: this.name,
+      model: result.model_size || model,
+      text: (result.text || '').trim(),
+      language: result.language,
+      languageProbability: result.language_probability,
+      duration: result.duration,
+      segments: result.segments || [],
+      words: result.words,
+      timings: {
+        totalMs: result.timing?.total_ms ?? 0,
+        modelLoadMs: result.timing?.model_load_ms,
+        transcriptionMs: result.timing?.transcription_ms
+      },
+      details: {
+        device: result.device,
+        compute_type: result.compute_type,
+        beam_size: result.beam_size,
+        vad_filter: result.vad_filter,
+        cuda_available: result.cuda_available
+      }
+    };
+  }
+};
@@ -0,0 +1,83 @@
+import { toFile } from 'openai/uploads';
+import { getOpenAIClient } from '@/lib/openai';
+import { extensionForMimeType } from '@/lib/audio/formats';
+import { logger } from '@/lib/logger';
+import { NormalizedTranscription, TranscriptionProvider, TranscriptionRequest } from '../types';
+
+export const openAIWhisperProvider: TranscriptionProvider = {
+  name: 'openai',
+  label: 'OpenAI Whisper',
+  defaultModel: 'whisper-1',
+  defaultLanguage: 'en', // Default to English for speed
+
+  async transcribe(request: TranscriptionRequest): Promise<NormalizedTranscription> {
+    const { requestId } = request;
+    const model = request.model || this.defaultModel;
+    // Word timings only come back in verbose_json
+    const responseFormat = request.wordTimestamps ? 'verbose_json' : (request.responseFormat || 'text'); // Default to fast text format
+    const optimize = request.optimize !== false;
+
+    // Use OpenAI toFile helper for proper file handling
+    // Detect format from the file type and use appropriate format
+    const fileType = request.mimeType || 'audio/webm';
+    const fileName = `audio.${extensionForMimeType(fileType)}`;
+    const file = await toFile(request.audio, fileName, { type: fileType });
+
+    logger.debug('Whisper config', { requestId, model, language: request.language || 'auto-detect', format: responseFormat });
+
+    // Build optimized configuration
+    const whisperConfig: any = {
+      file,
+      model,
+      response_format: responseFormat,
+    };
+
+    // Add language hint if provided; without one Whisper detects the language itself
+    if (request.language) {
+      whisperConfig.language = request.language;
+    }
+
+    if (request.wordTimestamps) {
+      whisperConfig.timestamp_granularities = ['word', 'segment'];
+    }
+
+    // Add temperature if specified
+    if (request.temperature !== undefined) {
+      whisperConfig.temperature = request.temperature;
+    } else if (optimize) {
+      whisperConfig.temperature = 0; // Use 0 for fastest, most deterministic results
+    }
+
+    const startTime = Date.now();
+    const transcription = await getOpenAIClient().audio.transcriptions.create(whisperConfig);
+    const totalMs = Date.now() - startTime;
+
+    // Handle different response formats
+    const verbose = typeof transcription === 'string' ? undefined : (transcription as any);
+    const text = typeof transcription === 'string' ? transcription : transcription.text;
+
+    return {
+      provider: this.name,
+      model,
+      text: (text || '').trim(),
+      language: verbose?.language,
+      duration: verbose?.duration,
+      segments: (verbose?.segments || []).map((segment: any) => ({
+        start: segment.start,
+        end: segment.end,
+        text: segment.text.trim()
+      })),
+      words: verbose?.words?.map((word: any) => ({
+        word: word.word.trim(),
+        start: word.start,
+        end: word.end
+      })),
+      timings: { totalMs, transcriptionMs: totalMs },
+      details: {
+        format: responseFormat,
+        temperature: whisperConfig.temperature,
+        optimize
+      }
+    };
+  }
+};
@@ -0,0 +1,32 @@
+import { TranscriptionProvider } from './types';
+import { openAIWhisperProvider } from './providers/openai';
+import { localWhisperProvider } from './providers/local-whisper';
+
+const providers = new Map<string, TranscriptionProvider>();
+
+export class UnknownProviderError extends Error {
+  constructor(name: string) {
+    super(`Unknown transcription provider "${name}". Available: ${listTranscriptionProviders().map(p => p.name).join(', ')}`);
+    this.name = 'UnknownProviderError';
+  }
+}
+
+export function registerTranscriptionProvider(provider: TranscriptionProvider) {
+  providers.set(provider.name, provider);
+}
+
+export function getTranscriptionProvider(name: string): TranscriptionProvider {
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new UnknownProviderError(name);
+  }
+  return provider;
+}
+
+export function listTranscriptionProviders(): TranscriptionProvider[] {
+  return Array.from(providers.values());
+}
+
+// Built-in engines
+registerTranscriptionProvider(openAIWhisperProvider);
+registerTranscriptionProvider(localWhisperProvider);
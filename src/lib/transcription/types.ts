@@ -0,0 +1,56 @@
+// Shared contract for every speech-to-text engine the app can use.
+// Providers receive raw audio plus a few generic knobs and must return a
+// NormalizedTranscription so routes never need engine-specific parsing.
+
+export interface TranscriptSegment {
+  start: number; // seconds from the start of the audio
+  end: number;
+  text: string;
+}
+
+export interface TranscriptWord {
+  word: string;
+  start: number; // seconds from the start of the audio
+  end: number;
+}
+
+export interface TranscriptionTimings {
+  totalMs: number;
+  modelLoadMs?: number;
+  transcriptionMs?: number;
+}
+
+export interface TranscriptionRequest {
+  audio: Buffer;
+  mimeType: string;
+  requestId: string;
+  model?: string;
+  language?: string; // omit to let the engine detect the language
+  languages?: string[]; // when detecting, the languages it can be; engines that can't restrict detection ignore this
+  temperature?: number;
+  responseFormat?: 'text' | 'verbose_json';
+  optimize?: boolean;
+  wordTimestamps?: boolean; // ask for per-word timings where the engine supports them
+}
+
+export interface NormalizedTranscription {
+  provider: string;
+  model: string;
+  text: string;
+  language?: string;
+  languageProbability?: number;
+  duration?: number;
+  segments: TranscriptSegment[];
+  words?: TranscriptWord[]; // only when wordTimestamps was requested and supported
+  timings: TranscriptionTimings;
+  details?: Record<string, unknown>; // engine-specific extras (device, beam size, ...)
+}
+
+export interface TranscriptionProvider {
+  name: string;
+  label: string;
+  defaultModel: string;
+  defaultLanguage?: string;
+  isAvailable?(): boolean; // false leaves it out of fallback chains; assumed available when absent
+  transcribe(request: TranscriptionRequest): Promise<NormalizedTranscription>;
+}
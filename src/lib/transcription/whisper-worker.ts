@@ -0,0 +1,393 @@
+import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
+import { createInterface } from 'readline';
+import { join } from 'path';
+import { logger } from '@/lib/logger';
+
+// Pool of long-lived `scripts/whisper_worker.py` processes. Each worker keeps
+// its Faster-Whisper models loaded and handles one request at a time; the
+// pool queues requests, pings idle workers and restarts any that die.
+
+export interface WorkerTranscribeRequest {
+  audioPath: string;
+  modelSize: string;
+  language?: string;
+  languages?: string[]; // detect among these only, when no language is set
+  wordTimestamps?: boolean;
+}
+
+export interface WhisperPoolOptions {
+  size: number;
+  maxQueue: number;
+  requestTimeoutMs: number;
+  queueTimeoutMs: number; // how long a request may wait for a worker before giving up
+  healthCheckIntervalMs: number;
+  pingTimeoutMs: number;
+  pythonPath: string;
+  scriptPath: string;
+}
+
+export class WorkerQueueFullError extends Error {
+  constructor(maxQueue: number) {
+    super(`Local Whisper queue is full (${maxQueue} requests waiting)`);
+    this.name = 'WorkerQueueFullError';
+  }
+}
+
+export class WorkerUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkerUnavailableError';
+  }
+}
+
+interface PendingCall {
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+interface QueuedJob {
+  request: WorkerTranscribeRequest;
+  requestId: string;
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+type WorkerState = 'starting' | 'idle' | 'busy' | 'stopped';
+
+const MAX_RESTART_DELAY_MS = 30000;
+
+class WhisperWorker {
+  state: WorkerState = 'starting';
+  hasBeenReady = false;
+  private process: ChildProcessWithoutNullStreams | null = null;
+  private pending = new Map<string, PendingCall>();
+  private nextCallId = 0;
+  private restartAttempts = 0;
+  private restartTimer: NodeJS.Timeout | null = null;
+  private shuttingDown = false;
+
+  constructor(
+    private readonly index: number,
+    private readonly options: WhisperPoolOptions,
+    private readonly onAvailable: () => void,
+    private readonly onFatal: (error: string) => void
+  ) {}
+
+  start() {
+    this.state = 'starting';
+    const child = spawn(this.options.pythonPath, [this.options.scriptPath], {
+      cwd: join(process.cwd(), 'scripts'),
+      env: { ...process.env, PYTHONUNBUFFERED: '1' }
+    });
+    this.process = child;
+    logger.info('Whisper worker starting', { worker: this.index, pid: child.pid });
+
+    createInterface({ input: child.stdout }).on('line', (line) => this.handleLine(line));
+
+    child.stderr.on('data', (data) => {
+      logger.debug('Whisper worker stderr', { worker: this.index, output: data.toString().trim() });
+    });
+
+    child.on('error', (error) => {
+      logger.error('Whisper worker process error', { worker: this.index, error });
+    });
+
+    // Writing to a worker that just died fails with EPIPE; the exit handler deals with it
+    child.stdin.on('error', (error) => {
+      logger.warn('Whisper worker stdin error', { worker: this.index, error });
+    });
+
+    child.on('exit', (code, signal) => {
+      this.process = null;
+      this.failPending(new WorkerUnavailableError(`Whisper worker exited (code ${code}, signal ${signal})`));
+
+      if (this.shuttingDown) {
+        this.state = 'stopped';
+        return;
+      }
+
+      // Back off exponentially so a broken install doesn't spin the CPU
+      const delay = Math.min(1000 * 2 ** this.restartAttempts, MAX_RESTART_DELAY_MS);
+      this.restartAttempts++;
+      this.state = 'stopped';
+      logger.warn('Whisper worker exited, restarting', { worker: this.index, code, signal, delayMs: delay });
+      this.restartTimer = setTimeout(() => this.start(), delay);
+    });
+  }
+
+  private handleLine(line: string) {
+    let message: any;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      logger.warn('Whisper worker wrote non-JSON output', { worker: this.index, output: line });
+      return;
+    }
+
+    if (message.type === 'ready') {
+      logger.info('Whisper worker ready', { worker: this.index, device: message.device });
+      this.restartAttempts = 0;
+      this.hasBeenReady = true;
+      this.state = 'idle';
+      this.onAvailable();
+      return;
+    }
+
+    if (message.type === 'fatal') {
+      logger.error('Whisper worker cannot start', { worker: this.index, error: message.error, details: message.details });
+      this.onFatal(message.error);
+      return;
+    }
+
+    const call = message.id ? this.pending.get(message.id) : undefined;
+    if (!call) {
+      return;
+    }
+    this.pending.delete(message.id);
+    clearTimeout(call.timer);
+
+    if (message.ok) {
+      call.resolve(message.result);
+    } else {
+      call.reject(new Error(`Local transcription failed: ${message.error}${message.details ? ` - ${message.details}` : ''}`));
+    }
+  }
+
+  private call(payload: Record<string, unknown>, timeoutMs: number): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const child = this.process;
+      if (!child || child.stdin.destroyed) {
+        reject(new WorkerUnavailableError('Whisper worker is not running'));
+        return;
+      }
+
+      const id = `${this.index}-${++this.nextCallId}`;
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new WorkerUnavailableError(`Whisper worker #${this.index} timed out after ${timeoutMs}ms`));
+        // A worker that stops answering is assumed stuck - kill it so it gets restarted
+        this.kill();
+      }, timeoutMs);
+
+      this.pending.set(id, { resolve, reject, timer });
+      child.stdin.write(JSON.stringify({ ...payload, id }) + '\n');
+    });
+  }
+
+  // Out of service until the exit handler restarts it; nothing more is sent to it
+  private kill() {
+    const child = this.process;
+    this.process = null;
+    this.state = 'stopped';
+    child?.kill('SIGKILL');
+  }
+
+  async transcribe(request: WorkerTranscribeRequest): Promise<any> {
+    this.state = 'busy';
+    try {
+      return await this.call({
+        type: 'transcribe',
+        audio_path: request.audioPath,
+        model_size: request.modelSize,
+        language: request.language,
+        languages: request.languages,
+        word_timestamps: Boolean(request.wordTimestamps)
+      }, this.options.requestTimeoutMs);
+    } finally {
+      if (this.state === 'busy' && this.process) {
+        this.state = 'idle';
+      }
+      this.onAvailable();
+    }
+  }
+
+  async healthCheck() {
+    if (this.state !== 'idle') {
+      return;
+    }
+    this.state = 'busy';
+    try {
+      await this.call({ type: 'ping' }, this.options.pingTimeoutMs);
+    } catch (error) {
+      logger.warn('Whisper worker failed health check', { worker: this.index, error });
+    } finally {
+      if (this.state === 'busy' && this.process) {
+        this.state = 'idle';
+      }
+      this.onAvailable();
+    }
+  }
+
+  private failPending(error: Error) {
+    this.pending.forEach((call) => {
+      clearTimeout(call.timer);
+      call.reject(error);
+    });
+    this.pending.clear();
+  }
+
+  async stop(graceMs: number) {
+    this.shuttingDown = true;
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+    }
+    const child = this.process;
+    if (!child) {
+      this.state = 'stopped';
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      const killTimer = setTimeout(() => child.kill('SIGKILL'), graceMs);
+      child.once('exit', () => {
+        clearTimeout(killTimer);
+        resolve();
+      });
+      if (!child.stdin.destroyed) {
+        child.stdin.write(JSON.stringify({ type: 'shutdown' }) + '\n');
+        child.stdin.end();
+      }
+    });
+  }
+}
+
+export class WhisperWorkerPool {
+  private workers: WhisperWorker[] = [];
+  private queue: QueuedJob[] = [];
+  private healthTimer: NodeJS.Timeout | null = null;
+  private stopped = false;
+
+  constructor(private readonly options: WhisperPoolOptions) {}
+
+  start() {
+    for (let i = 0; i < this.options.size; i++) {
+      const worker = new WhisperWorker(i, this.options, () => this.drain(), (error) => this.handleFatal(error));
+      this.workers.push(worker);
+      worker.start();
+    }
+
+    this.healthTimer = setInterval(() => {
+      this.workers.forEach(worker => worker.healthCheck());
+    }, this.options.healthCheckIntervalMs);
+    this.healthTimer.unref();
+  }
+
+  transcribe(request: WorkerTranscribeRequest, requestId: string): Promise<any> {
+    if (this.stopped) {
+      return Promise.reject(new WorkerUnavailableError('Whisper worker pool is shutting down'));
+    }
+    if (this.queue.length >= this.options.maxQueue) {
+      return Promise.reject(new WorkerQueueFullError(this.options.maxQueue));
+    }
+
+    return new Promise((resolve, reject) => {
+      // The per-call timeout only starts once a worker takes the job; this one
+      // covers workers that never come up
+      const timer = setTimeout(() => {
+        this.removeFromQueue(job);
+        reject(new WorkerUnavailableError(`No Whisper worker became available within ${this.options.queueTimeoutMs}ms`));
+      }, this.options.queueTimeoutMs);
+      const job: QueuedJob = { request, requestId, resolve, reject, timer };
+      this.queue.push(job);
+      logger.debug('Queued for local Whisper', { requestId, queueLength: this.queue.length });
+      this.drain();
+    });
+  }
+
+  private drain() {
+    while (this.queue.length > 0) {
+      const worker = this.workers.find(w => w.state === 'idle');
+      if (!worker) {
+        return;
+      }
+      const job = this.queue.shift()!;
+      clearTimeout(job.timer);
+      worker.transcribe(job.request).then(job.resolve, job.reject);
+    }
+  }
+
+  private removeFromQueue(job: QueuedJob) {
+    const index = this.queue.indexOf(job);
+    if (index >= 0) {
+      this.queue.splice(index, 1);
+    }
+  }
+
+  private rejectQueued(error: Error) {
+    this.queue.splice(0).forEach(job => {
+      clearTimeout(job.timer);
+      job.reject(error);
+    });
+  }
+
+  // A worker that can't load faster-whisper won't be serving anyone soon;
+  // unless another worker is up, fail the waiting requests now
+  private handleFatal(error: string) {
+    if (!this.workers.some(w => w.state === 'idle' || w.state === 'busy')) {
+      this.rejectQueued(new WorkerUnavailableError(`Local Whisper cannot start: ${error}`));
+    }
+  }
+
+  // Whether any worker has ever loaded successfully, i.e. the local engine is installed
+  hasBeenReady(): boolean {
+    return this.workers.some(w => w.hasBeenReady);
+  }
+
+  status() {
+    return {
+      workers: this.workers.map(w => w.state),
+      queued: this.queue.length
+    };
+  }
+
+  async shutdown(graceMs = 5000) {
+    if (this.stopped) {
+      return;
+    }
+    this.stopped = true;
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+    }
+    this.rejectQueued(new WorkerUnavailableError('Whisper worker pool shut down'));
+    await Promise.all(this.workers.map(w => w.stop(graceMs)));
+    logger.info('Whisper worker pool stopped');
+  }
+}
+
+function readPoolOptions(): WhisperPoolOptions {
+  return {
+    size: parseInt(process.env.WHISPER_WORKERS || '1', 10),
+    maxQueue: parseInt(process.env.WHISPER_MAX_QUEUE || '16', 10),
+    requestTimeoutMs: parseInt(process.env.WHISPER_REQUEST_TIMEOUT_MS || '120000', 10),
+    queueTimeoutMs: parseInt(process.env.WHISPER_QUEUE_TIMEOUT_MS || '60000', 10),
+    healthCheckIntervalMs: parseInt(process.env.WHISPER_HEALTH_CHECK_MS || '30000', 10),
+    pingTimeoutMs: 5000,
+    pythonPath: process.env.WHISPER_PYTHON || 'python3',
+    scriptPath: join(process.cwd(), 'scripts', 'whisper_worker.py')
+  };
+}
+
+// Keep the pool on globalThis so Next.js dev reloads don't leak processes
+const globalForWhisper = globalThis as unknown as { whisperPool?: WhisperWorkerPool };
+
+export function getWhisperWorkerPool(): WhisperWorkerPool {
+  if (!globalForWhisper.whisperPool) {
+    const pool = new WhisperWorkerPool(readPoolOptions());
+    pool.start();
+    globalForWhisper.whisperPool = pool;
+
+    const shutdown = () => {
+      pool.shutdown().finally(() => process.exit(0));
+    };
+    process.once('SIGTERM', shutdown);
+    process.once('SIGINT', shutdown);
+  }
+  return globalForWhisper.whisperPool;
+}
+
+// Whether the local engine has shown it works, without starting the pool
+export function whisperWorkersReady(): boolean {
+  return Boolean(globalForWhisper.whisperPool?.hasBeenReady());
+}
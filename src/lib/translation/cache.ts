@@ -0,0 +1,254 @@
+import { dataPath, readJsonFile, writeJsonFile } from '@/lib/storage/json-file';
+import { logger } from '@/lib/logger';
+import { Translator, TranslationRequest } from './types';
+
+// Translations are cached by translator, language pair and normalized text so
+// phrases that come up again and again ("te quiero") cost one API call. A
+// bounded in-memory LRU sits in front of an optional JSON file on disk that
+// survives restarts. Both layers honour the same TTL.
+
+export type CacheStatus = 'memory' | 'disk' | 'miss' | 'bypass';
+
+export interface CacheEntry {
+  key: string;
+  translator: string;
+  source: string;
+  target: string;
+  text: string; // normalized
+  translation: string;
+  createdAt: number;
+  expiresAt: number;
+  hits: number;
+}
+
+export interface CacheFilter {
+  translator?: string;
+  source?: string;
+  target?: string;
+  text?: string; // substring of the normalized text
+}
+
+export interface TranslationCacheOptions {
+  maxEntries: number;
+  ttlMs: number;
+  diskPath?: string; // persistent layer is off without it
+  maxDiskEntries: number;
+}
+
+const DISK_WRITE_DELAY_MS = 2000; // Batch disk writes while a conversation is running
+
+export function normalizeText(text: string): string {
+  return text.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+export function cacheKey(translator: string, source: string, target: string, text: string): string {
+  return `${translator}|${source}|${target}|${normalizeText(text)}`;
+}
+
+function matches(entry: CacheEntry, filter: CacheFilter): boolean {
+  return (!filter.translator || entry.translator === filter.translator) &&
+    (!filter.source || entry.source === filter.source) &&
+    (!filter.target || entry.target === filter.target) &&
+    (!filter.text || entry.text.includes(normalizeText(filter.text)));
+}
+
+export class TranslationCache {
+  // Map iteration order doubles as recency order: oldest first
+  private memory = new Map<string, CacheEntry>();
+  private disk: Map<string, CacheEntry> | null = null;
+  private diskLoading: Promise<Map<string, CacheEntry>> | null = null;
+  private diskWriteTimer: ReturnType<typeof setTimeout> | null = null;
+  private counters = { memoryHits: 0, diskHits: 0, misses: 0 };
+
+  constructor(private readonly options: TranslationCacheOptions) {}
+
+  async get(translator: string, source: string, target: string, text: string): Promise<{ translation: string; layer: 'memory' | 'disk' } | null> {
+    const key = cacheKey(translator, source, target, text);
+    const now = Date.now();
+
+    const cached = this.memory.get(key);
+    if (cached && cached.expiresAt > now) {
+      cached.hits++;
+      this.touch(cached);
+      this.counters.memoryHits++;
+      return { translation: cached.translation, layer: 'memory' };
+    }
+    if (cached) {
+      this.memory.delete(key);
+    }
+
+    const disk = await this.loadDisk();
+    const stored = disk?.get(key);
+    if (stored && stored.expiresAt > now) {
+      stored.hits++;
+      this.touch(stored);
+      this.counters.diskHits++;
+      return { translation: stored.translation, layer: 'disk' };
+    }
+    if (stored) {
+      disk!.delete(key);
+      this.scheduleDiskWrite();
+    }
+
+    this.counters.misses++;
+    return null;
+  }
+
+  async set(translator: string, source: string, target: string, text: string, translation: string) {
+    const now = Date.now();
+    const entry: CacheEntry = {
+      key: cacheKey(translator, source, target, text),
+      translator,
+      source,
+      target,
+      text: normalizeText(text),
+      translation,
+      createdAt: now,
+      expiresAt: now + this.options.ttlMs,
+      hits: 0
+    };
+    this.touch(entry);
+
+    const disk = await this.loadDisk();
+    if (disk) {
+      disk.set(entry.key, entry);
+      while (disk.size > this.options.maxDiskEntries) {
+        disk.delete(disk.keys().next().value!);
+      }
+      this.scheduleDiskWrite();
+    }
+  }
+
+  // Move to the most recently used end, evicting from the other end
+  private touch(entry: CacheEntry) {
+    this.memory.delete(entry.key);
+    this.memory.set(entry.key, entry);
+    while (this.memory.size > this.options.maxEntries) {
+      this.memory.delete(this.memory.keys().next().value!);
+    }
+  }
+
+  private loadDisk(): Promise<Map<string, CacheEntry> | null> {
+    const { diskPath } = this.options;
+    if (!diskPath) {
+      return Promise.resolve(null);
+    }
+    if (this.disk) {
+      return Promise.resolve(this.disk);
+    }
+    if (!this.diskLoading) {
+      this.diskLoading = readJsonFile<CacheEntry[]>(diskPath, [])
+        .catch(error => {
+          logger.error('Could not read translation cache file, starting empty', { error });
+          return [] as CacheEntry[];
+        })
+        .then(entries => {
+          const now = Date.now();
+          this.disk = new Map(entries.filter(e => e.expiresAt > now).map(e => [e.key, e]));
+          return this.disk;
+        });
+    }
+    return this.diskLoading;
+  }
+
+  private scheduleDiskWrite() {
+    if (this.diskWriteTimer || !this.options.diskPath) {
+      return;
+    }
+    this.diskWriteTimer = setTimeout(() => {
+      this.diskWriteTimer = null;
+      this.flush().catch(error => logger.error('Could not write translation cache file', { error }));
+    }, DISK_WRITE_DELAY_MS);
+  }
+
+  async flush() {
+    if (this.disk && this.options.diskPath) {
+      await writeJsonFile(this.options.diskPath, Array.from(this.disk.values()));
+    }
+  }
+
+  async stats() {
+    const disk = await this.loadDisk();
+    const lookups = this.counters.memoryHits + this.counters.diskHits + this.counters.misses;
+    return {
+      memoryEntries: this.memory.size,
+      maxEntries: this.options.maxEntries,
+      diskEntries: disk?.size ?? null,
+      diskPath: this.options.diskPath ?? null,
+      ttlMs: this.options.ttlMs,
+      ...this.counters,
+      hitRate: lookups > 0 ? (this.counters.memoryHits + this.counters.diskHits) / lookups : null
+    };
+  }
+
+  // Entries from both layers, most recently used first
+  async list(filter: CacheFilter = {}, limit: number = 100): Promise<CacheEntry[]> {
+    const disk = await this.loadDisk();
+    const all = new Map(disk || []);
+    this.memory.forEach((entry, key) => all.set(key, entry));
+    return Array.from(all.values())
+      .filter(entry => matches(entry, filter))
+      .reverse()
+      .slice(0, limit);
+  }
+
+  // Remove matching entries from both layers; an empty filter clears everything
+  async purge(filter: CacheFilter = {}): Promise<number> {
+    const disk = await this.loadDisk();
+    const removed = new Set<string>();
+    [this.memory, disk].forEach(layer => {
+      layer?.forEach((entry, key) => {
+        if (matches(entry, filter)) {
+          layer.delete(key);
+          removed.add(key);
+        }
+      });
+    });
+    if (disk) {
+      await this.flush();
+    }
+    return removed.size;
+  }
+}
+
+function readCacheOptions(): TranslationCacheOptions {
+  const diskEnabled = process.env.TRANSLATION_CACHE_DISK === 'true';
+  return {
+    maxEntries: parseInt(process.env.TRANSLATION_CACHE_SIZE || '1000', 10),
+    ttlMs: parseInt(process.env.TRANSLATION_CACHE_TTL_MS || String(7 * 24 * 60 * 60 * 1000), 10), // 1 week
+    diskPath: diskEnabled ? (process.env.TRANSLATION_CACHE_FILE || dataPath('translation-cache.json')) : undefined,
+    maxDiskEntries: parseInt(process.env.TRANSLATION_CACHE_DISK_SIZE || '20000', 10)
+  };
+}
+
+// Shared by every route and stream; kept on globalThis to survive dev reloads
+const globalForCache = globalThis as unknown as { translationCache?: TranslationCache };
+
+export function getTranslationCache(): TranslationCache {
+  if (!globalForCache.translationCache) {
+    globalForCache.translationCache = new TranslationCache(readCacheOptions());
+  }
+  return globalForCache.translationCache;
+}
+
+// Translate through the cache. Only successful translations are stored.
+export async function translateWithCache(translator: Translator, request: TranslationRequest): Promise<{ text: string; cache: CacheStatus }> {
+  const cache = getTranslationCache();
+  // Glossary renderings are per user and context changes the wording, so
+  // those translations never enter the shared cache
+  if ((request.glossary && request.glossary.length > 0) || (request.context && request.context.length > 0)) {
+    return { text: await translator.translate(request), cache: 'bypass' };
+  }
+
+  const cached = await cache.get(translator.name, request.source, request.target, request.text);
+  if (cached) {
+    logger.debug('Translation cache hit', { requestId: request.requestId, layer: cached.layer });
+    return { text: cached.translation, cache: cached.layer };
+  }
+
+  const text = await translator.translate(request);
+  if (text) {
+    await cache.set(translator.name, request.source, request.target, request.text, text);
+  }
+  return { text, cache: 'miss' };
+}
@@ -0,0 +1,86 @@
+import { TranscriptionResult } from '@/types/transcript';
+import { ContextTurn } from './types';
+
+// Picks the earlier conversation turns a context-aware translator sees, so
+// pronouns, gender agreement and ellipsis carry across chunk boundaries.
+
+export interface ContextSettings {
+  maxTurns: number; // 0 disables context
+  maxTokens: number; // rough budget for all turns together
+}
+
+export const DEFAULT_CONTEXT_SETTINGS: ContextSettings = {
+  maxTurns: 4,
+  maxTokens: 400
+};
+
+const MAX_CONTEXT_TURNS = 20;
+const MAX_TURN_LENGTH = 1000; // characters; longer client-supplied turns are cut
+
+// Close enough for budgeting: ~4 characters per token across the languages we support
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function toContextTurn(entry: Pick<TranscriptionResult, 'text' | 'translatedText' | 'language' | 'speakerName'>): ContextTurn {
+  return {
+    text: entry.text.substring(0, MAX_TURN_LENGTH),
+    translation: (entry.translatedText || '').substring(0, MAX_TURN_LENGTH),
+    language: entry.language,
+    speaker: entry.speakerName
+  };
+}
+
+// Most recent turns that fit both limits, returned oldest first
+export function selectContextTurns(turns: ContextTurn[], settings: ContextSettings): ContextTurn[] {
+  const selected: ContextTurn[] = [];
+  let tokens = 0;
+
+  for (let i = turns.length - 1; i >= 0 && selected.length < settings.maxTurns; i--) {
+    const turn = turns[i];
+    if (!turn.text.trim()) {
+      continue;
+    }
+    const cost = estimateTokens(turn.text) + estimateTokens(turn.translation);
+    if (tokens + cost > settings.maxTokens) {
+      break;
+    }
+    tokens += cost;
+    selected.unshift(turn);
+  }
+  return selected;
+}
+
+// `?contextTurns=` / `?contextTokens=` style overrides, clamped to sane limits
+export function parseContextSettings(turns: unknown, tokens: unknown): ContextSettings {
+  const maxTurns = turns === undefined || turns === null || turns === '' ? NaN : Number(turns);
+  const maxTokens = tokens === undefined || tokens === null || tokens === '' ? NaN : Number(tokens);
+  return {
+    maxTurns: Number.isFinite(maxTurns) ? Math.min(Math.max(Math.floor(maxTurns), 0), MAX_CONTEXT_TURNS) : DEFAULT_CONTEXT_SETTINGS.maxTurns,
+    maxTokens: Number.isFinite(maxTokens) ? Math.min(Math.max(Math.floor(maxTokens), 0), 4000) : DEFAULT_CONTEXT_SETTINGS.maxTokens
+  };
+}
+
+// Context sent by a client: an array of { text, translatedText } like its transcript list
+export function parseClientContext(raw: unknown): ContextTurn[] {
+  let value = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value
+    .filter((entry): entry is TranscriptionResult => typeof entry?.text === 'string')
+    .slice(-MAX_CONTEXT_TURNS)
+    .map(entry => toContextTurn({
+      text: entry.text,
+      translatedText: typeof entry.translatedText === 'string' ? entry.translatedText : '',
+      language: typeof entry.language === 'string' ? entry.language : '',
+      speakerName: typeof entry.speakerName === 'string' ? entry.speakerName : undefined
+    }));
+}
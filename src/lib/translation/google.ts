@@ -0,0 +1,60 @@
+import { v2 } from '@google-cloud/translate';
+import { LANGUAGES } from '@/lib/languages';
+import { protectTerms } from '@/lib/glossary/apply';
+import { logger, loggedText } from '@/lib/logger';
+import { Translator, TranslationRequest } from './types';
+
+// Initialize Google Translate client lazily
+let googleTranslate: v2.Translate | null = null;
+let googleLanguages: string[] | null = null;
+
+function getGoogleTranslateClient() {
+  if (!googleTranslate) {
+    const apiKey = process.env.GOOGLE_TRANSLATE_API_KEY;
+    if (!apiKey) {
+      throw new Error('GOOGLE_TRANSLATE_API_KEY environment variable is required');
+    }
+    googleTranslate = new v2.Translate({ key: apiKey });
+  }
+  return googleTranslate;
+}
+
+export const googleTranslator: Translator = {
+  name: 'google',
+  label: 'Google Translate',
+
+  async supportedLanguages(): Promise<string[]> {
+    if (!googleLanguages) {
+      try {
+        const [languages] = await getGoogleTranslateClient().getLanguages();
+        googleLanguages = languages.map((language: { code: string }) => language.code);
+      } catch (error) {
+        logger.warn('Could not fetch Google Translate languages, using built-in list', { error });
+        return LANGUAGES.map(l => l.code);
+      }
+    }
+    return googleLanguages!;
+  },
+
+  async translate({ text, source, target, requestId, glossary = [] }: TranslationRequest): Promise<string> {
+    const translate = getGoogleTranslateClient();
+    logger.debug('Google Translate request', { requestId, source, target, text: loggedText(text), glossaryTerms: glossary.length });
+
+    // Glossary terms travel as untranslatable placeholders and are swapped back afterwards
+    if (glossary.length > 0) {
+      const protectedText = protectTerms(text, glossary);
+      const [translation] = await translate.translate(protectedText.text, {
+        from: source,
+        to: target,
+        format: 'html'
+      });
+      return protectedText.restore(translation);
+    }
+
+    const [translation] = await translate.translate(text, {
+      from: source,
+      to: target
+    });
+    return translation;
+  }
+};
@@ -0,0 +1,56 @@
+import { getOpenAIClient } from '@/lib/openai';
+import { LANGUAGES, getLanguage } from '@/lib/languages';
+import { glossaryPrompt } from '@/lib/glossary/apply';
+import { logger, loggedText } from '@/lib/logger';
+import { Translator, TranslationRequest } from './types';
+
+function promptName(code: string): string {
+  const language = getLanguage(code);
+  return language?.promptName || language?.name || code;
+}
+
+export const gpt4Translator: Translator = {
+  name: 'gpt4',
+  label: 'GPT-4',
+  usesContext: true,
+
+  async supportedLanguages(): Promise<string[]> {
+    return LANGUAGES.map(l => l.code);
+  },
+
+  async translate({ text, source, target, requestId, glossary = [], context = [] }: TranslationRequest): Promise<string> {
+    const client = getOpenAIClient();
+
+    const sourceLanguage = promptName(source);
+    const targetLanguage = promptName(target);
+
+    logger.debug('GPT-4 translation request', { requestId, source, target, text: loggedText(text), contextTurns: context.length });
+
+    // Use GPT-4 for high-quality translation
+    const glossaryInstructions = glossary.length > 0 ? `${glossaryPrompt(glossary)}\n\n` : '';
+    const translationPrompt = `${glossaryInstructions}Translate the following ${sourceLanguage} text to ${targetLanguage}. Keep the tone and style natural and conversational as if spoken between a couple. Only return the translation, no explanations:\n\n"${text}"`;
+
+    const translationResponse = await client.chat.completions.create({
+      model: 'gpt-4',
+      messages: [
+        {
+          role: 'system',
+          content: 'You are a professional translator specializing in conversational language between couples. Provide natural, accurate translations that preserve the emotional tone and informal style of speech.'
+        },
+        // Earlier turns as prior exchanges, so references and agreement stay consistent
+        ...context.flatMap(turn => [
+          { role: 'user' as const, content: `${turn.speaker ? `${turn.speaker}: ` : ''}"${turn.text}"` },
+          { role: 'assistant' as const, content: turn.translation }
+        ]),
+        {
+          role: 'user',
+          content: translationPrompt
+        }
+      ],
+      max_tokens: 200,
+      temperature: 0.3 // Lower temperature for more consistent translations
+    });
+
+    return translationResponse.choices[0]?.message?.content?.trim() || '';
+  }
+};
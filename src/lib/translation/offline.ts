@@ -0,0 +1,49 @@
+import { join } from 'path';
+import { runProcess } from '@/lib/speech/process';
+import { logger, loggedText } from '@/lib/logger';
+import { Translator, TranslationRequest } from './types';
+
+// Argos Translate through scripts/offline_translate.py: slower and rougher
+// than the online translators, but it works without network or API keys, so
+// it closes the fallback chain. Languages are whatever packages are installed.
+
+const OFFLINE_PYTHON = process.env.OFFLINE_TRANSLATE_PYTHON || process.env.WHISPER_PYTHON || 'python3';
+const LANGUAGES_TIMEOUT_MS = 10000;
+const TRANSLATE_TIMEOUT_MS = 30000; // loads the models on every call
+
+let offlineLanguages: Promise<string[]> | null = null;
+
+function scriptPath(): string {
+  return join(process.cwd(), 'scripts', 'offline_translate.py');
+}
+
+async function loadLanguages(): Promise<string[]> {
+  try {
+    const output = await runProcess(OFFLINE_PYTHON, [scriptPath(), '--languages'], '', LANGUAGES_TIMEOUT_MS);
+    return JSON.parse(output.toString());
+  } catch (error) {
+    logger.warn('Offline translation unavailable', { error });
+    offlineLanguages = null; // probe again next time, e.g. once the packages are installed
+    return [];
+  }
+}
+
+export const offlineTranslator: Translator = {
+  name: 'offline',
+  label: 'Offline (Argos)',
+  // Argos has no way to keep placeholders intact, so glossary terms aren't enforced
+  ignoresGlossary: true,
+
+  async supportedLanguages(): Promise<string[]> {
+    if (!offlineLanguages) {
+      offlineLanguages = loadLanguages();
+    }
+    return offlineLanguages;
+  },
+
+  async translate({ text, source, target, requestId }: TranslationRequest): Promise<string> {
+    logger.debug('Offline translation request', { requestId, source, target, text: loggedText(text) });
+    const output = await runProcess(OFFLINE_PYTHON, [scriptPath(), source, target], text, TRANSLATE_TIMEOUT_MS);
+    return JSON.parse(output.toString()).translation || '';
+  }
+};
@@ -0,0 +1,46 @@
+import { Translator } from './types';
+import { googleTranslator } from './google';
+import { gpt4Translator } from './gpt4';
+import { offlineTranslator } from './offline';
+
+const translators = new Map<string, Translator>();
+
+export class UnknownTranslatorError extends Error {
+  constructor(name: string) {
+    super(`Unknown translator "${name}". Available: ${listTranslators().map(t => t.name).join(', ')}`);
+    this.name = 'UnknownTranslatorError';
+  }
+}
+
+export class UnsupportedLanguagePairError extends Error {
+  constructor(translator: string, source: string, target: string) {
+    super(`Translator "${translator}" does not support ${source} → ${target}`);
+    this.name = 'UnsupportedLanguagePairError';
+  }
+}
+
+export function registerTranslator(translator: Translator) {
+  translators.set(translator.name, translator);
+}
+
+export function getTranslator(name: string): Translator {
+  const translator = translators.get(name);
+  if (!translator) {
+    throw new UnknownTranslatorError(name);
+  }
+  return translator;
+}
+
+export function listTranslators(): Translator[] {
+  return Array.from(translators.values());
+}
+
+export async function supportsPair(translator: Translator, source: string, target: string): Promise<boolean> {
+  const languages = await translator.supportedLanguages();
+  return languages.includes(source) && languages.includes(target);
+}
+
+// Built-in translators
+registerTranslator(googleTranslator);
+registerTranslator(gpt4Translator);
+registerTranslator(offlineTranslator);
@@ -0,0 +1,27 @@
+import { GlossaryMatch } from '@/types/glossary';
+
+// An earlier line of the conversation and how it was translated
+export interface ContextTurn {
+  text: string;
+  translation: string;
+  language?: string;
+  speaker?: string;
+}
+
+export interface TranslationRequest {
+  text: string;
+  source: string; // ISO 639-1 code
+  target: string;
+  requestId: string;
+  glossary?: GlossaryMatch[]; // terms found in `text` that must be rendered as given
+  context?: ContextTurn[]; // previous turns, oldest first; only for translators with usesContext
+}
+
+export interface Translator {
+  name: string;
+  label: string;
+  usesContext?: boolean; // wants the previous conversation turns with each request
+  ignoresGlossary?: boolean; // can't keep glossary terms, so its results don't claim them
+  supportedLanguages(): Promise<string[]>;
+  translate(request: TranslationRequest): Promise<string>;
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit, RateLimitError } from './rate-limit';
+import { assertWithinQuota, QuotaExceededError } from './quota';
+
+// Guard for routes that spend transcription or translation budget: rate limit
+// first (cheap, in memory), then the caller's daily quota.
+export async function enforceUsageLimits(request: NextRequest, userId: string | null) {
+  checkRateLimit(request, userId);
+  if (userId) {
+    await assertWithinQuota(userId);
+  }
+}
+
+// 429 with Retry-After for a limit error, or null for anything else
+export function usageLimitResponse(error: unknown, requestId?: string): NextResponse | null {
+  if (!(error instanceof RateLimitError) && !(error instanceof QuotaExceededError)) {
+    return null;
+  }
+  return NextResponse.json(
+    {
+      error: error.message,
+      limit: error instanceof RateLimitError ? `rate:${error.scope}` : `quota:${error.kind}`,
+      retryAfter: error.retryAfterSeconds,
+      requestId
+    },
+    { status: 429, headers: { 'Retry-After': String(error.retryAfterSeconds) } }
+  );
+}
@@ -0,0 +1,164 @@
+import { dataPath, readJsonFile, writeJsonFile } from '@/lib/storage/json-file';
+import { logger } from '@/lib/logger';
+import { QuotaLimit, QuotaStatus } from '@/types/usage';
+
+// Daily per-user quotas on what costs us money: seconds of audio sent to a
+// transcriber and characters sent to a translator. Counters live in memory
+// and are written to data/usage.json shortly after they change, so they
+// survive restarts. Days are UTC.
+
+export type QuotaKind = 'audioSeconds' | 'translatedChars';
+
+export interface DailyUsage {
+  audioSeconds: number;
+  translatedChars: number;
+}
+
+// day (YYYY-MM-DD) → user id → usage
+type UsageFile = Record<string, Record<string, DailyUsage>>;
+
+export class QuotaExceededError extends Error {
+  constructor(readonly kind: QuotaKind, readonly retryAfterSeconds: number) {
+    super(`Daily ${kind === 'audioSeconds' ? 'audio' : 'translation'} quota used up, resets in ${Math.ceil(retryAfterSeconds / 3600)}h`);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+const USAGE_WRITE_DELAY_MS = 1000;
+const DAYS_KEPT = 31;
+
+function usageFile(): string {
+  return process.env.USAGE_FILE || dataPath('usage.json');
+}
+
+function today(now: number = Date.now()): string {
+  return new Date(now).toISOString().substring(0, 10);
+}
+
+function secondsUntilReset(now: number = Date.now()): number {
+  const midnight = new Date(now);
+  midnight.setUTCHours(24, 0, 0, 0);
+  return Math.ceil((midnight.getTime() - now) / 1000);
+}
+
+function readQuota(name: string, fallback: number): number | null {
+  const value = parseInt(process.env[name] || '', 10);
+  const limit = Number.isNaN(value) ? fallback : value;
+  return limit > 0 ? limit : null;
+}
+
+export function quotaLimits(): Record<QuotaKind, number | null> {
+  return {
+    audioSeconds: readQuota('DAILY_AUDIO_SECONDS_QUOTA', 3600), // 1 hour
+    translatedChars: readQuota('DAILY_TRANSLATED_CHARS_QUOTA', 200000)
+  };
+}
+
+class UsageStore {
+  private usage: UsageFile | null = null;
+  private loading: Promise<UsageFile> | null = null;
+  private writeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private load(): Promise<UsageFile> {
+    if (this.usage) {
+      return Promise.resolve(this.usage);
+    }
+    if (!this.loading) {
+      this.loading = readJsonFile<UsageFile>(usageFile(), {}).then(usage => {
+        this.usage = usage;
+        return usage;
+      });
+    }
+    return this.loading;
+  }
+
+  async get(userId: string, day: string = today()): Promise<DailyUsage> {
+    const usage = await this.load();
+    return usage[day]?.[userId] || { audioSeconds: 0, translatedChars: 0 };
+  }
+
+  async add(userId: string, amounts: Partial<DailyUsage>) {
+    const usage = await this.load();
+    const day = today();
+    const users = usage[day] || (usage[day] = {});
+    const current = users[userId] || { audioSeconds: 0, translatedChars: 0 };
+    users[userId] = {
+      audioSeconds: current.audioSeconds + (amounts.audioSeconds || 0),
+      translatedChars: current.translatedChars + (amounts.translatedChars || 0)
+    };
+    this.scheduleWrite();
+  }
+
+  private scheduleWrite() {
+    if (this.writeTimer) {
+      return;
+    }
+    this.writeTimer = setTimeout(() => {
+      this.writeTimer = null;
+      this.flush().catch(error => logger.error('Could not write usage file', { error }));
+    }, USAGE_WRITE_DELAY_MS);
+  }
+
+  async flush() {
+    if (!this.usage) {
+      return;
+    }
+    const days = Object.keys(this.usage).sort();
+    days.slice(0, Math.max(0, days.length - DAYS_KEPT)).forEach(day => delete this.usage![day]);
+    await writeJsonFile(usageFile(), this.usage);
+  }
+}
+
+// Kept on globalThis to survive dev reloads
+const globalForUsage = globalThis as unknown as { usageStore?: UsageStore };
+
+function getUsageStore(): UsageStore {
+  if (!globalForUsage.usageStore) {
+    globalForUsage.usageStore = new UsageStore();
+  }
+  return globalForUsage.usageStore;
+}
+
+export async function getQuotaStatus(userId: string): Promise<QuotaStatus> {
+  const usage = await getUsageStore().get(userId);
+  const limits = quotaLimits();
+  const status = (kind: QuotaKind): QuotaLimit => ({
+    used: Math.round(usage[kind] * 10) / 10,
+    limit: limits[kind],
+    remaining: limits[kind] === null ? null : Math.max(0, Math.round((limits[kind]! - usage[kind]) * 10) / 10)
+  });
+  return {
+    day: today(),
+    resetsAt: new Date(Date.now() + secondsUntilReset() * 1000).toISOString(),
+    audioSeconds: status('audioSeconds'),
+    translatedChars: status('translatedChars')
+  };
+}
+
+// Throws QuotaExceededError once either daily allowance is used up
+export async function assertWithinQuota(userId: string) {
+  const usage = await getUsageStore().get(userId);
+  const limits = quotaLimits();
+  (['audioSeconds', 'translatedChars'] as QuotaKind[]).forEach(kind => {
+    if (limits[kind] !== null && usage[kind] >= limits[kind]!) {
+      throw new QuotaExceededError(kind, secondsUntilReset());
+    }
+  });
+}
+
+// Count usage after the fact. Never throws - losing a counter beats losing a transcript.
+export function recordUsage(userId: string, amounts: Partial<DailyUsage>) {
+  getUsageStore().add(userId, amounts).catch(error => {
+    logger.error('Could not record usage', { userId, error });
+  });
+}
+
+// Uploaded recordings don't always come back with a duration. WAV length is
+// exact; compressed formats are estimated at MediaRecorder's typical ~32 kbps.
+export function estimateAudioSeconds(audio: Buffer, mimeType: string): number {
+  if (mimeType.includes('wav') && audio.length > 44 && audio.toString('ascii', 0, 4) === 'RIFF') {
+    const byteRate = audio.readUInt32LE(28);
+    return byteRate > 0 ? (audio.length - 44) / byteRate : 0;
+  }
+  return audio.length / 4000;
+}
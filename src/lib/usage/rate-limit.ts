@@ -0,0 +1,126 @@
+import { NextRequest } from 'next/server';
+
+// Token buckets, one per user and one per client IP. Each request takes a
+// token from both; buckets refill continuously up to their burst size. Kept
+// in memory only - a restart simply hands everyone a full bucket.
+
+export class RateLimitError extends Error {
+  constructor(readonly scope: 'user' | 'ip', readonly retryAfterSeconds: number) {
+    super(`Too many requests from this ${scope === 'user' ? 'account' : 'address'}, try again in ${retryAfterSeconds}s`);
+    this.name = 'RateLimitError';
+  }
+}
+
+export interface RateLimitOptions {
+  perMinute: number; // refill rate; 0 disables the limit
+  burst: number; // bucket size
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+const IDLE_BUCKET_MS = 10 * 60 * 1000; // Full buckets untouched this long are forgotten
+
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+
+  constructor(private readonly options: RateLimitOptions) {}
+
+  // Take one token for `key`. Returns 0 when allowed, otherwise the seconds until a token is available.
+  take(key: string, now: number = Date.now()): number {
+    const { perMinute, burst } = this.options;
+    if (perMinute <= 0) {
+      return 0;
+    }
+    const refillPerMs = perMinute / 60000;
+    const bucket = this.buckets.get(key) || { tokens: burst, updatedAt: now };
+    bucket.tokens = Math.min(burst, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      this.prune(now);
+      return 0;
+    }
+    return Math.ceil((1 - bucket.tokens) / refillPerMs / 1000);
+  }
+
+  private prune(now: number) {
+    this.buckets.forEach((bucket, key) => {
+      if (now - bucket.updatedAt > IDLE_BUCKET_MS) {
+        this.buckets.delete(key);
+      }
+    });
+  }
+}
+
+function readLimit(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isNaN(value) ? fallback : value;
+}
+
+// Shared by every route; kept on globalThis to survive dev reloads
+const globalForLimits = globalThis as unknown as { userRateLimiter?: RateLimiter; ipRateLimiter?: RateLimiter };
+
+function limiters() {
+  const burst = readLimit('RATE_LIMIT_BURST', 10);
+  if (!globalForLimits.userRateLimiter) {
+    globalForLimits.userRateLimiter = new RateLimiter({ perMinute: readLimit('RATE_LIMIT_USER_PER_MINUTE', 30), burst });
+  }
+  if (!globalForLimits.ipRateLimiter) {
+    globalForLimits.ipRateLimiter = new RateLimiter({ perMinute: readLimit('RATE_LIMIT_IP_PER_MINUTE', 60), burst });
+  }
+  return { user: globalForLimits.userRateLimiter, ip: globalForLimits.ipRateLimiter };
+}
+
+// Addresses of the reverse proxies in front of the app (TRUSTED_PROXIES, comma
+// separated). X-Forwarded-For is written by whoever sends the request, so it's
+// only believed when TRUSTED_PROXIES is set, and never from a peer known not to
+// be one of them. `next start` doesn't tell us the peer's address at all
+// (request.ip is only filled in on hosted platforms), so there the header is
+// taken on trust: setting TRUSTED_PROXIES means the app port must only be
+// reachable through those proxies (bound to localhost or firewalled off),
+// otherwise a client can pick its own per-IP bucket.
+function trustedProxies(): string[] {
+  return (process.env.TRUSTED_PROXIES || '').split(',').map(address => normalizeIp(address.trim())).filter(Boolean);
+}
+
+function normalizeIp(address: string): string {
+  return address.replace(/^::ffff:/, ''); // IPv4 seen through an IPv6 socket
+}
+
+// The caller's address: the right-most hop not added by a trusted proxy, or
+// undefined when it can't be known (then only the per-account limit applies)
+export function clientIp(request: NextRequest): string | undefined {
+  const proxies = trustedProxies();
+  const peer = request.ip ? normalizeIp(request.ip) : undefined;
+  if (proxies.length === 0 || (peer && proxies.indexOf(peer) < 0)) {
+    return peer;
+  }
+
+  const hops = (request.headers.get('x-forwarded-for') || '').split(',').map(hop => normalizeIp(hop.trim())).filter(Boolean);
+  for (let i = hops.length - 1; i >= 0; i--) {
+    if (proxies.indexOf(hops[i]) < 0) {
+      return hops[i];
+    }
+  }
+  return hops[0] || peer;
+}
+
+// Throws RateLimitError when either the caller's account or address is out of tokens
+export function checkRateLimit(request: NextRequest, userId: string | null) {
+  const { user, ip } = limiters();
+  // Without a known address (e.g. `next start` without a trusted proxy) only the account limit applies
+  const address = clientIp(request);
+  const ipWait = address ? ip.take(`ip:${address}`) : 0;
+  if (ipWait > 0) {
+    throw new RateLimitError('ip', ipWait);
+  }
+  const userWait = userId ? user.take(`user:${userId}`) : 0;
+  if (userWait > 0) {
+    throw new RateLimitError('user', userWait);
+  }
+}
@@ -0,0 +1,61 @@
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { scrypt, timingSafeEqual } from 'crypto';
+import { logger } from '@/lib/logger';
+
+// Users live in a JSON file on the server (never in the client bundle).
+// Create or update entries with `node scripts/create_user.js <username>`.
+export interface StoredUser {
+  id: string;
+  username: string;
+  name?: string | null;
+  email?: string | null;
+  role?: 'admin' | 'user'; // missing means 'user'
+  passwordHash: string; // scrypt$<salt hex>$<key hex>
+}
+
+const KEY_LENGTH = 64;
+
+export function getUsersFilePath(): string {
+  return process.env.AUTH_USERS_FILE || join(process.cwd(), 'data', 'users.json');
+}
+
+export async function loadUsers(): Promise<StoredUser[]> {
+  try {
+    const raw = await readFile(getUsersFilePath(), 'utf8');
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      logger.warn('No users file found - nobody can sign in', { path: getUsersFilePath() });
+      return [];
+    }
+    throw error;
+  }
+}
+
+function deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [scheme, saltHex, keyHex] = passwordHash.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !keyHex) {
+    return false;
+  }
+
+  const expected = Buffer.from(keyHex, 'hex');
+  const actual = await deriveKey(password, Buffer.from(saltHex, 'hex'));
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export async function authenticateUser(username: string, password: string): Promise<StoredUser | null> {
+  const users = await loadUsers();
+  const user = users.find(u => u.username === username);
+
+  // Always run the key derivation so unknown usernames take as long as bad passwords
+  const ok = await verifyPassword(password, user?.passwordHash || `scrypt$00$${'00'.repeat(KEY_LENGTH)}`);
+  return user && ok ? user : null;
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getToken } from 'next-auth/jwt';
+
+const REQUEST_ID_HEADER = 'x-request-id'; // same header as REQUEST_ID_HEADER in lib/logger (not importable on the edge)
+const VALID_REQUEST_ID = /^[A-Za-z0-9_-]{1,64}$/;
+
+// Everything listed in `config.matcher` requires a valid session.
+// API routes get a JSON 401, pages get sent back to the login screen.
+// Every request also gets an ID, passed on to the route (which logs with it)
+// and returned to the client in X-Request-Id.
+export async function middleware(request: NextRequest) {
+  const incoming = request.headers.get(REQUEST_ID_HEADER);
+  const requestId = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : crypto.randomUUID().substring(0, 8);
+
+  const token = await getToken({ req: request, secret: process.env.NEXTAUTH_SECRET });
+
+  if (token) {
+    const headers = new Headers(request.headers);
+    headers.set(REQUEST_ID_HEADER, requestId);
+    const response = NextResponse.next({ request: { headers } });
+    response.headers.set(REQUEST_ID_HEADER, requestId);
+    return response;
+  }
+
+  if (request.nextUrl.pathname.startsWith('/api/')) {
+    return NextResponse.json(
+      { error: 'Authentication required', requestId },
+      { status: 401, headers: { [REQUEST_ID_HEADER]: requestId } }
+    );
+  }
+
+  const loginUrl = new URL('/', request.url);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  matcher: ['/transcribe/:path*', '/api/transcribe', '/api/transcribe-local', '/api/translators', '/api/stream/:path*', '/api/sessions/:path*', '/api/speak', '/api/admin/:path*', '/api/glossary/:path*', '/api/usage', '/jobs/:path*', '/api/jobs/:path*']
+};
@@ -0,0 +1,23 @@
+// Conversation mode: two people, each speaking their own language.
+// Every utterance is tagged with a speaker and translated for the other one.
+
+export type SpeakerId = 'a' | 'b';
+
+export interface Participant {
+  id: SpeakerId;
+  name: string;
+  language: string;
+}
+
+export type SpeakerMode = 'detect' | 'manual';
+
+export interface ConversationConfig {
+  participants: [Participant, Participant];
+  speakerMode: SpeakerMode; // detect from the spoken language, or tap-to-switch
+  activeSpeaker: SpeakerId; // used in manual mode (and as the fallback when detection is unsure)
+}
+
+export const SPEAKER_COLORS: Record<SpeakerId, string> = {
+  a: '#2563eb',
+  b: '#db2777'
+};
@@ -0,0 +1,20 @@
+// A user's rule for one term in one language direction: either a forced
+// rendering in the target language, or "leave it exactly as spoken"
+export interface GlossaryEntry {
+  id: string;
+  source: string; // ISO 639-1 code of the spoken language
+  target: string;
+  term: string;
+  translation: string; // ignored when doNotTranslate is set
+  doNotTranslate: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// What a translator actually has to render for a matched term
+export interface GlossaryMatch {
+  id: string;
+  term: string; // as written in the glossary
+  rendering: string; // target text, or the term itself for do-not-translate
+  doNotTranslate: boolean;
+}
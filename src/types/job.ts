@@ -0,0 +1,27 @@
+// A long recording uploaded for transcription in the background. The
+// transcript itself is written to a conversation session as pieces finish.
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface JobOptions {
+  provider: string;
+  translator: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  languageHint?: string;
+}
+
+export interface TranscriptionJob {
+  id: string;
+  userId: string;
+  fileName: string;
+  status: JobStatus;
+  createdAt: number;
+  updatedAt: number;
+  options: JobOptions;
+  sessionId: string; // conversation the transcript is written to
+  duration?: number; // seconds, known once the audio is decoded
+  completedPieces: number;
+  totalPieces?: number; // known once the audio is split
+  error?: string;
+}
@@ -7,6 +7,7 @@ declare module 'next-auth' {
       name?: string | null
       email?: string | null
       image?: string | null
+      role?: 'admin' | 'user'
     }
   }
 
@@ -14,11 +15,13 @@ declare module 'next-auth' {
     id: string
     name?: string | null
     email?: string | null
+    role?: 'admin' | 'user'
   }
 }
 
 declare module 'next-auth/jwt' {
   interface JWT {
     id: string
+    role?: 'admin' | 'user'
   }
 }
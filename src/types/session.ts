@@ -0,0 +1,22 @@
+import { TranscriptionResult } from './transcript';
+
+// A stored conversation: every finalized line plus a little metadata
+export interface ConversationSession {
+  id: string;
+  userId: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  sourceLanguage?: string;
+  targetLanguage?: string;
+  entries: TranscriptionResult[];
+}
+
+export interface SessionSummary {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  entryCount: number;
+  preview: string;
+}
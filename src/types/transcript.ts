@@ -0,0 +1,32 @@
+import { SpeakerId } from './conversation';
+
+// One line of the conversation as shown in the teleprompter panes.
+// Produced by the streaming endpoint and shared by client and server.
+export interface TranscriptionResult {
+  id?: string;
+  text: string;
+  translatedText?: string;
+  language: string;
+  targetLanguage?: string;
+  speaker?: SpeakerId; // conversation mode only
+  speakerName?: string;
+  timestamp: number; // ms since epoch when the line was last updated
+  startedAt?: number; // ms since epoch when speech for this line began
+  duration?: number; // seconds of audio covered
+  translationService?: string;
+  glossaryApplied?: { term: string; rendering: string }[];
+  transcriptionService?: string;
+  isTranslating?: boolean; // Progressive display: show when translation is in progress
+  serverLatency?: {
+    total: number;
+    whisper: number;
+    translation: number;
+    translationCache?: 'memory' | 'disk' | 'miss' | 'bypass';
+  };
+  testMetrics?: {
+    chunkSize: number;
+    latency: number;
+    apiLatency: number;
+    chunkIndex: number;
+  };
+}
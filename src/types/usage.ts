@@ -0,0 +1,14 @@
+// Daily quota report returned by GET /api/usage
+
+export interface QuotaLimit {
+  used: number;
+  limit: number | null; // null = unlimited
+  remaining: number | null;
+}
+
+export interface QuotaStatus {
+  day: string; // YYYY-MM-DD, UTC
+  resetsAt: string;
+  audioSeconds: QuotaLimit;
+  translatedChars: QuotaLimit;
+}
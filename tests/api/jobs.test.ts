@@ -0,0 +1,142 @@
+import { existsSync } from 'fs';
+import { describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET as listRoute, POST } from '@/app/api/jobs/route';
+import { DELETE, GET } from '@/app/api/jobs/[id]/route';
+import { encodeWav } from '@/lib/audio/wav';
+import { createJob } from '@/lib/jobs/store';
+import { getJobRunner, JobRunner } from '@/lib/jobs/runner';
+import { getSession } from '@/lib/sessions/store';
+import { dataPath } from '@/lib/storage/json-file';
+import { fakeOpenAI } from '../fakes';
+import { sessionCookie, transcribeRequest } from '../helpers';
+
+const RATE = 16000;
+
+// `seconds` of tone with a pause at [pauseAt, pauseAt + 1)
+function recording(seconds: number, pauseAt?: number): Blob {
+  const samples = new Int16Array(seconds * RATE);
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / RATE;
+    samples[i] = pauseAt !== undefined && t >= pauseAt && t < pauseAt + 1 ? 0 : Math.round(Math.sin(2 * Math.PI * 220 * t) * 3000);
+  }
+  return new Blob([new Uint8Array(encodeWav(samples, RATE))], { type: 'audio/wav' });
+}
+
+async function upload(options: Parameters<typeof transcribeRequest>[1] = {}) {
+  const response = await POST(await transcribeRequest('/api/jobs', { audio: recording(5), ...options }));
+  return { status: response.status, body: await response.json() };
+}
+
+async function jobStatus(userId: string, id: string) {
+  const request = new NextRequest(`http://localhost/api/jobs/${id}`, { headers: { cookie: await sessionCookie(userId) } });
+  const response = await GET(request, { params: { id } });
+  return { status: response.status, body: await response.json() };
+}
+
+describe('/api/jobs', () => {
+  it('transcribes an upload piece by piece into a conversation', async () => {
+    fakeOpenAI.audio.transcriptions.create
+      .mockResolvedValueOnce('First half of the meeting')
+      .mockResolvedValueOnce('Second half of the meeting');
+
+    const { status, body } = await upload({ userId: 'jobs-user', audio: recording(75, 29), fields: { target: 'fr' } });
+    expect(status).toBe(202);
+    expect(body.job).toMatchObject({ status: 'queued', fileName: 'recording', completedPieces: 0 });
+
+    await getJobRunner().whenIdle();
+
+    const { body: progress } = await jobStatus('jobs-user', body.job.id);
+    expect(progress.progress).toBe(1);
+    expect(progress.job).toMatchObject({ status: 'completed', duration: 75, totalPieces: 2, completedPieces: 2 });
+    expect(existsSync(dataPath('jobs', 'jobs-user', `${body.job.id}.audio`))).toBe(false);
+
+    const session = await getSession('jobs-user', body.job.sessionId);
+    expect(session.entries.map(entry => [entry.text, entry.translatedText])).toEqual([
+      ['First half of the meeting', '[fr] First half of the meeting'],
+      ['Second half of the meeting', '[fr] Second half of the meeting']
+    ]);
+    // The second line starts at the pause, timed from the start of the recording
+    const offset = (session.entries[1].startedAt! - session.entries[0].startedAt!) / 1000;
+    expect(offset).toBeGreaterThanOrEqual(29);
+    expect(offset).toBeLessThan(30);
+  });
+
+  it('lists only the caller\'s jobs', async () => {
+    await upload({ userId: 'lister' });
+    await getJobRunner().whenIdle();
+
+    const response = await listRoute(new NextRequest('http://localhost/api/jobs', { headers: { cookie: await sessionCookie('someone-else') } }));
+    expect((await response.json()).jobs).toEqual([]);
+  });
+
+  it('rejects files that are not audio before queueing anything', async () => {
+    const { status, body } = await upload({ audio: new Blob(['%PDF-1.7'], { type: 'audio/mpeg' }) });
+
+    expect(status).toBe(415);
+    expect(body.error).toMatch(/^Unrecognized audio format/);
+  });
+
+  it('rejects a missing file and an unknown translator', async () => {
+    expect((await upload({ audio: null })).status).toBe(400);
+    expect((await upload({ fields: { translator: 'babelfish' } })).status).toBe(400);
+  });
+
+  it('answers 404 for someone else\'s job and deletes your own', async () => {
+    const { body } = await upload({ userId: 'owner' });
+    await getJobRunner().whenIdle();
+
+    expect((await jobStatus('intruder', body.job.id)).status).toBe(404);
+
+    const request = new NextRequest(`http://localhost/api/jobs/${body.job.id}`, { method: 'DELETE', headers: { cookie: await sessionCookie('owner') } });
+    expect((await DELETE(request, { params: { id: body.job.id } })).status).toBe(204);
+    expect((await jobStatus('owner', body.job.id)).status).toBe(404);
+  });
+
+  it('resumes jobs left unfinished by a restart when their progress is polled', async () => {
+    const job = await createJob('restarted', {
+      fileName: 'memo.wav',
+      options: { provider: 'openai', translator: 'google', sourceLanguage: 'en', targetLanguage: 'es' },
+      audio: Buffer.from(await recording(3).arrayBuffer())
+    });
+    delete (globalThis as { jobRunner?: JobRunner }).jobRunner; // as after a restart
+
+    await jobStatus('restarted', job.id);
+
+    await vi.waitFor(async () => {
+      expect((await jobStatus('restarted', job.id)).body.job.status).toBe('completed');
+    });
+  });
+});
+
+describe('JobRunner', () => {
+  const options = { provider: 'openai', translator: 'google', sourceLanguage: 'en', targetLanguage: 'es' };
+
+  async function runJob(runner: JobRunner, userId: string) {
+    const job = await createJob(userId, { fileName: 'memo.wav', options, audio: Buffer.from(await recording(3).arrayBuffer()) });
+    runner.enqueue(job);
+    await runner.whenIdle();
+    return (await jobStatus(userId, job.id)).body.job;
+  }
+
+  it('retries a piece that fails', async () => {
+    fakeOpenAI.audio.transcriptions.create
+      .mockRejectedValueOnce(new Error('Connection reset'))
+      .mockResolvedValueOnce('Worked the second time');
+
+    const job = await runJob(new JobRunner({ concurrency: 1, attempts: 2, retryDelayMs: 0 }), 'retry-user');
+
+    expect(job.status).toBe('completed');
+    expect(fakeOpenAI.audio.transcriptions.create).toHaveBeenCalledTimes(2);
+    expect((await getSession('retry-user', job.sessionId)).entries[0].text).toBe('Worked the second time');
+  });
+
+  it('fails the job once the attempts run out', async () => {
+    fakeOpenAI.audio.transcriptions.create.mockRejectedValue(new Error('Service unavailable'));
+
+    const job = await runJob(new JobRunner({ concurrency: 1, attempts: 2, retryDelayMs: 0 }), 'failing-user');
+
+    expect(job).toMatchObject({ status: 'failed', error: 'Service unavailable', completedPieces: 0 });
+    expect(fakeOpenAI.audio.transcriptions.create).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,51 @@
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/speak/route';
+import { recordUsage } from '@/lib/usage/quota';
+import { sessionCookie } from '../helpers';
+
+async function speak(body: Record<string, unknown>, userId?: string) {
+  const response = await POST(new NextRequest('http://localhost/api/speak', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json', cookie: await sessionCookie(userId) }
+  }));
+  return { status: response.status, body: await response.json() };
+}
+
+describe('POST /api/speak', () => {
+  beforeEach(() => {
+    const voices = mkdtempSync(join(tmpdir(), 'piper-voices-'));
+    writeFileSync(join(voices, 'es_ES-davefx-medium.onnx'), '');
+    process.env.PIPER_VOICES_DIR = voices;
+  });
+
+  afterEach(() => {
+    delete process.env.PIPER_VOICES_DIR;
+  });
+
+  it('rejects a Piper voice that is not installed', async () => {
+    const { status, body } = await speak({ text: 'Hola', language: 'es', provider: 'piper', voice: '../../models/other' });
+
+    expect(status).toBe(400);
+    expect(body.error).toBe('Unknown voice "../../models/other" for es');
+  });
+
+  it('answers 429 once the caller\'s quota is used up', async () => {
+    process.env.DAILY_AUDIO_SECONDS_QUOTA = '1';
+    try {
+      recordUsage('speaker', { audioSeconds: 5 });
+      await new Promise(resolve => setTimeout(resolve, 10)); // usage is recorded in the background
+
+      const { status, body } = await speak({ text: 'Hola', language: 'es', provider: 'piper' }, 'speaker');
+
+      expect(status).toBe(429);
+      expect(body.limit).toBe('quota:audioSeconds');
+    } finally {
+      delete process.env.DAILY_AUDIO_SECONDS_QUOTA;
+    }
+  });
+});
@@ -0,0 +1,77 @@
+import { existsSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { POST } from '@/app/api/transcribe-local/route';
+import { WorkerQueueFullError, WorkerUnavailableError } from '@/lib/transcription/whisper-worker';
+import { fakeWhisperPool, pythonWorkerOutput } from '../fakes';
+import { transcribeRequest } from '../helpers';
+
+async function post(options: Parameters<typeof transcribeRequest>[1] = {}) {
+  const response = await POST(await transcribeRequest('/api/transcribe-local', options));
+  return { status: response.status, headers: response.headers, body: await response.json() };
+}
+
+describe('POST /api/transcribe-local', () => {
+  it('normalizes the Python worker output', async () => {
+    const { status, body } = await post({ params: { language: 'es' } });
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({
+      text: 'Hola, ¿cómo estás?',
+      translatedText: '[en] Hola, ¿cómo estás?',
+      language: 'es',
+      targetLanguage: 'en',
+      detected_language: 'es',
+      language_probability: 0.97,
+      duration: 2.1,
+      transcriptionService: 'local',
+      model: 'small',
+      providerDetails: { device: 'cuda', compute_type: 'float16', beam_size: 1, vad_filter: true, cuda_available: true },
+      providerTiming: { totalMs: 900, modelLoadMs: 0, transcriptionMs: 850 }
+    });
+    expect(body.segments).toEqual([{ start: 0, end: 2.1, text: 'Hola, ¿cómo estás?' }]);
+  });
+
+  it('hands the worker a temp file, the model and the language hint, then deletes the file', async () => {
+    let audioPath = '';
+    fakeWhisperPool.transcribe.mockImplementationOnce(async (request: { audioPath: string }) => {
+      audioPath = request.audioPath;
+      expect(existsSync(audioPath)).toBe(true);
+      return pythonWorkerOutput({ text: 'Hello', language: 'en' });
+    });
+
+    await post({ params: { model: 'medium' } });
+
+    expect(fakeWhisperPool.transcribe).toHaveBeenCalledWith(
+      expect.objectContaining({ modelSize: 'medium', language: 'en', wordTimestamps: false }),
+      expect.any(String)
+    );
+    expect(audioPath).toMatch(/\.wav$/);
+    expect(existsSync(audioPath)).toBe(false);
+  });
+
+  it('copes with missing optional fields in the worker output', async () => {
+    fakeWhisperPool.transcribe.mockResolvedValueOnce({ text: '', language: 'en', duration: 0.4 });
+
+    const { status, body } = await post();
+
+    expect(status).toBe(200);
+    expect(body.text).toBe('');
+    expect(body.translatedText).toBe('');
+    expect(body.segments).toEqual([]);
+    expect(body.providerTiming).toEqual({ totalMs: 0 });
+  });
+
+  it.each([
+    ['a full queue', new WorkerQueueFullError(8)],
+    ['no running workers', new WorkerUnavailableError('No Whisper worker is running')]
+  ])('answers 503 with Retry-After for %s', async (_label, error) => {
+    // A full queue is worth one more try; still full means give up
+    fakeWhisperPool.transcribe.mockRejectedValueOnce(error).mockRejectedValueOnce(error);
+
+    const { status, headers, body } = await post();
+
+    expect(status).toBe(503);
+    expect(headers.get('Retry-After')).toBe('2');
+    expect(body.error).toBe(`Local transcription unavailable: ${error.message}`);
+  });
+});
@@ -0,0 +1,354 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { POST } from '@/app/api/transcribe/route';
+import { addGlossaryEntry } from '@/lib/glossary/store';
+import { getMetricsRegistry } from '@/lib/metrics';
+import { fakeGoogleTranslate, fakeOfflineTranslate, fakeOpenAI, fakeWhisperPool, pythonWorkerOutput } from '../fakes';
+import { transcribeRequest, wavBlob } from '../helpers';
+
+async function post(options: Parameters<typeof transcribeRequest>[1] = {}) {
+  const response = await POST(await transcribeRequest('/api/transcribe', options));
+  return { status: response.status, headers: response.headers, body: await response.json() };
+}
+
+describe('POST /api/transcribe', () => {
+  it('transcribes with OpenAI and translates with Google by default', async () => {
+    const { status, body } = await post();
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({
+      text: 'Hello there, how are you today?',
+      translatedText: '[es] Hello there, how are you today?',
+      language: 'en',
+      targetLanguage: 'es',
+      transcriptionService: 'openai',
+      translationService: 'google',
+      model: 'whisper-1'
+    });
+    expect(body.serverLatency).toEqual(expect.objectContaining({ total: expect.any(Number), whisper: expect.any(Number) }));
+
+    const whisperConfig = fakeOpenAI.audio.transcriptions.create.mock.calls[0][0];
+    expect(whisperConfig).toMatchObject({ model: 'whisper-1', language: 'en', response_format: 'text', temperature: 0 });
+  });
+
+  it('translates speech in the target language back to the source language', async () => {
+    fakeOpenAI.audio.transcriptions.create.mockResolvedValueOnce('Hola, ¿qué tal?');
+
+    const { status, body } = await post({ params: { language: 'es' } });
+
+    expect(status).toBe(200);
+    expect(body.language).toBe('es');
+    expect(body.targetLanguage).toBe('en');
+    expect(fakeGoogleTranslate.translate).toHaveBeenCalledWith('Hola, ¿qué tal?', { from: 'es', to: 'en' });
+  });
+
+  it('recognizes Spanish speech without a language hint', async () => {
+    fakeOpenAI.audio.transcriptions.create.mockResolvedValueOnce('Buenos días, necesito ayuda con mi cuenta');
+
+    const { status, body } = await post();
+
+    expect(status).toBe(200);
+    expect(body.language).toBe('es');
+    expect(body.targetLanguage).toBe('en');
+    expect(body.languageDecision).toMatchObject({ language: 'es', method: 'text', text: { language: 'es' } });
+    expect(fakeGoogleTranslate.translate).toHaveBeenCalledWith('Buenos días, necesito ayuda con mi cuenta', { from: 'es', to: 'en' });
+  });
+
+  it('reports a language hint as the deciding factor', async () => {
+    const { body } = await post({ params: { language: 'en' } });
+    expect(body.languageDecision).toEqual({ language: 'en', confidence: 1, method: 'hint' });
+  });
+
+  it('uses the detected language from verbose_json output', async () => {
+    fakeOpenAI.audio.transcriptions.create.mockResolvedValueOnce({
+      text: 'Bonjour tout le monde',
+      language: 'french',
+      duration: 1.8,
+      segments: [{ start: 0, end: 1.8, text: ' Bonjour tout le monde' }]
+    });
+
+    const { body } = await post({ params: { format: 'verbose_json', source: 'fr', target: 'en' } });
+
+    expect(body.detected_language).toBe('french');
+    expect(body.duration).toBe(1.8);
+    expect(body.segments).toEqual([{ start: 0, end: 1.8, text: 'Bonjour tout le monde' }]);
+  });
+
+  it('selects the translator from ?translator=', async () => {
+    const { status, body } = await post({ params: { translator: 'gpt4' } });
+
+    expect(status).toBe(200);
+    expect(body.translationService).toBe('gpt4');
+    expect(body.translatedText).toBe('gpt4:"Hello there, how are you today?"');
+    expect(fakeGoogleTranslate.translate).not.toHaveBeenCalled();
+  });
+
+  it('keeps the transcript when every translator fails', async () => {
+    fakeOpenAI.audio.transcriptions.create.mockResolvedValueOnce('Nothing cached for this one');
+    fakeGoogleTranslate.translate.mockRejectedValueOnce(new Error('Google is down'));
+    fakeOpenAI.chat.completions.create.mockRejectedValueOnce(new Error('GPT-4 is down'));
+    fakeOfflineTranslate.translate.mockRejectedValueOnce(new Error('No installed package for en -> es'));
+
+    const { status, body } = await post();
+
+    expect(status).toBe(200);
+    expect(body.text).toBe('Nothing cached for this one');
+    expect(body.translatedText).toBe('');
+    expect(body.fallbacks.translation.map((f: { provider: string }) => f.provider)).toEqual(['google', 'gpt4', 'offline']);
+  });
+
+  describe('failover', () => {
+    beforeEach(() => {
+      fakeWhisperPool.hasBeenReady.mockReturnValue(true);
+    });
+
+    it('falls back to the local engine when OpenAI fails and says why', async () => {
+      fakeOpenAI.audio.transcriptions.create.mockRejectedValueOnce(Object.assign(new Error('Bad gateway'), { status: 502 }));
+      fakeOpenAI.audio.transcriptions.create.mockRejectedValueOnce(Object.assign(new Error('Bad gateway'), { status: 502 }));
+      fakeWhisperPool.transcribe.mockResolvedValueOnce(pythonWorkerOutput({ text: 'Served locally this time', language: 'en' }));
+
+      const { status, body } = await post();
+
+      expect(status).toBe(200);
+      expect(body.text).toBe('Served locally this time');
+      expect(body.transcriptionService).toBe('local');
+      expect(body.fallbacks.transcription).toEqual([{ provider: 'openai', reason: 'failed', tries: 2, error: 'Bad gateway' }]);
+      // The OpenAI model name means nothing to the local engine
+      expect(fakeWhisperPool.transcribe).toHaveBeenCalledWith(expect.objectContaining({ modelSize: 'small' }), expect.any(String));
+    });
+
+    it('retries a rate-limited call before falling back', async () => {
+      fakeOpenAI.audio.transcriptions.create.mockRejectedValueOnce(Object.assign(new Error('Rate limit reached'), { status: 429 }));
+
+      const { body } = await post();
+
+      expect(body.transcriptionService).toBe('openai');
+      expect(body.fallbacks.transcription).toEqual([]);
+      expect(fakeOpenAI.audio.transcriptions.create).toHaveBeenCalledTimes(2);
+      expect(fakeWhisperPool.transcribe).not.toHaveBeenCalled();
+    });
+
+    it('falls back to GPT-4 when Google fails', async () => {
+      fakeOpenAI.audio.transcriptions.create.mockResolvedValueOnce('Google will not translate this');
+      fakeGoogleTranslate.translate.mockRejectedValueOnce(new Error('Google is down'));
+
+      const { body } = await post();
+
+      expect(body.translationService).toBe('gpt4');
+      expect(body.translatedText).toBe('gpt4:"Google will not translate this"');
+      expect(body.fallbacks.translation).toEqual([{ provider: 'google', reason: 'failed', tries: 1, error: 'Google is down' }]);
+    });
+
+    it('does not claim glossary terms the offline translator cannot keep', async () => {
+      await addGlossaryEntry('glossary-user', { source: 'en', target: 'es', term: 'Mama Rosa', translation: 'Mamá Rosa' });
+      fakeOpenAI.audio.transcriptions.create.mockResolvedValue('Dinner at Mama Rosa tonight');
+
+      const google = await post({ userId: 'glossary-user' });
+      expect(google.body.glossaryApplied).toEqual([expect.objectContaining({ term: 'Mama Rosa', rendering: 'Mamá Rosa' })]);
+
+      fakeGoogleTranslate.translate.mockRejectedValueOnce(new Error('Google is down'));
+      fakeOpenAI.chat.completions.create.mockRejectedValueOnce(new Error('GPT-4 is down'));
+      const offline = await post({ userId: 'glossary-user' });
+
+      expect(offline.body.translationService).toBe('offline');
+      expect(offline.body.glossaryApplied).toEqual([]);
+    });
+
+    it('skips fallback translators without the language pair', async () => {
+      fakeOpenAI.audio.transcriptions.create.mockResolvedValueOnce('Neither online translator works now');
+      fakeGoogleTranslate.translate.mockRejectedValueOnce(new Error('Google is down'));
+      fakeOpenAI.chat.completions.create.mockRejectedValueOnce(new Error('GPT-4 is down'));
+      fakeOfflineTranslate.supportedLanguages.mockResolvedValueOnce(['en', 'de']);
+
+      const { body } = await post();
+
+      expect(body.translatedText).toBe('');
+      expect(body.fallbacks.translation.map((f: { provider: string; reason: string }) => [f.provider, f.reason])).toEqual([
+        ['google', 'failed'],
+        ['gpt4', 'failed'],
+        ['offline', 'unsupported']
+      ]);
+      expect(fakeOfflineTranslate.translate).not.toHaveBeenCalled();
+    });
+
+    it('stops calling a provider whose circuit is open', async () => {
+      process.env.CIRCUIT_FAILURE_THRESHOLD = '2';
+      try {
+        fakeOpenAI.audio.transcriptions.create.mockRejectedValue(new Error('OpenAI is down'));
+        await post();
+        await post();
+        fakeOpenAI.audio.transcriptions.create.mockClear();
+
+        const { status, body } = await post();
+
+        expect(status).toBe(200);
+        expect(body.transcriptionService).toBe('local');
+        expect(body.fallbacks.transcription).toEqual([
+          { provider: 'openai', reason: 'circuit-open', tries: 0, error: '2 failures in a row' }
+        ]);
+        expect(fakeOpenAI.audio.transcriptions.create).not.toHaveBeenCalled();
+      } finally {
+        delete process.env.CIRCUIT_FAILURE_THRESHOLD;
+      }
+    });
+
+    it('leaves out a local engine that never came up', async () => {
+      fakeWhisperPool.hasBeenReady.mockReturnValue(false);
+      fakeOpenAI.audio.transcriptions.create.mockRejectedValueOnce(new Error('OpenAI is down'));
+
+      const { status, body } = await post();
+
+      expect(status).toBe(500);
+      expect(body.fallbacks.transcription).toEqual([{ provider: 'openai', reason: 'failed', tries: 1, error: 'OpenAI is down' }]);
+      expect(fakeWhisperPool.transcribe).not.toHaveBeenCalled();
+    });
+
+    it('answers 503 when every provider\'s circuit is open', async () => {
+      fakeWhisperPool.hasBeenReady.mockReturnValue(false);
+      process.env.CIRCUIT_FAILURE_THRESHOLD = '1';
+      try {
+        fakeOpenAI.audio.transcriptions.create.mockRejectedValueOnce(new Error('OpenAI is down'));
+        expect((await post()).status).toBe(500);
+
+        const { status, headers, body } = await post();
+
+        expect(status).toBe(503);
+        expect(headers.get('Retry-After')).toBe('30');
+        expect(body.fallbacks.transcription).toEqual([expect.objectContaining({ provider: 'openai', reason: 'circuit-open' })]);
+      } finally {
+        delete process.env.CIRCUIT_FAILURE_THRESHOLD;
+      }
+    });
+  });
+
+  describe('request validation', () => {
+    it('rejects a request without audio', async () => {
+      const { status, body } = await post({ audio: null });
+      expect(status).toBe(400);
+      expect(body.error).toBe('No audio file provided');
+    });
+
+    it('rejects an empty audio file', async () => {
+      const { status, body } = await post({ audio: new Blob([], { type: 'audio/webm' }) });
+      expect(status).toBe(400);
+      expect(body.error).toBe('Audio file is empty');
+    });
+
+    it('rejects an unknown provider', async () => {
+      const { status, body } = await post({ params: { provider: 'carrier-pigeon' } });
+      expect(status).toBe(400);
+      expect(body.error).toContain('carrier-pigeon');
+      // Made-up names don't become metric labels
+      expect(getMetricsRegistry().render()).not.toContain('carrier-pigeon');
+      expect(getMetricsRegistry().render()).toContain('provider="invalid"');
+    });
+
+    it('rejects an unknown translator', async () => {
+      const { status, body } = await post({ params: { translator: 'babelfish' } });
+      expect(status).toBe(400);
+      expect(body.error).toMatch(/Unknown translator "babelfish"\. Available: google, gpt4/);
+    });
+
+    it('rejects a language pair the translator does not support', async () => {
+      const { status, body } = await post({ params: { target: 'tlh' } });
+      expect(status).toBe(400);
+      expect(body.error).toBe('Translator "google" does not support en → tlh');
+      expect(fakeOpenAI.audio.transcriptions.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('audio validation', () => {
+    it('answers 415 for bytes that are not a known audio container, whatever the MIME type says', async () => {
+      const { status, body } = await post({ audio: new Blob(['<html>not audio</html>'], { type: 'audio/webm' }) });
+
+      expect(status).toBe(415);
+      expect(body.error).toMatch(/^Unrecognized audio format/);
+      expect(fakeOpenAI.audio.transcriptions.create).not.toHaveBeenCalled();
+    });
+
+    it('answers 413 for an upload over the size limit', async () => {
+      process.env.MAX_AUDIO_UPLOAD_BYTES = '10000';
+      try {
+        const { status, body } = await post();
+        expect(status).toBe(413);
+        expect(body.error).toBe('Audio exceeds the 10 KB limit');
+      } finally {
+        delete process.env.MAX_AUDIO_UPLOAD_BYTES;
+      }
+    });
+
+    it('answers 413 for a recording over the duration limit', async () => {
+      process.env.MAX_AUDIO_SECONDS = '2';
+      try {
+        const { status, body } = await post({ audio: wavBlob(3) });
+        expect(status).toBe(413);
+        expect(body.error).toBe('Audio exceeds the 2 second limit');
+      } finally {
+        delete process.env.MAX_AUDIO_SECONDS;
+      }
+    });
+
+    it('sends the provider a WAV file named for its real format', async () => {
+      await post({ audio: new Blob([await wavBlob().arrayBuffer()], { type: 'audio/mp3' }) });
+
+      const { file } = fakeOpenAI.audio.transcriptions.create.mock.calls[0][0];
+      expect(file.name).toBe('audio.wav');
+      expect(file.type).toBe('audio/wav');
+    });
+  });
+
+  describe('OpenAI error mapping', () => {
+    it('maps API key errors to 401 without echoing the key', async () => {
+      fakeOpenAI.audio.transcriptions.create.mockRejectedValueOnce(
+        new Error('Incorrect API key provided: sk-test-not-a-real-key-0000000000')
+      );
+
+      const { status, body } = await post();
+
+      expect(status).toBe(401);
+      expect(body.error).toMatch(/^OpenAI API Key error:/);
+      expect(body.error).not.toContain('sk-test');
+      expect(body.requestId).toEqual(expect.any(String));
+    });
+
+    it.each([
+      ['You exceeded your current quota, please check your plan'],
+      ['Your billing details are missing']
+    ])('maps "%s" to 402', async (message) => {
+      fakeOpenAI.audio.transcriptions.create.mockRejectedValueOnce(new Error(message));
+
+      const { status, body } = await post();
+
+      expect(status).toBe(402);
+      expect(body.error).toBe(`OpenAI billing/quota error: ${message}`);
+    });
+
+    it('maps anything else to 500', async () => {
+      fakeOpenAI.audio.transcriptions.create.mockRejectedValueOnce(new Error('socket hang up'));
+
+      const { status, body } = await post();
+
+      expect(status).toBe(500);
+      expect(body.error).toBe('Transcription failed: socket hang up');
+    });
+  });
+
+  describe('daily quota', () => {
+    it('answers 429 with Retry-After once the audio quota is used up', async () => {
+      process.env.DAILY_AUDIO_SECONDS_QUOTA = '1';
+      try {
+        fakeOpenAI.audio.transcriptions.create.mockResolvedValueOnce({ text: 'A long recording', duration: 30 });
+        const first = await post({ userId: 'quota-user', params: { format: 'verbose_json' } });
+        expect(first.status).toBe(200);
+
+        await new Promise(resolve => setTimeout(resolve, 10)); // usage is recorded in the background
+        const second = await post({ userId: 'quota-user' });
+
+        expect(second.status).toBe(429);
+        expect(second.body.limit).toBe('quota:audioSeconds');
+        expect(Number(second.headers.get('Retry-After'))).toBeGreaterThan(0);
+      } finally {
+        delete process.env.DAILY_AUDIO_SECONDS_QUOTA;
+      }
+    });
+  });
+});
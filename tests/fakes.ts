@@ -0,0 +1,64 @@
+import { vi } from 'vitest';
+
+// Stand-ins for every external service the server talks to, installed by
+// tests/setup.ts so the suite never touches the network or a GPU.
+
+export const fakeOpenAI = {
+  audio: {
+    transcriptions: { create: vi.fn() },
+    speech: { create: vi.fn() }
+  },
+  chat: {
+    completions: { create: vi.fn() }
+  }
+};
+
+export const fakeGoogleTranslate = {
+  translate: vi.fn(),
+  getLanguages: vi.fn()
+};
+
+export const fakeWhisperPool = {
+  transcribe: vi.fn(),
+  hasBeenReady: vi.fn() // whether the local engine may take over from OpenAI
+};
+
+// scripts/offline_translate.py (Argos)
+export const fakeOfflineTranslate = {
+  supportedLanguages: vi.fn(),
+  translate: vi.fn()
+};
+
+// What scripts/whisper_worker.py prints for a successful transcription
+export function pythonWorkerOutput(overrides: Record<string, unknown> = {}) {
+  return {
+    text: ' Hola, ¿cómo estás? ',
+    language: 'es',
+    language_probability: 0.97,
+    duration: 2.1,
+    segments: [{ start: 0, end: 2.1, text: 'Hola, ¿cómo estás?' }],
+    model_size: 'small',
+    device: 'cuda',
+    compute_type: 'float16',
+    beam_size: 1,
+    vad_filter: true,
+    cuda_available: true,
+    timing: { total_ms: 900, model_load_ms: 0, transcription_ms: 850 },
+    ...overrides
+  };
+}
+
+// Sensible defaults; individual tests override with mockResolvedValueOnce/mockRejectedValueOnce
+export function resetFakes() {
+  fakeOpenAI.audio.transcriptions.create.mockReset().mockResolvedValue('Hello there, how are you today?');
+  fakeOpenAI.audio.speech.create.mockReset();
+  fakeOpenAI.chat.completions.create.mockReset().mockImplementation(async ({ messages }) => ({
+    choices: [{ message: { content: `gpt4:${messages[messages.length - 1].content.split('\n\n').pop()}` } }]
+  }));
+  fakeGoogleTranslate.translate.mockReset().mockImplementation(async (text: string, options: { to: string }) => [`[${options.to}] ${text}`]);
+  fakeGoogleTranslate.getLanguages.mockReset().mockResolvedValue([[{ code: 'en' }, { code: 'es' }, { code: 'fr' }]]);
+  fakeWhisperPool.transcribe.mockReset().mockResolvedValue(pythonWorkerOutput());
+  fakeWhisperPool.hasBeenReady.mockReset().mockReturnValue(false); // cloud-only, as in CI
+  fakeOfflineTranslate.supportedLanguages.mockReset().mockResolvedValue(['en', 'es']);
+  fakeOfflineTranslate.translate.mockReset().mockImplementation(async ({ text, target }: { text: string; target: string }) => `offline:${target}:${text}`);
+}
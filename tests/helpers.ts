@@ -0,0 +1,41 @@
+import { encode } from 'next-auth/jwt';
+import { NextRequest } from 'next/server';
+import { encodeWav } from '@/lib/audio/wav';
+
+// Signed session cookie for `userId`, as next-auth would set it after sign-in
+export async function sessionCookie(userId: string = 'user-1'): Promise<string> {
+  const token = await encode({ token: { id: userId, name: userId, role: 'user' }, secret: process.env.NEXTAUTH_SECRET! });
+  return `next-auth.session-token=${token}`;
+}
+
+// `seconds` of quiet 16 kHz mono WAV, the format uploads are normalized to
+export function wavBlob(seconds: number = 1): Blob {
+  const samples = new Int16Array(Math.round(seconds * 16000)).map((_, i) => (i % 2 ? 40 : -40));
+  return new Blob([new Uint8Array(encodeWav(samples, 16000))], { type: 'audio/wav' });
+}
+
+interface TranscribeRequestOptions {
+  params?: Record<string, string>;
+  audio?: Blob | null; // null sends no audio field at all
+  fields?: Record<string, string>;
+  userId?: string;
+}
+
+// Multipart POST like the browser's, to /api/transcribe or /api/transcribe-local
+export async function transcribeRequest(path: string, options: TranscribeRequestOptions = {}): Promise<NextRequest> {
+  const url = new URL(`http://localhost${path}`);
+  Object.entries(options.params || {}).forEach(([name, value]) => url.searchParams.set(name, value));
+
+  const formData = new FormData();
+  const audio = options.audio === undefined ? wavBlob() : options.audio;
+  if (audio) {
+    formData.append('audio', audio, 'recording');
+  }
+  Object.entries(options.fields || {}).forEach(([name, value]) => formData.append(name, value));
+
+  return new NextRequest(url, {
+    method: 'POST',
+    body: formData,
+    headers: { cookie: await sessionCookie(options.userId) }
+  });
+}
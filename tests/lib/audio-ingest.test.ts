@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { encodeWav } from '@/lib/audio/wav';
+import { prepareAudio, sniffAudioContainer, UnsupportedAudioError } from '@/lib/audio/ingest';
+import { runProcess } from '@/lib/speech/process';
+
+vi.mock('@/lib/speech/process', () => ({ runProcess: vi.fn() }));
+
+const ffmpeg = vi.mocked(runProcess);
+
+function bytes(...parts: (string | number[])[]): Buffer {
+  return Buffer.concat(parts.map(part => (typeof part === 'string' ? Buffer.from(part, 'latin1') : Buffer.from(part))));
+}
+
+describe('sniffAudioContainer', () => {
+  it.each([
+    ['wav', bytes('RIFF', [0, 0, 0, 0], 'WAVEfmt ')],
+    ['ogg', bytes('OggS', [0, 2])],
+    ['flac', bytes('fLaC', [0, 0, 0, 34])],
+    ['webm', bytes([0x1a, 0x45, 0xdf, 0xa3, 0x9f])],
+    ['mp4', bytes([0, 0, 0, 0x20], 'ftypM4A ', [0, 0, 0, 0])],
+    ['mp3', bytes('ID3', [4, 0, 0])],
+    ['mp3', bytes([0xff, 0xfb, 0x90, 0x64])]
+  ])('recognizes %s', (container, audio) => {
+    expect(sniffAudioContainer(audio)).toBe(container);
+  });
+
+  it('rejects anything else', () => {
+    expect(sniffAudioContainer(bytes('{"audio": true}'))).toBeNull();
+    expect(sniffAudioContainer(Buffer.alloc(0))).toBeNull();
+  });
+});
+
+describe('prepareAudio', () => {
+  const wav16k = encodeWav(new Int16Array(16000), 16000);
+
+  beforeEach(() => {
+    ffmpeg.mockReset();
+  });
+
+  it('passes 16 kHz mono WAV through untouched', async () => {
+    const prepared = await prepareAudio(wav16k, 'req');
+
+    expect(prepared).toEqual({ audio: wav16k, mimeType: 'audio/wav', container: 'wav', duration: 1, transcoded: false });
+    expect(ffmpeg).not.toHaveBeenCalled();
+  });
+
+  it('transcodes other formats to 16 kHz mono WAV', async () => {
+    ffmpeg.mockResolvedValueOnce(encodeWav(new Int16Array(32000), 16000));
+
+    const prepared = await prepareAudio(bytes([0, 0, 0, 0x1c], 'ftypmp42', [0, 0, 0, 0]), 'req');
+
+    expect(prepared).toMatchObject({ mimeType: 'audio/wav', container: 'mp4', duration: 2, transcoded: true });
+    const [command, args] = ffmpeg.mock.calls[0];
+    expect(command).toBe('ffmpeg');
+    expect(args).toEqual(expect.arrayContaining(['-ac', '1', '-ar', '16000', '-f', 'wav', 'pipe:1']));
+    expect(args[args.indexOf('-i') + 1]).toMatch(/\.mp4$/);
+  });
+
+  it('gives ffmpeg longer for bigger uploads', async () => {
+    ffmpeg.mockResolvedValue(wav16k);
+
+    await prepareAudio(bytes('OggS', [0, 2, 0, 0]), 'req');
+    await prepareAudio(Buffer.concat([bytes('OggS', [0, 2, 0, 0]), Buffer.alloc(10 * 1024 * 1024)]), 'req', { maxBytes: null, maxSeconds: null });
+
+    expect(ffmpeg.mock.calls[0][3]).toBe(60001);
+    expect(ffmpeg.mock.calls[1][3]).toBe(80001);
+  });
+
+  it('resamples WAV files in other formats', async () => {
+    ffmpeg.mockResolvedValueOnce(wav16k);
+
+    const prepared = await prepareAudio(encodeWav(new Int16Array(44100), 44100), 'req');
+
+    expect(prepared.transcoded).toBe(true);
+  });
+
+  it('reports undecodable audio as unsupported', async () => {
+    ffmpeg.mockRejectedValueOnce(new Error('ffmpeg exited with code 1: Invalid data found when processing input'));
+
+    await expect(prepareAudio(bytes('OggS', [0, 2, 0, 0]), 'req')).rejects.toThrow(UnsupportedAudioError);
+  });
+
+  it('passes audio through with its sniffed type when ffmpeg is not installed', async () => {
+    ffmpeg.mockRejectedValueOnce(Object.assign(new Error('spawn ffmpeg ENOENT'), { code: 'ENOENT' }));
+    const ogg = bytes('OggS', [0, 2, 0, 0]);
+
+    const prepared = await prepareAudio(ogg, 'req');
+
+    expect(prepared).toEqual({ audio: ogg, mimeType: 'audio/ogg', container: 'ogg', duration: undefined, transcoded: false });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { decideLanguage } from '@/lib/language';
+import { DirectionTracker, voteFor } from '@/lib/streaming/direction';
+
+const LANGUAGES: [string, string] = ['en', 'es'];
+
+// What the pipeline decides for a segment when the engine detected `detected`
+function observe(tracker: DirectionTracker, text: string, detected?: string, detectedProbability?: number) {
+  return tracker.observe(decideLanguage({ detected, detectedProbability, text, expected: LANGUAGES }), text);
+}
+
+describe('voteFor', () => {
+  it('votes for a decided conversation language', () => {
+    const decision = decideLanguage({ detected: 'es', detectedProbability: 0.9, text: 'Necesito ayuda con mi cuenta' });
+    expect(voteFor(decision, LANGUAGES)).toEqual({ language: 'es', confidence: decision.confidence });
+  });
+
+  it('falls back to the text guesses when the decision is another language', () => {
+    const decision = decideLanguage({ detected: 'pt', detectedProbability: 0.95, text: 'Necesito comprar pan y leche para mañana' });
+    expect(voteFor(decision, LANGUAGES)?.language).toBe('es');
+  });
+
+  it('abstains without evidence', () => {
+    expect(voteFor(decideLanguage({ forced: 'en', text: 'ok' }), LANGUAGES)).toBeNull();
+  });
+});
+
+describe('DirectionTracker', () => {
+  it('starts in the first language', () => {
+    expect(new DirectionTracker(LANGUAGES).language).toBe('en');
+  });
+
+  it('switches on a clear sentence in the other language', () => {
+    const tracker = new DirectionTracker(LANGUAGES);
+    expect(observe(tracker, 'Buenos días, necesito ayuda con mi cuenta', 'es')).toBe('es');
+    expect(observe(tracker, 'Sure, I can help you with that account', 'en')).toBe('en');
+  });
+
+  it('holds the direction for a single borrowed word', () => {
+    const tracker = new DirectionTracker(LANGUAGES);
+    expect(observe(tracker, 'I went to the market this morning', 'en')).toBe('en');
+    expect(observe(tracker, 'Gracias', 'es')).toBe('en');
+    expect(observe(tracker, 'and then I walked home', 'en')).toBe('en');
+  });
+
+  it('switches once weak evidence piles up', () => {
+    const tracker = new DirectionTracker(LANGUAGES);
+    expect(observe(tracker, 'Sí, claro', 'es', 0.5)).toBe('en');
+    expect(observe(tracker, 'Muy bien', 'es', 0.5)).toBe('es');
+  });
+
+  it('forgets weak evidence when the current language is heard again', () => {
+    const tracker = new DirectionTracker(LANGUAGES);
+    observe(tracker, 'Sí, claro', 'es', 0.5);
+    observe(tracker, 'Let me check that for you', 'en');
+    expect(observe(tracker, 'Muy bien', 'es', 0.5)).toBe('en');
+  });
+
+  it('keeps the direction for a third language', () => {
+    const tracker = new DirectionTracker(LANGUAGES, 'es');
+    expect(observe(tracker, '我不知道你在说什么', 'zh', 0.99)).toBe('es');
+  });
+});
@@ -0,0 +1,137 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CircuitBreaker } from '@/lib/resilience/circuit-breaker';
+import { AllProvidersFailedError, fallbackChain, isRetryable, runWithFailover } from '@/lib/resilience/failover';
+
+const NO_DELAY = { attempts: 2, baseDelayMs: 0, maxDelayMs: 0 };
+
+const withStatus = (message: string, status: number) => Object.assign(new Error(message), { status });
+
+describe('CircuitBreaker', () => {
+  function breaker(failureThreshold = 2) {
+    const clock = { now: 0 };
+    return { clock, breaker: new CircuitBreaker('test', { failureThreshold, resetTimeoutMs: 1000 }, () => clock.now) };
+  }
+
+  it('opens after the threshold of failures in a row', () => {
+    const { breaker: circuit } = breaker();
+    circuit.recordFailure();
+    circuit.recordSuccess();
+    circuit.recordFailure();
+    expect(circuit.state).toBe('closed');
+
+    circuit.recordFailure();
+    expect(circuit.state).toBe('open');
+    expect(circuit.tryAcquire()).toBe(false);
+  });
+
+  it('lets one trial through once the timeout has passed', () => {
+    const { clock, breaker: circuit } = breaker();
+    circuit.recordFailure();
+    circuit.recordFailure();
+    clock.now = 400;
+    expect(circuit.status()).toEqual({ name: 'test', state: 'open', failures: 2, retryAfterMs: 600 });
+
+    clock.now = 1000;
+    expect(circuit.tryAcquire()).toBe(true);
+    expect(circuit.tryAcquire()).toBe(false);
+    circuit.recordSuccess();
+    expect(circuit.state).toBe('closed');
+  });
+
+  it('reopens when the trial fails', () => {
+    const { clock, breaker: circuit } = breaker();
+    circuit.recordFailure();
+    circuit.recordFailure();
+    clock.now = 1000;
+    circuit.tryAcquire();
+    circuit.recordFailure();
+    expect(circuit.state).toBe('open');
+  });
+
+  it('never opens with a threshold of 0', () => {
+    const { breaker: circuit } = breaker(0);
+    for (let i = 0; i < 20; i++) {
+      circuit.recordFailure();
+    }
+    expect(circuit.tryAcquire()).toBe(true);
+  });
+});
+
+describe('fallbackChain', () => {
+  afterEach(() => {
+    delete process.env.TEST_FALLBACKS;
+  });
+
+  it('follows the default chain downhill from the requested provider', () => {
+    expect(fallbackChain('google', 'TEST_FALLBACKS', ['google', 'gpt4', 'offline'])).toEqual(['google', 'gpt4', 'offline']);
+    expect(fallbackChain('gpt4', 'TEST_FALLBACKS', ['google', 'gpt4', 'offline'])).toEqual(['gpt4', 'offline']);
+  });
+
+  it('takes the chain from the environment', () => {
+    process.env.TEST_FALLBACKS = 'gpt4, offline';
+    expect(fallbackChain('google', 'TEST_FALLBACKS', ['google', 'gpt4'])).toEqual(['google', 'gpt4', 'offline']);
+    process.env.TEST_FALLBACKS = '';
+    expect(fallbackChain('google', 'TEST_FALLBACKS', ['google', 'gpt4'])).toEqual(['google']);
+  });
+});
+
+describe('isRetryable', () => {
+  it.each([
+    ['a rate limit', withStatus('Rate limit', 429), true],
+    ['a server error', withStatus('Bad gateway', 502), true],
+    ['a network error', Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }), true],
+    ['a Google error code', Object.assign(new Error('Unavailable'), { code: 503 }), true],
+    ['an exhausted quota', Object.assign(withStatus('Quota', 429), { code: 'insufficient_quota' }), false],
+    ['a bad key', withStatus('Unauthorized', 401), false],
+    ['a plain error', new Error('Something broke'), false]
+  ])('%s', (_label, error, expected) => {
+    expect(isRetryable(error)).toBe(expected);
+  });
+});
+
+describe('runWithFailover', () => {
+  it('retries transient errors on the same provider', async () => {
+    const run = vi.fn().mockRejectedValueOnce(withStatus('Overloaded', 503)).mockResolvedValueOnce('ok');
+
+    const result = await runWithFailover('unit-retry', 'req', [{ provider: 'a', run }], NO_DELAY);
+
+    expect(result).toEqual({ value: 'ok', provider: 'a', fallbacks: [] });
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('moves on straight away when a retry will not help', async () => {
+    const first = vi.fn().mockRejectedValue(withStatus('Unauthorized', 401));
+    const second = vi.fn().mockResolvedValue('ok');
+
+    const result = await runWithFailover('unit-move', 'req', [{ provider: 'a', run: first }, { provider: 'b', run: second }], NO_DELAY);
+
+    expect(result.provider).toBe('b');
+    expect(result.fallbacks).toEqual([{ provider: 'a', reason: 'failed', tries: 1, error: 'Unauthorized' }]);
+    expect(first).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips unsupported providers without calling them', async () => {
+    const run = vi.fn();
+
+    const result = await runWithFailover('unit-skip', 'req', [
+      { provider: 'a', supported: async () => false, run },
+      { provider: 'b', run: async () => 'ok' }
+    ], NO_DELAY);
+
+    expect(result.fallbacks).toEqual([{ provider: 'a', reason: 'unsupported', tries: 0 }]);
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it('throws with the first provider error when nothing serves', async () => {
+    const unauthorized = withStatus('Unauthorized', 401);
+
+    const failure = await runWithFailover('unit-fail', 'req', [
+      { provider: 'a', run: () => Promise.reject(unauthorized) },
+      { provider: 'b', run: () => Promise.reject(new Error('Also down')) }
+    ], NO_DELAY).catch(error => error);
+
+    expect(failure).toBeInstanceOf(AllProvidersFailedError);
+    expect(failure.primaryError).toBe(unauthorized);
+    expect(failure.message).toBe('No unit-fail provider could serve the request (a: Unauthorized; b: Also down)');
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { protectTerms } from '@/lib/glossary/apply';
+import { GlossaryMatch } from '@/types/glossary';
+
+const match = (term: string, rendering: string = term): GlossaryMatch => ({ id: term, term, rendering, doNotTranslate: rendering === term });
+
+describe('protectTerms', () => {
+  it('replaces every term in one pass, even terms found in the markup', () => {
+    const matches = [match('Mama Rosa', 'Mamá Rosa'), match('no'), match('span'), match('translate'), match('1'), match('amp')];
+
+    const { text, restore } = protectTerms('Mama Rosa said no to span, translate 1 & AT&T', matches);
+
+    expect(text).toBe(
+      '<span translate="no">[[0]]</span> said <span translate="no">[[1]]</span> to <span translate="no">[[2]]</span>, ' +
+      '<span translate="no">[[3]]</span> <span translate="no">[[4]]</span> &amp; AT&amp;T'
+    );
+    expect(restore(text)).toBe('Mamá Rosa said no to span, translate 1 & AT&T');
+  });
+
+  it('prefers the longer of two overlapping terms', () => {
+    const { text } = protectTerms('Dinner at Mama Rosa, not Mama', [match('Mama', 'Mamá'), match('Mama Rosa')]);
+
+    expect(text).toBe('Dinner at <span translate="no">[[1]]</span>, not <span translate="no">[[0]]</span>');
+  });
+});
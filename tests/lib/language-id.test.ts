@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { identifyLanguage } from '@/lib/language-id/identify';
+
+describe('identifyLanguage', () => {
+  it.each([
+    ['Hello there, how are you today?', 'en'],
+    ['Necesito comprar pan y leche para mañana', 'es'],
+    ['Eu não sei o que você quer dizer', 'pt'],
+    ['Ich weiß nicht, was du meinst', 'de'],
+    ['Ik weet niet wat je bedoelt', 'nl'],
+    ['Nie wiem, co masz na myśli', 'pl'],
+    ['Tôi không biết bạn muốn nói gì', 'vi'],
+    ['Я не знаю, что ты имеешь в виду', 'ru'],
+    ['Я не знаю, що ти маєш на увазі', 'uk'],
+    ['نمی‌دانم منظورت چیست', 'fa']
+  ])('%j → %s', (text, language) => {
+    expect(identifyLanguage(text).language).toBe(language);
+  });
+
+  it('settles single-script languages from the writing system', () => {
+    expect(identifyLanguage('무슨 말인지 모르겠어요')).toEqual({ language: 'ko', confidence: 1, alternatives: [] });
+    expect(identifyLanguage('我不知道你在说什么').language).toBe('zh');
+    expect(identifyLanguage('何を言っているのかわかりません').language).toBe('ja'); // kanji with kana
+  });
+
+  it('reports a confidence and the runners-up', () => {
+    const result = identifyLanguage('Jag vet inte vad du menar');
+
+    expect(result.language).toBe('sv');
+    expect(result.confidence).toBeGreaterThan(0.3);
+    expect(result.confidence).toBeLessThan(1);
+    expect(result.alternatives).toHaveLength(3);
+    expect(result.alternatives[0].confidence).toBeLessThan(result.confidence);
+  });
+
+  it('favours the expected languages when the text is ambiguous', () => {
+    const text = 'la reunión';
+    expect(identifyLanguage(text, { expected: ['en', 'es'] }).confidence).toBeGreaterThan(identifyLanguage(text).confidence);
+  });
+
+  it('is unknown for text with too few letters', () => {
+    expect(identifyLanguage('ok')).toEqual({ language: 'unknown', confidence: 0, alternatives: [] });
+    expect(identifyLanguage('12:30 !!')).toEqual({ language: 'unknown', confidence: 0, alternatives: [] });
+  });
+});
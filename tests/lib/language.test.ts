@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { chooseDirection, decideLanguage } from '@/lib/language';
+
+describe('decideLanguage', () => {
+  it('prefers the explicit hint', () => {
+    expect(decideLanguage({ hint: 'fr', detected: 'spanish', text: 'the cat sat on the mat' })).toEqual({ language: 'fr', confidence: 1, method: 'hint' });
+  });
+
+  it('normalizes the detected language name or code', () => {
+    expect(decideLanguage({ detected: 'Spanish', detectedProbability: 0.9, text: '' })).toMatchObject({ language: 'es', method: 'engine', confidence: 0.9 });
+    expect(decideLanguage({ detected: 'de', text: '' })).toMatchObject({ language: 'de', method: 'engine' });
+  });
+
+  it('combines the engine and the text when they agree', () => {
+    const decision = decideLanguage({ detected: 'es', detectedProbability: 0.8, text: 'Necesito comprar pan y leche para mañana', expected: ['en', 'es'] });
+
+    expect(decision.method).toBe('engine+text');
+    expect(decision.language).toBe('es');
+    expect(decision.confidence).toBeGreaterThan(0.8);
+    expect(decision.engine).toEqual({ language: 'es', probability: 0.8 });
+    expect(decision.text?.language).toBe('es');
+  });
+
+  it('goes with the more confident side when they disagree', () => {
+    const text = 'I need to buy bread and milk for tomorrow';
+    expect(decideLanguage({ detected: 'es', detectedProbability: 0.3, text })).toMatchObject({ language: 'en', method: 'text' });
+    expect(decideLanguage({ detected: 'es', detectedProbability: 0.99, text })).toMatchObject({ language: 'es', method: 'engine' });
+  });
+
+  it('ignores the language the engine was forced to and reads the text instead', () => {
+    const decision = decideLanguage({ forced: 'en', detected: 'en', text: 'Hola, ¿cómo estás? Necesito ayuda', expected: ['en', 'es'] });
+
+    expect(decision).toMatchObject({ language: 'es', method: 'text' });
+    expect(decision.engine).toBeUndefined();
+  });
+
+  it('falls back to the forced language when the text says too little', () => {
+    expect(decideLanguage({ forced: 'en', detected: 'en', text: 'ok' })).toMatchObject({ language: 'en', method: 'default', confidence: 0 });
+  });
+
+  it('is unknown without a detection or a convincing text', () => {
+    expect(decideLanguage({ text: 'mm' })).toMatchObject({ language: 'unknown', method: 'unknown', confidence: 0 });
+    expect(decideLanguage({ detected: 'klingon', text: '' })).toMatchObject({ language: 'unknown' });
+  });
+});
+
+describe('chooseDirection', () => {
+  it('translates source-language speech to the target', () => {
+    expect(chooseDirection('en', 'en', 'es')).toEqual({ from: 'en', to: 'es' });
+  });
+
+  it('translates target-language speech back to the source', () => {
+    expect(chooseDirection('es', 'en', 'es')).toEqual({ from: 'es', to: 'en' });
+  });
+
+  it('translates a third language to the target', () => {
+    expect(chooseDirection('fr', 'en', 'es')).toEqual({ from: 'fr', to: 'es' });
+  });
+
+  it('skips translation when the language is unknown', () => {
+    expect(chooseDirection('unknown', 'en', 'es')).toBeNull();
+  });
+});
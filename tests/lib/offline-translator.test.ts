@@ -0,0 +1,19 @@
+import { describe, expect, it, vi } from 'vitest';
+import { runProcess } from '@/lib/speech/process';
+import { offlineTranslator } from '@/lib/translation/offline';
+
+vi.unmock('@/lib/translation/offline');
+vi.mock('@/lib/speech/process', () => ({ runProcess: vi.fn() }));
+
+describe('offlineTranslator', () => {
+  it('probes the installed languages again after a failed probe', async () => {
+    vi.mocked(runProcess)
+      .mockRejectedValueOnce(new Error('No module named argostranslate'))
+      .mockResolvedValueOnce(Buffer.from('["en", "es"]'));
+
+    expect(await offlineTranslator.supportedLanguages()).toEqual([]);
+    expect(await offlineTranslator.supportedLanguages()).toEqual(['en', 'es']);
+    expect(await offlineTranslator.supportedLanguages()).toEqual(['en', 'es']);
+    expect(runProcess).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { clientIp } from '@/lib/usage/rate-limit';
+
+function request(forwardedFor?: string, ip?: string) {
+  return new NextRequest('http://localhost/api/transcribe', {
+    headers: forwardedFor ? { 'x-forwarded-for': forwardedFor } : {},
+    ip
+  });
+}
+
+describe('clientIp', () => {
+  afterEach(() => {
+    delete process.env.TRUSTED_PROXIES;
+  });
+
+  it('ignores X-Forwarded-For without a trusted proxy', () => {
+    expect(clientIp(request('1.2.3.4', '203.0.113.9'))).toBe('203.0.113.9');
+    expect(clientIp(request('1.2.3.4'))).toBeUndefined();
+  });
+
+  it('takes the right-most hop not added by a trusted proxy', () => {
+    process.env.TRUSTED_PROXIES = '10.0.0.1, 10.0.0.2';
+    // The caller claimed 1.2.3.4; the proxies appended what they actually saw
+    expect(clientIp(request('1.2.3.4, 198.51.100.7, 10.0.0.2', '::ffff:10.0.0.1'))).toBe('198.51.100.7');
+  });
+
+  it('ignores X-Forwarded-For from a peer that is not a trusted proxy', () => {
+    process.env.TRUSTED_PROXIES = '10.0.0.1';
+    expect(clientIp(request('1.2.3.4', '203.0.113.9'))).toBe('203.0.113.9');
+  });
+
+  it('does not let a direct client pick its bucket by forging proxy hops', () => {
+    process.env.TRUSTED_PROXIES = '10.0.0.1';
+    // Connected straight to the app port, posing as traffic the proxy passed on
+    expect(clientIp(request('6.6.6.6, 10.0.0.1', '203.0.113.9'))).toBe('203.0.113.9');
+  });
+});
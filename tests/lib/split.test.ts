@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { splitOnSilence } from '@/lib/jobs/split';
+
+const RATE = 16000;
+
+// A steady tone with silent gaps at the given [start, end] seconds
+function recording(seconds: number, gaps: [number, number][] = []): Int16Array {
+  const samples = new Int16Array(seconds * RATE);
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / RATE;
+    const silent = gaps.some(([start, end]) => t >= start && t < end);
+    samples[i] = silent ? 0 : Math.round(Math.sin(2 * Math.PI * 220 * t) * 3000);
+  }
+  return samples;
+}
+
+describe('splitOnSilence', () => {
+  it('keeps a recording shorter than the maximum in one piece', () => {
+    expect(splitOnSilence(recording(40))).toEqual([{ start: 0, end: 40 * RATE, silent: false }]);
+  });
+
+  it('cuts inside the pause nearest the target length', () => {
+    const pieces = splitOnSilence(recording(100, [[20, 21], [33, 34], [58, 59]]));
+
+    expect(pieces[0].end / RATE).toBeGreaterThanOrEqual(33);
+    expect(pieces[0].end / RATE).toBeLessThan(34);
+    expect(pieces.every(piece => piece.end - piece.start <= 60 * RATE)).toBe(true);
+  });
+
+  it('covers every sample exactly once', () => {
+    const samples = recording(185, [[50, 51], [95, 96]]);
+    const pieces = splitOnSilence(samples);
+
+    expect(pieces[0].start).toBe(0);
+    pieces.slice(1).forEach((piece, index) => expect(piece.start).toBe(pieces[index].end));
+    expect(pieces[pieces.length - 1].end).toBe(samples.length);
+  });
+
+  it('forces a cut at the maximum when nobody pauses', () => {
+    const pieces = splitOnSilence(recording(90), { targetSeconds: 30, minSeconds: 10, maxSeconds: 60 });
+
+    expect(pieces).toHaveLength(2);
+    expect(pieces[0].end - pieces[0].start).toBeLessThanOrEqual(60 * RATE);
+  });
+
+  it('marks pieces with nothing but silence', () => {
+    const pieces = splitOnSilence(recording(90, [[0, 45]]), { targetSeconds: 40, minSeconds: 30, maxSeconds: 50 });
+
+    expect(pieces[0].silent).toBe(true);
+    expect(pieces[pieces.length - 1].silent).toBe(false);
+  });
+});
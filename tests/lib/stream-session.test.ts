@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SpeechChunker } from '@/lib/streaming/chunker';
+import { StreamSession } from '@/lib/streaming/stream-session';
+
+const OPTIONS = { provider: 'openai', translator: 'google', sourceLanguage: 'en', targetLanguage: 'es' };
+
+// One-sample frames whose value is their seq, so the chunker's input shows the order
+const frame = (seq: number) => Int16Array.of(seq);
+
+describe('StreamSession frame ordering', () => {
+  let pushed: number[];
+
+  beforeEach(() => {
+    pushed = [];
+    vi.spyOn(SpeechChunker.prototype, 'push').mockImplementation(samples => {
+      pushed.push(samples[0]);
+    });
+    vi.spyOn(SpeechChunker.prototype, 'flush').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reorders frames that arrive out of order', () => {
+    const session = new StreamSession('user', OPTIONS);
+    [1, 0, 3, 2, 2].forEach(seq => session.appendAudio(seq, frame(seq)));
+    expect(pushed).toEqual([0, 1, 2, 3]);
+  });
+
+  it('skips a lost frame once too many frames wait behind it', () => {
+    const session = new StreamSession('user', OPTIONS);
+    session.appendAudio(0, frame(0));
+    for (let seq = 2; seq <= 17; seq++) {
+      session.appendAudio(seq, frame(seq));
+    }
+    expect(pushed).toEqual([0]);
+
+    session.appendAudio(18, frame(18));
+    expect(pushed).toEqual([0, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18]);
+
+    session.appendAudio(1, frame(1)); // too late
+    expect(pushed).not.toContain(1);
+  });
+
+  it('skips a lost frame after waiting a few seconds for it', () => {
+    vi.useFakeTimers();
+    const session = new StreamSession('user', OPTIONS);
+    session.appendAudio(0, frame(0));
+    session.appendAudio(2, frame(2));
+    vi.advanceTimersByTime(3000);
+
+    session.appendAudio(3, frame(3));
+
+    expect(pushed).toEqual([0, 2, 3]);
+  });
+
+  it('keeps frames waiting behind a gap when the stream closes', async () => {
+    const session = new StreamSession('user', OPTIONS);
+    session.appendAudio(1, frame(1));
+
+    await session.close();
+
+    expect(pushed).toEqual([1]);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getTranslator, supportsPair, UnknownTranslatorError } from '@/lib/translation/registry';
+import { fakeGoogleTranslate } from '../fakes';
+
+describe('translator registry', () => {
+  it('lists the available translators when the name is unknown', () => {
+    expect(() => getTranslator('babelfish')).toThrow(UnknownTranslatorError);
+    expect(() => getTranslator('babelfish')).toThrow('Available: google, gpt4');
+  });
+
+  it('checks both languages of a pair against the translator', async () => {
+    const google = getTranslator('google');
+    expect(await supportsPair(google, 'en', 'es')).toBe(true);
+    expect(await supportsPair(google, 'en', 'tlh')).toBe(false);
+  });
+
+  it('falls back to the built-in language list when Google cannot be reached', async () => {
+    vi.resetModules(); // the Google language list is cached per module instance
+    const registry = await import('@/lib/translation/registry');
+    fakeGoogleTranslate.getLanguages.mockRejectedValueOnce(new Error('getaddrinfo ENOTFOUND'));
+
+    const languages = await registry.getTranslator('google').supportedLanguages();
+
+    expect(languages).toEqual(expect.arrayContaining(['en', 'es', 'de', 'ja']));
+  });
+});
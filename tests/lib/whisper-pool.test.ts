@@ -0,0 +1,94 @@
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { WhisperPoolOptions, WhisperWorkerPool, WorkerUnavailableError } from '@/lib/transcription/whisper-worker';
+
+// Node scripts standing in for scripts/whisper_worker.py
+const WORKERS = {
+  fatal: `console.log(JSON.stringify({ type: 'fatal', error: 'faster_whisper is not installed' })); process.exit(1);`,
+  hung: `
+    console.log(JSON.stringify({ type: 'ready', device: 'cpu' }));
+    require('readline').createInterface({ input: process.stdin }).on('line', line => {
+      if (JSON.parse(line).type === 'shutdown') process.exit(0);
+    });
+  `,
+  silent: `setTimeout(() => {}, 60000); process.stdin.on('end', () => process.exit(0)); process.stdin.resume();`,
+  ready: `
+    console.log(JSON.stringify({ type: 'ready', device: 'cpu' }));
+    require('readline').createInterface({ input: process.stdin }).on('line', line => {
+      const message = JSON.parse(line);
+      if (message.type === 'shutdown') process.exit(0);
+      console.log(JSON.stringify({ id: message.id, ok: true, result: { text: 'Hola' } }));
+    });
+  `
+};
+
+const dir = mkdtempSync(join(tmpdir(), 'whisper-pool-test-'));
+const pools: WhisperWorkerPool[] = [];
+const REQUEST = { audioPath: '/tmp/none.wav', modelSize: 'small' };
+
+function startPool(worker: keyof typeof WORKERS, overrides: Partial<WhisperPoolOptions> = {}) {
+  const scriptPath = join(dir, `${worker}.js`);
+  writeFileSync(scriptPath, WORKERS[worker]);
+  const pool = new WhisperWorkerPool({
+    size: 1,
+    maxQueue: 4,
+    requestTimeoutMs: 5000,
+    queueTimeoutMs: 5000,
+    healthCheckIntervalMs: 60000,
+    pingTimeoutMs: 1000,
+    pythonPath: process.execPath,
+    scriptPath,
+    ...overrides
+  });
+  pool.start();
+  pools.push(pool);
+  return pool;
+}
+
+describe('WhisperWorkerPool', () => {
+  afterEach(async () => {
+    await Promise.all(pools.splice(0).map(pool => pool.shutdown(200)));
+  });
+
+  it('serves requests once a worker is ready', async () => {
+    const pool = startPool('ready');
+
+    await expect(pool.transcribe(REQUEST, 'req-1')).resolves.toEqual({ text: 'Hola' });
+    expect(pool.hasBeenReady()).toBe(true);
+  });
+
+  it('does not hand the next request to a worker killed for timing out', async () => {
+    const pool = startPool('hung', { requestTimeoutMs: 200 });
+
+    const [first, second] = await Promise.all([
+      pool.transcribe(REQUEST, 'req-4').catch(error => error),
+      pool.transcribe(REQUEST, 'req-5').catch(error => error)
+    ]);
+
+    expect(first.message).toBe('Whisper worker #0 timed out after 200ms');
+    // Waited for the restarted worker rather than failing with the killed one
+    expect(second.message).toBe('Whisper worker #0 timed out after 200ms');
+  });
+
+  it('fails waiting requests as soon as the worker cannot start', async () => {
+    const pool = startPool('fatal', { queueTimeoutMs: 30000 });
+
+    const failure = await pool.transcribe(REQUEST, 'req-2').catch(error => error);
+
+    expect(failure).toBeInstanceOf(WorkerUnavailableError);
+    expect(failure.message).toBe('Local Whisper cannot start: faster_whisper is not installed');
+    expect(pool.hasBeenReady()).toBe(false);
+  });
+
+  it('gives up on a request no worker picks up in time', async () => {
+    const pool = startPool('silent', { queueTimeoutMs: 100 });
+
+    const failure = await pool.transcribe(REQUEST, 'req-3').catch(error => error);
+
+    expect(failure).toBeInstanceOf(WorkerUnavailableError);
+    expect(failure.message).toBe('No Whisper worker became available within 100ms');
+    expect(pool.status().queued).toBe(0);
+  });
+});
@@ -0,0 +1,50 @@
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { beforeEach, vi } from 'vitest';
+import { resetCircuitBreakers } from '@/lib/resilience/circuit-breaker';
+import { fakeGoogleTranslate, fakeOfflineTranslate, fakeOpenAI, fakeWhisperPool, resetFakes } from './fakes';
+
+process.env.DATA_DIR = mkdtempSync(join(tmpdir(), 'translate-app-test-'));
+process.env.NEXTAUTH_SECRET = 'test-secret';
+process.env.OPENAI_API_KEY = 'sk-test-not-a-real-key-0000000000';
+process.env.GOOGLE_TRANSLATE_API_KEY = 'test-google-key';
+process.env.RATE_LIMIT_USER_PER_MINUTE = '0';
+process.env.RATE_LIMIT_IP_PER_MINUTE = '0';
+process.env.PROVIDER_RETRY_DELAY_MS = '1';
+
+vi.mock('@/lib/openai', () => ({ getOpenAIClient: () => fakeOpenAI }));
+
+vi.mock('@google-cloud/translate', () => ({
+  v2: {
+    Translate: class {
+      translate = fakeGoogleTranslate.translate;
+      getLanguages = fakeGoogleTranslate.getLanguages;
+    }
+  }
+}));
+
+vi.mock('@/lib/transcription/whisper-worker', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/transcription/whisper-worker')>()),
+  getWhisperWorkerPool: () => fakeWhisperPool,
+  whisperWorkersReady: () => fakeWhisperPool.hasBeenReady()
+}));
+
+vi.mock('@/lib/translation/offline', () => ({
+  offlineTranslator: {
+    name: 'offline',
+    label: 'Offline (Argos)',
+    ignoresGlossary: true,
+    supportedLanguages: fakeOfflineTranslate.supportedLanguages,
+    translate: fakeOfflineTranslate.translate
+  }
+}));
+
+beforeEach(() => {
+  resetFakes();
+  resetCircuitBreakers();
+  // Structured logs are noise here; assertions look at responses
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});